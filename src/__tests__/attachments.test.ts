@@ -0,0 +1,119 @@
+/**
+ * Inbound attachments — data/file parts, MIME and size limits, input modes.
+ */
+import { describe, it, expect } from "vitest";
+import { existsSync, readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Message, Part } from "@a2a-js/sdk";
+
+import {
+  AttachmentError,
+  acceptedInputModes,
+  isMimeAllowed,
+  prepareInput,
+} from "../copilot/attachments.js";
+
+function message(...parts: Part[]): Message {
+  return { kind: "message", messageId: "m1", role: "user", parts };
+}
+
+const inline = (text: string, mimeType: string, name?: string): Part => ({
+  kind: "file",
+  file: { bytes: Buffer.from(text).toString("base64"), mimeType, name },
+});
+
+describe("prepareInput", () => {
+  it("renders data parts as fenced JSON after the text", async () => {
+    const input = await prepareInput(
+      message({ kind: "text", text: "Summarize:" }, { kind: "data", data: { a: 1 } }),
+      "t1",
+    );
+    expect(input.prompt).toBe('Summarize:\n```json\n{\n  "a": 1\n}\n```');
+    expect(input.attachments).toEqual([]);
+  });
+
+  it("writes inline files to a temp dir and removes them on cleanup", async () => {
+    const input = await prepareInput(
+      message(inline("a,b", "text/csv", "../../data.csv"), inline("x", "text/plain", "data.csv")),
+      "t2",
+    );
+    expect(input.prompt).toBe("See the attached files.");
+    expect(input.attachments.map((a) => a.path.split(/[\\/]/).pop())).toEqual(["data.csv", "data-2.csv"]);
+    expect(readFileSync(input.attachments[0].path, "utf-8")).toBe("a,b");
+
+    await input.cleanup();
+    expect(existsSync(input.attachments[0].path)).toBe(false);
+  });
+
+  it("rejects disallowed MIME types and oversized files", async () => {
+    await expect(
+      prepareInput(message(inline("MZ", "application/x-msdownload")), "t3"),
+    ).rejects.toThrow(AttachmentError);
+    await expect(
+      prepareInput(message(inline("0123456789", "text/plain")), "t4", { maxFileSize: 4 }),
+    ).rejects.toThrow(/size limit/);
+    await expect(
+      prepareInput(message(inline("abc", "text/plain"), inline("abc", "text/plain")), "t5", {
+        maxTotalSize: 5,
+      }),
+    ).rejects.toThrow(/total size/);
+  });
+
+  it("refuses file parts when disabled and non-http URIs", async () => {
+    await expect(
+      prepareInput(message(inline("x", "text/plain")), "t6", { enabled: false }),
+    ).rejects.toThrow(/not accepted/);
+    await expect(
+      prepareInput(message({ kind: "file", file: { uri: "file:///etc/passwd", mimeType: "text/plain" } }), "t7"),
+    ).rejects.toThrow(/http or https/);
+  });
+});
+
+describe("prepareInput with file URIs", () => {
+  it("fetches only from allowed hosts, checking every redirect", async () => {
+    const server = createServer((req, res) => {
+      if (req.url === "/report.txt") res.end("quarterly numbers");
+      else if (req.url === "/moved") res.writeHead(302, { location: "/report.txt" }).end();
+      else res.writeHead(302, { location: "http://169.254.169.254/latest/meta-data/" }).end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const byUri = (path: string) => message({ kind: "file", file: { uri: base + path, mimeType: "text/plain" } });
+    const config = { fetchUris: true, allowedHosts: ["127.0.0.1"] };
+
+    try {
+      await expect(prepareInput(byUri("/report.txt"), "t8")).rejects.toThrow(/not accepted/);
+      await expect(
+        prepareInput(byUri("/report.txt"), "t9", { fetchUris: true }),
+      ).rejects.toThrow("File URI host is not allowed: 127.0.0.1");
+
+      const input = await prepareInput(byUri("/moved"), "t10", config);
+      expect(readFileSync(input.attachments[0].path, "utf-8")).toBe("quarterly numbers");
+      await input.cleanup();
+
+      await expect(prepareInput(byUri("/escape"), "t11", config)).rejects.toThrow(
+        "File URI host is not allowed: 169.254.169.254",
+      );
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe("MIME matching and input modes", () => {
+  it("supports wildcards and ignores parameters", () => {
+    expect(isMimeAllowed("image/png", ["image/*"])).toBe(true);
+    expect(isMimeAllowed("text/plain; charset=utf-8", ["text/plain"])).toBe(true);
+    expect(isMimeAllowed("application/zip", ["image/*", "text/*"])).toBe(false);
+  });
+
+  it("advertises what is actually accepted", () => {
+    expect(acceptedInputModes(["text"], { allowedMimeTypes: ["image/png"] })).toEqual([
+      "text",
+      "application/json",
+      "image/png",
+    ]);
+    expect(acceptedInputModes(["text"], { enabled: false })).toEqual(["text", "application/json"]);
+  });
+});
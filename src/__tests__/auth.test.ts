@@ -0,0 +1,125 @@
+/**
+ * Inbound authentication — API keys, JWT verification, agent card security.
+ */
+import { describe, it, expect } from "vitest";
+import { createHmac, generateKeyPairSync, sign } from "node:crypto";
+import { writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Request } from "express";
+
+import {
+  AuthError,
+  buildSecurity,
+  createAuthenticator,
+  loadJwks,
+  verifyJwt,
+} from "../server/auth.js";
+
+const b64 = (obj: unknown) => Buffer.from(JSON.stringify(obj)).toString("base64url");
+
+function hsToken(claims: Record<string, unknown>, secret: string): string {
+  const input = `${b64({ alg: "HS256", typ: "JWT" })}.${b64(claims)}`;
+  return `${input}.${createHmac("sha256", secret).update(input).digest("base64url")}`;
+}
+
+function fakeRequest(headers: Record<string, string>): Request {
+  return { headers, originalUrl: "/a2a/jsonrpc" } as unknown as Request;
+}
+
+describe("verifyJwt", () => {
+  const secret = "s3cret";
+
+  it("accepts a valid HS256 token", () => {
+    const claims = verifyJwt(hsToken({ sub: "orchestrator" }, secret), { secret });
+    expect(claims.sub).toBe("orchestrator");
+  });
+
+  it("rejects a token signed with a different secret", () => {
+    expect(() => verifyJwt(hsToken({ sub: "x" }, "other"), { secret })).toThrow(AuthError);
+  });
+
+  it("rejects expired tokens", () => {
+    const exp = Math.floor(Date.now() / 1000) - 3600;
+    expect(() => verifyJwt(hsToken({ sub: "x", exp }, secret), { secret })).toThrow(/expired/);
+  });
+
+  it("enforces issuer and audience", () => {
+    const token = hsToken({ sub: "x", iss: "a", aud: ["svc"] }, secret);
+    expect(() => verifyJwt(token, { secret, issuer: "b" })).toThrow(/issuer/);
+    expect(() => verifyJwt(token, { secret, audience: "other" })).toThrow(/audience/);
+    expect(verifyJwt(token, { secret, issuer: "a", audience: "svc" }).sub).toBe("x");
+  });
+
+  it("verifies RS256 tokens against a local JWKS file", () => {
+    const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    const jwksPath = join(tmpdir(), `a2a-copilot-jwks-${Date.now()}.json`);
+    writeFileSync(jwksPath, JSON.stringify({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: "k1" }] }));
+    try {
+      const input = `${b64({ alg: "RS256", kid: "k1" })}.${b64({ sub: "svc" })}`;
+      const sig = sign("sha256", Buffer.from(input), privateKey).toString("base64url");
+      const claims = verifyJwt(`${input}.${sig}`, { jwksFile: jwksPath }, loadJwks(jwksPath));
+      expect(claims.sub).toBe("svc");
+    } finally {
+      rmSync(jwksPath, { force: true });
+    }
+  });
+});
+
+describe("createAuthenticator", () => {
+  it("is disabled when nothing is configured", () => {
+    expect(createAuthenticator({}).enabled).toBe(false);
+  });
+
+  it("maps API keys to caller names", () => {
+    const auth = createAuthenticator({ apiKeys: [{ key: "abc", name: "team-a" }] });
+    expect(auth.authenticate(fakeRequest({ "x-api-key": "abc" })).userName).toBe("team-a");
+    expect(() => auth.authenticate(fakeRequest({ "x-api-key": "nope" }))).toThrow(AuthError);
+    expect(() => auth.authenticate(fakeRequest({}))).toThrow(/Missing credentials/);
+  });
+
+  it("uses the configured claim as caller identity", () => {
+    const auth = createAuthenticator({ jwt: { secret: "k", userClaim: "client_id" } });
+    const user = auth.authenticate(
+      fakeRequest({ authorization: `Bearer ${hsToken({ client_id: "orch" }, "k")}` }),
+    );
+    expect(user.userName).toBe("orch");
+    expect(user.method).toBe("jwt");
+  });
+
+  it("limits admin access to the configured callers", () => {
+    const keys = [{ key: "a", name: "ops" }, { key: "b", name: "team-b" }];
+    const verified = (auth: ReturnType<typeof createAuthenticator>, key: string) => {
+      const req = fakeRequest({ "x-api-key": key });
+      auth.middleware(req, {} as never, () => {});
+      return req;
+    };
+
+    // No admins configured — nobody is one
+    const none = createAuthenticator({ apiKeys: keys });
+    expect(none.isAdmin(verified(none, "a"))).toBe(false);
+
+    const restricted = createAuthenticator({ apiKeys: keys, admins: ["ops"] });
+    expect(restricted.isAdmin(verified(restricted, "a"))).toBe(true);
+    expect(restricted.isAdmin(verified(restricted, "b"))).toBe(false);
+    expect(restricted.caller(verified(restricted, "b"))).toBe("team-b");
+    expect(createAuthenticator({ admins: ["ops"] }).isAdmin(fakeRequest({}))).toBe(false);
+
+    // The admin API is only mounted when someone can be an admin
+    expect(restricted.hasAdmins).toBe(true);
+    expect(none.hasAdmins).toBe(false);
+    expect(createAuthenticator({ admins: ["ops"] }).hasAdmins).toBe(false);
+  });
+});
+
+describe("buildSecurity", () => {
+  it("emits nothing when auth is disabled", () => {
+    expect(buildSecurity({})).toEqual({});
+  });
+
+  it("advertises each configured scheme as an alternative", () => {
+    const sec = buildSecurity({ apiKeys: [{ key: "k", name: "n" }], jwt: { secret: "s" } });
+    expect(Object.keys(sec.securitySchemes ?? {})).toEqual(["apiKey", "bearer"]);
+    expect(sec.security).toEqual([{ apiKey: [] }, { bearer: [] }]);
+  });
+});
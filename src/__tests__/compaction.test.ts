@@ -0,0 +1,73 @@
+/**
+ * Compaction — conversation size tracking and swapping a summarized session in.
+ */
+import { describe, it, expect } from "vitest";
+
+import { SessionManager } from "../copilot/session-manager.js";
+import { FakeCopilotClient, testConfig } from "./fakes.js";
+
+function fakeClient(summary = "User is migrating service X to Postgres 16.") {
+  const fake = new FakeCopilotClient();
+  fake.script = (session) => session.reply(summary);
+  return fake;
+}
+
+function config(threshold: number) {
+  return testConfig({
+    copilot: { systemPrompt: "You are a DBA." },
+    session: { compaction: { enabled: true, threshold } },
+  });
+}
+
+describe("SessionManager compaction", () => {
+  it("swaps a summarized session in once the conversation passes the threshold", async () => {
+    const { client, sessions, options } = fakeClient();
+    const manager = new SessionManager(client, config(1_000));
+    await manager.getOrCreate("ctx");
+
+    sessions[0].emit("user.message", { content: "x".repeat(2_000) });
+    expect(manager.needsCompaction("ctx")).toBe(false);
+    sessions[0].emit("assistant.message", { content: "y".repeat(2_000) });
+    expect(manager.needsCompaction("ctx")).toBe(true);
+
+    const report = await manager.compact("ctx");
+    expect(report).toMatchObject({
+      contextId: "ctx",
+      outcome: "compacted",
+      previousSessionId: "s1",
+      sessionId: "s2",
+      tokensBefore: 1_000,
+      threshold: 1_000,
+    });
+    expect(sessions[0].prompts[0]).toMatch(/^Summarize our conversation/);
+    expect(sessions[0].destroyed).toBe(true);
+    // The old session's size is no longer tracked
+    expect(sessions[0].listeners("session.usage_info")).toBe(0);
+    expect(options[1].systemMessage.content).toMatch(
+      /^You are a DBA\.\n\n[^]*<conversation-summary>\nUser is migrating service X to Postgres 16\.\n<\/conversation-summary>$/,
+    );
+    expect(await manager.getOrCreate("ctx")).toMatchObject({ sessionId: "s2", isNew: false });
+    expect(manager.needsCompaction("ctx")).toBe(false);
+
+    // The CLI's own token count replaces the estimate
+    sessions[1].emit("session.usage_info", { currentTokens: 5_000, tokenLimit: 128_000 });
+    expect(manager.needsCompaction("ctx")).toBe(true);
+    await manager.shutdown();
+  });
+
+  it("keeps the session when summarizing fails and waits for more growth", async () => {
+    const { client, sessions } = fakeClient("");
+    const manager = new SessionManager(client, config(1_000));
+    await manager.getOrCreate("ctx");
+    sessions[0].emit("session.usage_info", { currentTokens: 1_200 });
+
+    const report = await manager.compact("ctx");
+    expect(report).toMatchObject({ outcome: "failed", sessionId: "s1", error: "The model returned an empty summary" });
+    expect(sessions).toHaveLength(1);
+    expect(manager.needsCompaction("ctx")).toBe(false);
+
+    sessions[0].emit("session.usage_info", { currentTokens: 1_300 });
+    expect(manager.needsCompaction("ctx")).toBe(true);
+    await manager.shutdown();
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Context queue — one running turn per contextId, FIFO waiters.
+ */
+import { describe, it, expect } from "vitest";
+
+import { ContextQueue, ContextQueueFullError } from "../copilot/context-queue.js";
+
+describe("ContextQueue", () => {
+  it("runs the first task immediately and queues the rest in order", async () => {
+    const queue = new ContextQueue();
+    const order: string[] = [];
+    const first = queue.enter("ctx", "t1", 10);
+    const second = queue.enter("ctx", "t2", 10);
+    const third = queue.enter("ctx", "t3", 10);
+    expect([first.position, second.position, third.position]).toEqual([0, 1, 2]);
+
+    second.ready.then(() => order.push("t2"));
+    third.ready.then(() => order.push("t3"));
+
+    first.leave();
+    await second.ready;
+    expect(queue.runningTask("ctx")).toBe("t2");
+    second.leave();
+    await third.ready;
+    third.leave();
+
+    expect(order).toEqual(["t2", "t3"]);
+    expect(queue.isBusy("ctx")).toBe(false);
+  });
+
+  it("keeps contexts independent", () => {
+    const queue = new ContextQueue();
+    expect(queue.enter("a", "t1", 1).position).toBe(0);
+    expect(queue.enter("b", "t2", 1).position).toBe(0);
+  });
+
+  it("rejects when the queue is full", () => {
+    const queue = new ContextQueue();
+    queue.enter("ctx", "t1", 1);
+    queue.enter("ctx", "t2", 1);
+    expect(() => queue.enter("ctx", "t3", 1)).toThrow(ContextQueueFullError);
+  });
+
+  it("withdraws waiting tasks and reports new positions", async () => {
+    const queue = new ContextQueue();
+    const running = queue.enter("ctx", "t1", 10);
+    const waiting = queue.enter("ctx", "t2", 10);
+    const positions: number[] = [];
+    const last = queue.enter("ctx", "t3", 10, (pos) => positions.push(pos));
+
+    waiting.leave();
+    expect(positions).toEqual([1]);
+    running.leave();
+    await last.ready;
+    expect(queue.runningTask("ctx")).toBe("t3");
+  });
+});
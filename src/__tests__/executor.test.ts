@@ -0,0 +1,398 @@
+/**
+ * Executor — tasks driven end to end through the A2A request handler, on a
+ * fake Copilot client.
+ */
+import { describe, it, expect, afterEach, vi } from "vitest";
+import type { Task, TaskState } from "@a2a-js/sdk";
+import { v4 as uuidv4 } from "uuid";
+
+import type { AgentConfig } from "../config/types.js";
+import { CopilotExecutor } from "../copilot/executor.js";
+import { buildAgentCard } from "../server/agent-card.js";
+import { QuotaRequestHandler } from "../server/quota-handler.js";
+import { createTaskStore, type ManagedTaskStore } from "../server/task-store.js";
+import { FakeCopilotClient, testConfig } from "./fakes.js";
+
+vi.mock("@github/copilot-sdk", async () => ({ CopilotClient: (await import("./fakes.js")).FakeCopilotClient }));
+
+const executors: CopilotExecutor[] = [];
+
+afterEach(async () => {
+  for (const executor of executors.splice(0)) await executor.shutdown();
+});
+
+interface Harness {
+  executor: CopilotExecutor;
+  handler: QuotaRequestHandler;
+  store: ManagedTaskStore;
+  fake: FakeCopilotClient;
+  /** Send a message without waiting for the task to finish; resolves with the task id */
+  send(text: string, options?: { contextId?: string; taskId?: string }): Promise<string>;
+  /** Wait until the stored task reaches `state` */
+  waitFor(taskId: string, state: TaskState): Promise<Task>;
+}
+
+async function harness(overrides: Parameters<typeof testConfig>[0] = {}): Promise<Harness> {
+  const config: Required<AgentConfig> = testConfig(overrides);
+  const executor = new CopilotExecutor(config);
+  executors.push(executor);
+  await executor.initialize();
+  const store = await createTaskStore({ type: "memory" });
+  executor.useTaskStore(store);
+  const handler = new QuotaRequestHandler(buildAgentCard(config), store, executor)
+    .useQuotas(executor.quotas)
+    .useExecutor(executor);
+
+  const send: Harness["send"] = async (text, { contextId = "ctx", taskId } = {}) => {
+    const result = await handler.sendMessage({
+      message: {
+        kind: "message",
+        messageId: uuidv4(),
+        role: "user",
+        parts: [{ kind: "text", text }],
+        contextId,
+        ...(taskId ? { taskId } : {}),
+      },
+      configuration: { blocking: false },
+    });
+    return result.kind === "task" ? result.id : result.taskId!;
+  };
+
+  const waitFor: Harness["waitFor"] = async (taskId, state) => {
+    let task: Task | undefined;
+    await vi.waitFor(async () => {
+      task = await store.load(taskId);
+      expect(task?.status.state).toBe(state);
+    });
+    return task!;
+  };
+
+  return { executor, handler, store, fake: FakeCopilotClient.latest!, send, waitFor };
+}
+
+/** Text of a task's status message. */
+function statusText(task: Task): string {
+  return task.status.message?.parts.map((p) => (p.kind === "text" ? p.text : "")).join("") ?? "";
+}
+
+/** Data of the task's artifact named `name` (a `trace.*` sideband artifact). */
+function traceData(task: Task, name: string): Record<string, any> | undefined {
+  const part = task.artifacts?.find((a) => a.name === name)?.parts[0];
+  return part?.kind === "data" ? part.data : undefined;
+}
+
+/** Text of a task's artifacts — the response, without trace and usage data. */
+function responseText(task: Task): string {
+  return (task.artifacts ?? []).flatMap((a) => a.parts.map((p) => (p.kind === "text" ? p.text : ""))).join("");
+}
+
+describe("CopilotExecutor cancel", () => {
+  it("aborts a running turn and keeps its partial output", async () => {
+    const { handler, fake, store, send, waitFor } = await harness();
+    fake.script = (session, prompt) => {
+      if (prompt.includes("long job")) session.emit("assistant.message_delta", { deltaContent: "Partial answer" });
+      else session.reply(`Done: ${prompt}`);
+    };
+
+    const running = await send("long job");
+    await waitFor(running, "working");
+    await vi.waitFor(() => expect(fake.session("s1").prompts).toEqual(["long job"]));
+    const canceled = await handler.cancelTask({ id: running });
+    expect(canceled.status.state).toBe("canceled");
+    expect(fake.session("s1").aborts).toBe(1);
+    await vi.waitFor(async () => expect(responseText((await store.load(running))!)).toContain("Partial answer"));
+
+    // Late events from the aborted turn are dropped; the context takes new work
+    fake.session("s1").reply("too late");
+    const task = (await store.load(running))!;
+    expect(task.status.state).toBe("canceled");
+    expect(responseText(task)).not.toContain("too late");
+    const next = await send("next question");
+    await waitFor(next, "completed");
+  });
+
+  it("withdraws a task waiting for a running slot or its context", async () => {
+    const { handler, fake, send, waitFor } = await harness({ queue: { maxConcurrentTasks: 1 } });
+    fake.script = (session, prompt) => {
+      if (!prompt.includes("long job")) session.reply(`Done: ${prompt}`);
+    };
+
+    const first = await send("long job", { contextId: "ctx-1" });
+    await waitFor(first, "working");
+    const behindContext = await send("follow-up", { contextId: "ctx-1" });
+    const behindSlot = await send("other job", { contextId: "ctx-2" });
+    await waitFor(behindSlot, "submitted");
+
+    for (const taskId of [behindContext, behindSlot]) {
+      expect((await handler.cancelTask({ id: taskId })).status.state).toBe("canceled");
+      await waitFor(taskId, "canceled");
+    }
+
+    fake.session("s1").reply("finished");
+    await waitFor(first, "completed");
+    expect(fake.sessions).toHaveLength(1);
+    expect(fake.session("s1").prompts).toEqual(["long job"]);
+  });
+
+  it("destroys only the forked session when aborting a forked turn fails", async () => {
+    const { handler, fake, send, waitFor } = await harness({ session: { concurrency: "fork" } });
+    // Turns hold until released; the fork's session cannot be aborted
+    fake.script = (session, prompt) => {
+      if (prompt.includes("fork")) session.abortError = new Error("connection lost");
+    };
+
+    const first = await send("long job");
+    await waitFor(first, "working");
+    const forked = await send("fork me");
+    await vi.waitFor(() => expect(fake.sessions).toHaveLength(2));
+
+    const canceled = await handler.cancelTask({ id: forked });
+    expect(canceled.status.state).toBe("canceled");
+    expect(fake.session("s2").aborts).toBe(1);
+    expect(fake.destroyed).toEqual(["s2"]);
+
+    fake.session("s1").reply("finished");
+    await waitFor(first, "completed");
+    expect(fake.session("s1").destroyed).toBe(false);
+  });
+
+  it("stops a turn parked in input-required and frees its context", async () => {
+    const { handler, fake, store, send, waitFor } = await harness();
+    fake.script = (session, prompt) => {
+      if (!prompt.includes("ask me")) return session.reply(`Done: ${prompt}`);
+      void session.ask("Which file?").then(
+        ({ answer }) => session.reply(`Using ${answer}`),
+        () => {},
+      );
+    };
+
+    const parked = await send("ask me");
+    await waitFor(parked, "input-required");
+    const canceled = await handler.cancelTask({ id: parked });
+    expect(canceled.status.state).toBe("canceled");
+    await vi.waitFor(() => expect(fake.session("s1").aborts).toBe(1));
+    await vi.waitFor(async () => expect(statusText((await store.load(parked))!)).toBe("Task canceled by request."));
+
+    // The context's queue slot was released with the turn
+    const next = await send("next question");
+    await waitFor(next, "completed");
+  });
+});
+
+describe("CopilotExecutor input-required", () => {
+  /** Structured payload of a task's `input-required` status. */
+  function inputRequest(task: Task): Record<string, unknown> | undefined {
+    const part = task.status.message?.parts.find((p) => p.kind === "data");
+    return part?.kind === "data" ? part.data : undefined;
+  }
+
+  it("resumes the parked turn with the caller's reply", async () => {
+    const { fake, send, waitFor } = await harness();
+    fake.script = (session) => {
+      void session.ask("Which file?", ["a.txt", "b.txt"]).then(({ answer }) => session.reply(`Using ${answer}`));
+    };
+
+    const taskId = await send("summarize a file");
+    const parked = await waitFor(taskId, "input-required");
+    expect(inputRequest(parked)).toMatchObject({ type: "user_input", question: "Which file?" });
+
+    await send("B.TXT", { taskId });
+    const done = await waitFor(taskId, "completed");
+    expect(responseText(done)).toBe("Using b.txt");
+    expect(fake.sessions).toHaveLength(1);
+  });
+
+  it("asks for parallel tool approvals one at a time", async () => {
+    const { fake, store, send, waitFor } = await harness({ interaction: { approveTools: ["write_file"] } });
+    fake.script = (session) => {
+      const decisions = [session.useTool("write_file", { path: "a" }), session.useTool("write_file", { path: "b" })];
+      void Promise.all(decisions).then((d) => session.reply(d.map((x) => x?.permissionDecision).join(",")));
+    };
+    const asking = async (taskId: string, path: string) =>
+      vi.waitFor(async () => {
+        const task = (await store.load(taskId))!;
+        expect(task.status.state).toBe("input-required");
+        expect(inputRequest(task)).toMatchObject({ type: "tool_approval", arguments: { path } });
+      });
+
+    const taskId = await send("write both files");
+    await asking(taskId, "a");
+    await send("approve", { taskId });
+    await asking(taskId, "b");
+    await send("deny", { taskId });
+
+    const done = await waitFor(taskId, "completed");
+    expect(responseText(done)).toBe("allow,deny");
+  });
+
+  it("fails the task when the caller does not reply in time", async () => {
+    const { fake, send, waitFor } = await harness({ interaction: { timeout: 50 } });
+    fake.script = (session, prompt) => {
+      if (!prompt.includes("ask me")) return session.reply(`Done: ${prompt}`);
+      void session.ask("Which file?").catch(() => {});
+    };
+
+    const taskId = await send("ask me");
+    const failed = await waitFor(taskId, "failed");
+    expect(statusText(failed)).toMatch(/no reply from the caller/);
+    expect(fake.session("s1").aborts).toBe(1);
+
+    const next = await send("next question");
+    await waitFor(next, "completed");
+  });
+});
+
+describe("CopilotExecutor session admin", () => {
+  it("fails the tasks running on a destroyed session", async () => {
+    const { executor, fake, send, waitFor } = await harness();
+    fake.script = () => {}; // never finishes on its own
+
+    const taskId = await send("long job");
+    await waitFor(taskId, "working");
+    await vi.waitFor(() => expect(fake.sessions).toHaveLength(1));
+
+    expect(await executor.destroySession("s1")).toEqual([taskId]);
+    const failed = await waitFor(taskId, "failed");
+    expect(statusText(failed)).toBe("Task stopped: its Copilot session was destroyed by an administrator.");
+    expect(fake.destroyed).toEqual(["s1"]);
+    expect(executor.listSessions().sessions).toEqual([]);
+  });
+});
+
+describe("CopilotExecutor task budget", () => {
+  it("stops a turn as soon as it goes over the task's token budget", async () => {
+    const { executor, fake, send, waitFor } = await harness({ quotas: { maxTaskTokens: 1000 } });
+    fake.script = (session) => {
+      session.emit("assistant.message_delta", { deltaContent: "Partial answer" });
+      session.emit("assistant.usage", { inputTokens: 900, outputTokens: 200, model: "claude-sonnet-4.5" });
+      // The turn would go on, but is aborted here
+    };
+
+    const taskId = await send("big job");
+    const failed = await waitFor(taskId, "failed");
+    expect(statusText(failed)).toBe("Task stopped: it used 1100 tokens, over its budget of 1000.");
+    expect(fake.session("s1").aborts).toBe(1);
+    expect(executor.usage.context("ctx")).toMatchObject({ inputTokens: 900, outputTokens: 200 });
+  });
+});
+
+describe("CopilotExecutor retries", () => {
+  const fastRetry = { maxAttempts: 2, initialBackoff: 1, maxBackoff: 1 };
+
+  it("retries a transient failure on the same session", async () => {
+    const { fake, send, waitFor } = await harness({ retry: fastRetry });
+    let calls = 0;
+    fake.script = (session, prompt) => {
+      if (++calls === 1) throw new Error("429 Too Many Requests");
+      session.reply(`Done: ${prompt}`);
+    };
+
+    const taskId = await send("flaky job");
+    const done = await waitFor(taskId, "completed");
+    expect(responseText(done)).toContain("Done: flaky job");
+    expect(traceData(done, "trace.retry")?.attempts).toMatchObject([
+      { attempt: 1, outcome: "error", failure: "transient", retry_in_ms: 1 },
+      { attempt: 2, outcome: "success" },
+    ]);
+    expect(fake.sessions).toHaveLength(1);
+  });
+
+  it("falls back to the next model when the model is unavailable", async () => {
+    const { fake, send, waitFor } = await harness({
+      retry: fastRetry,
+      copilot: { model: "model-a", fallbackModels: ["model-b"] },
+    });
+    fake.script = (session, prompt) => {
+      if (session.options.model === "model-a") throw new Error("Model model-a is not available");
+      session.reply(`Done on ${session.options.model}: ${prompt}`);
+    };
+
+    const taskId = await send("job");
+    const done = await waitFor(taskId, "completed");
+    expect(responseText(done)).toContain("Done on model-b: job");
+    expect(traceData(done, "trace.retry")?.attempts).toMatchObject([
+      { attempt: 1, model: "model-a", failure: "model", next_model: "model-b" },
+      { attempt: 2, model: "model-b", outcome: "success" },
+    ]);
+  });
+
+  it("fails without retrying once the turn produced output", async () => {
+    const { fake, send, waitFor } = await harness({ retry: fastRetry });
+    fake.script = (session) => {
+      session.emit("assistant.message_delta", { deltaContent: "Half an answer" });
+      throw new Error("503 Service Unavailable");
+    };
+
+    const taskId = await send("job");
+    const failed = await waitFor(taskId, "failed");
+    expect(statusText(failed)).toContain("503 Service Unavailable");
+    expect(fake.session("s1").prompts).toHaveLength(1);
+  });
+});
+
+describe("CopilotExecutor task queue", () => {
+  it("fails a task that waits too long for a running slot, then frees the slot", async () => {
+    const { fake, send, waitFor } = await harness({ queue: { maxConcurrentTasks: 1, timeout: 50 } });
+    fake.script = (session, prompt) => {
+      if (!prompt.includes("long job")) session.reply(`Done: ${prompt}`);
+    };
+
+    const first = await send("long job", { contextId: "ctx-1" });
+    await waitFor(first, "working");
+    const queued = await send("quick job", { contextId: "ctx-2" });
+    const failed = await waitFor(queued, "failed");
+    expect(statusText(failed)).toMatch(/Retry later\.$/);
+    expect(fake.sessions).toHaveLength(1);
+
+    fake.session("s1").reply("finished");
+    await waitFor(first, "completed");
+    const next = await send("quick job", { contextId: "ctx-2" });
+    await waitFor(next, "completed");
+  });
+
+  it("holds no running slot for tasks waiting behind a busy context", async () => {
+    const { fake, send, waitFor } = await harness({ queue: { maxConcurrentTasks: 2 } });
+    fake.script = (session, prompt) => {
+      if (!prompt.includes("long job")) session.reply(`Done: ${prompt}`);
+    };
+
+    const first = await send("long job", { contextId: "ctx-1" });
+    await waitFor(first, "working");
+    const second = await send("follow-up", { contextId: "ctx-1" });
+    const third = await send("another follow-up", { contextId: "ctx-1" });
+    const other = await send("quick job", { contextId: "ctx-2" });
+    await waitFor(other, "completed");
+
+    fake.session("s1").reply("finished");
+    await waitFor(first, "completed");
+    await waitFor(second, "completed");
+    await waitFor(third, "completed");
+  });
+});
+
+describe("CopilotExecutor compaction", () => {
+  it("summarizes a long conversation as an accounted turn of the task", async () => {
+    const { executor, fake, send, waitFor } = await harness({
+      session: { compaction: { enabled: true, threshold: 100, prompt: "SUMMARIZE" } },
+    });
+    fake.script = (session, prompt) => {
+      if (prompt === "SUMMARIZE") {
+        session.emit("assistant.usage", { inputTokens: 400, outputTokens: 40 });
+        return session.reply("We discussed a long job.");
+      }
+      session.reply("y".repeat(1_000));
+    };
+
+    await waitFor(await send("long job"), "completed");
+    const taskId = await send("follow up");
+    const done = await waitFor(taskId, "completed");
+
+    expect(traceData(done, "trace.compaction")).toMatchObject({ outcome: "compacted", previousSessionId: "s1", sessionId: "s2" });
+    expect(fake.session("s1").prompts.at(-1)).toBe("SUMMARIZE");
+    expect(fake.session("s2").prompts).toHaveLength(1);
+    // The summary turn shows up in the task's usage and the ledger
+    const turns = done.artifacts!.filter((a) => a.name === "trace.usage").map((a) => (a.parts[0] as any).data);
+    expect(turns).toMatchObject([{ turn: 1, input_tokens: 400, output_tokens: 40 }, { turn: 2 }]);
+    expect(executor.usage.context("ctx")).toMatchObject({ inputTokens: 400, outputTokens: 40 });
+  });
+});
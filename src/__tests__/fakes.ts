@@ -0,0 +1,176 @@
+/**
+ * Shared test doubles — a scriptable Copilot client and session, and agent
+ * config built over the defaults.
+ */
+import type { CopilotClient } from "@github/copilot-sdk";
+
+import { DEFAULTS } from "../config/defaults.js";
+import type { AgentConfig } from "../config/types.js";
+
+type Handler = (event: any) => void;
+
+/**
+ * What a session does with a prompt: emit events (`reply`, `emit`), wait,
+ * or throw. Runs for both `send` and `sendAndWait`.
+ */
+export type Script = (session: FakeSession, prompt: string) => void | Promise<void>;
+
+/** Replies with the prompt echoed back, then goes idle. */
+export const echo: Script = (session, prompt) => session.reply(`Done: ${prompt}`);
+
+export class FakeSession {
+  /** Prompts sent, in order */
+  readonly prompts: string[] = [];
+  destroyed = false;
+  aborts = 0;
+  /** Make `abort` fail, as when the CLI connection is gone */
+  abortError: Error | null = null;
+  private readonly handlers = new Map<string, Set<Handler>>();
+
+  constructor(
+    readonly sessionId: string,
+    private readonly client: FakeCopilotClient | null = null,
+    /** Options the session was created or resumed with */
+    readonly options: Record<string, any> = {},
+  ) {}
+
+  on(type: string, handler: Handler): () => void {
+    if (!this.handlers.has(type)) this.handlers.set(type, new Set());
+    this.handlers.get(type)!.add(handler);
+    return () => this.handlers.get(type)!.delete(handler);
+  }
+
+  emit(type: string, data: Record<string, unknown> = {}): void {
+    for (const handler of [...(this.handlers.get(type) ?? [])]) handler({ type, data });
+  }
+
+  /** Handlers registered for `type`. */
+  listeners(type: string): number {
+    return this.handlers.get(type)?.size ?? 0;
+  }
+
+  /** Ask the caller a question, as the model's `ask_user` tool does. */
+  ask(question: string, choices?: string[]): Promise<{ answer: string; wasFreeform: boolean }> {
+    return this.options.onUserInputRequest({ question, choices }, { sessionId: this.sessionId });
+  }
+
+  /** Run the pre-tool-use hook for a call (policy, caller approval); resolves with its decision. */
+  useTool(toolName: string, toolArgs: Record<string, unknown> = {}): Promise<{ permissionDecision?: string } | void> {
+    return this.options.hooks.onPreToolUse({ toolName, toolArgs }, { sessionId: this.sessionId });
+  }
+
+  /** Answer with `content`, then go idle. */
+  reply(content: string): void {
+    this.emit("assistant.message", { content });
+    this.emit("session.idle");
+  }
+
+  async send({ prompt }: { prompt: string }): Promise<string> {
+    this.prompts.push(prompt);
+    await this.client?.script(this, prompt);
+    return `msg-${this.prompts.length}`;
+  }
+
+  async sendAndWait({ prompt }: { prompt: string }): Promise<{ data: { content: string } } | undefined> {
+    let content: string | undefined;
+    const unsubscribe = this.on("assistant.message", (event) => (content = event.data.content));
+    try {
+      this.prompts.push(prompt);
+      await this.client?.script(this, prompt);
+    } finally {
+      unsubscribe();
+    }
+    return content === undefined ? undefined : { data: { content } };
+  }
+
+  async abort(): Promise<void> {
+    this.aborts++;
+    if (this.abortError) throw this.abortError;
+  }
+
+  async destroy(): Promise<void> {
+    this.destroyed = true;
+    this.client?.destroyed.push(this.sessionId);
+  }
+
+  async getMessages(): Promise<unknown[]> {
+    return this.client?.events ?? [];
+  }
+}
+
+/**
+ * Stands in for `CopilotClient`: creates `FakeSession`s named s1, s2, ...
+ * and resumes the ones it created (or was told about in `known`).
+ */
+export class FakeCopilotClient {
+  /** The most recently constructed client — for code that creates its own */
+  static latest: FakeCopilotClient | null = null;
+
+  readonly sessions: FakeSession[] = [];
+  /** Options passed to each `createSession` */
+  readonly options: Record<string, any>[] = [];
+  /** Ids of destroyed sessions, in order */
+  readonly destroyed: string[] = [];
+  /** `create <id>` / `resume <id>` calls, in order */
+  readonly calls: string[] = [];
+  /** Events returned by every session's `getMessages` */
+  events: unknown[] = [];
+  script: Script = echo;
+  private readonly known: Set<string>;
+  private created = 0;
+
+  /** `known`: resumable session ids (an options object when built as a CopilotClient) */
+  constructor(known: string[] | Record<string, unknown> = []) {
+    this.known = new Set(Array.isArray(known) ? known : []);
+    FakeCopilotClient.latest = this;
+  }
+
+  /** This client, typed for code that takes a real one. */
+  get client(): CopilotClient {
+    return this as unknown as CopilotClient;
+  }
+
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  async createSession(options: Record<string, any> = {}): Promise<FakeSession> {
+    const session = new FakeSession(`s${++this.created}`, this, options);
+    this.options.push(options);
+    this.sessions.push(session);
+    this.known.add(session.sessionId);
+    this.calls.push(`create ${session.sessionId}`);
+    return session;
+  }
+
+  async resumeSession(sessionId: string, options: Record<string, any> = {}): Promise<FakeSession> {
+    this.calls.push(`resume ${sessionId}`);
+    if (!this.known.has(sessionId)) throw new Error(`Session not found: ${sessionId}`);
+    const session = new FakeSession(sessionId, this, options);
+    this.sessions.push(session);
+    return session;
+  }
+
+  /** The session with `sessionId` (the latest, if it was resumed). */
+  session(sessionId: string): FakeSession {
+    const session = [...this.sessions].reverse().find((s) => s.sessionId === sessionId);
+    if (!session) throw new Error(`No session ${sessionId}`);
+    return session;
+  }
+}
+
+type ConfigOverrides = { [K in keyof AgentConfig]?: Partial<NonNullable<AgentConfig[K]>> };
+
+/** The default config with each given section merged over its defaults. */
+export function testConfig(overrides: ConfigOverrides = {}): Required<AgentConfig> {
+  const config: Record<string, unknown> = { ...DEFAULTS };
+  for (const [section, value] of Object.entries(overrides)) {
+    const base = (DEFAULTS as Record<string, unknown>)[section];
+    config[section] = isSection(base) && isSection(value) ? { ...base, ...value } : value;
+  }
+  return config as Required<AgentConfig>;
+}
+
+function isSection(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,124 @@
+/**
+ * Workspace file artifacts — change detection, filters, inline vs URI.
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { WorkspaceFileArtifacts } from "../copilot/file-artifacts.js";
+import { matchesGlob } from "../utils/glob.js";
+
+describe("matchesGlob", () => {
+  it("matches segments, globstars and basenames", () => {
+    expect(matchesGlob("reports/q1/summary.md", ["reports/**"])).toBe(true);
+    expect(matchesGlob("reports", ["reports/**"])).toBe(true);
+    expect(matchesGlob("notes/summary.md", ["*.md"])).toBe(true);
+    expect(matchesGlob("notes/summary.md", ["notes/*.{txt,csv}"])).toBe(false);
+    expect(matchesGlob("a/b/c.txt", ["**/c.txt"])).toBe(true);
+    expect(matchesGlob("a/b/c.txt", ["a/*.txt"])).toBe(false);
+  });
+});
+
+describe("WorkspaceFileArtifacts", () => {
+  const dirs: string[] = [];
+  const newDir = () => {
+    const dir = mkdtempSync(join(tmpdir(), "a2a-copilot-ws-"));
+    dirs.push(dir);
+    return dir;
+  };
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  const server = { port: 3000, advertiseHost: "agent.local" };
+
+  it("publishes only created or modified files that pass the filters", async () => {
+    const ws = newDir();
+    writeFileSync(join(ws, "existing.md"), "old");
+    writeFileSync(join(ws, "untouched.md"), "same");
+    const files = new WorkspaceFileArtifacts(
+      { include: ["**/*.md", "*.csv"], exclude: ["tmp/**"], directory: newDir() },
+      ws,
+      server,
+    );
+    const before = await files.snapshot("t1");
+
+    writeFileSync(join(ws, "existing.md"), "new content");
+    mkdirSync(join(ws, "reports"));
+    writeFileSync(join(ws, "reports", "q1.md"), "# Q1");
+    writeFileSync(join(ws, "data.csv"), "a,b");
+    writeFileSync(join(ws, "script.sh"), "echo");
+    mkdirSync(join(ws, "tmp"));
+    writeFileSync(join(ws, "tmp", "scratch.md"), "x");
+    mkdirSync(join(ws, ".a2a-attachments"));
+    writeFileSync(join(ws, ".a2a-attachments", "in.md"), "x");
+
+    const artifacts = (await files.collect("t1", before, null))!;
+    expect(artifacts.map((a) => a.path)).toEqual(["data.csv", "existing.md", "reports/q1.md"]);
+    const q1 = artifacts[2].part.file;
+    expect("bytes" in q1 && Buffer.from(q1.bytes, "base64").toString()).toBe("# Q1");
+    expect(q1.mimeType).toBe("text/markdown");
+  });
+
+  it("serves large files by URI from a stored copy, to the task's caller only", async () => {
+    const ws = newDir();
+    const files = new WorkspaceFileArtifacts({ inlineMaxSize: 4, directory: newDir() }, ws, server);
+    const before = await files.snapshot("task-1");
+    writeFileSync(join(ws, "big.txt"), "0123456789");
+
+    const [artifact] = (await files.collect("task-1", before, "alice"))!;
+    const file = artifact.part.file;
+    expect("uri" in file).toBe(true);
+    const uri = (file as { uri: string }).uri;
+    expect(uri).toMatch(/^http:\/\/agent\.local:3000\/artifacts\/task-1\/[\w-]+\/big\.txt$/);
+
+    const [, , , , taskId, fileId, name] = uri.split("/");
+    writeFileSync(join(ws, "big.txt"), "changed later");
+    const path = await files.resolveDownload(taskId, fileId, name, "alice");
+    expect(readFileSync(path!, "utf-8")).toBe("0123456789");
+    expect(await files.resolveDownload(taskId, fileId, name, "bob")).toBeNull();
+    expect(await files.resolveDownload(taskId, fileId, name, null)).toBeNull();
+    expect(await files.resolveDownload(taskId, "..", "..", "alice")).toBeNull();
+  });
+
+  it("deletes stored copies once they are older than maxAge", async () => {
+    const ws = newDir();
+    const directory = newDir();
+    const files = new WorkspaceFileArtifacts({ inlineMaxSize: 4, directory, maxAge: 60_000 }, ws, server);
+    for (const taskId of ["old", "new"]) {
+      const before = await files.snapshot(taskId);
+      writeFileSync(join(ws, `${taskId}.txt`), `written by ${taskId}`);
+      await files.collect(taskId, before, "alice");
+    }
+    const stored = Date.now() - 120_000;
+    utimesSync(join(directory, "old", "owner.json"), stored / 1000, stored / 1000);
+
+    expect(await files.prune()).toBe(1);
+    expect(readdirSync(directory)).toEqual(["new"]);
+    expect(await new WorkspaceFileArtifacts({ directory, maxAge: 0 }, ws, server).prune(Date.now() + 3_600_000)).toBe(0);
+  });
+
+  it("publishes nothing for tasks that overlapped in the workspace", async () => {
+    const ws = newDir();
+    const files = new WorkspaceFileArtifacts({ directory: newDir() }, ws, server);
+    const beforeA = await files.snapshot("a");
+    const beforeB = await files.snapshot("b");
+    writeFileSync(join(ws, "b-wrote-this.txt"), "secret");
+
+    expect(await files.collect("a", beforeA, "alice")).toBeNull();
+    expect(await files.collect("b", beforeB, "bob")).toBeNull();
+
+    // Once alone again, a task's changes are its own
+    const beforeC = await files.snapshot("c");
+    writeFileSync(join(ws, "c.txt"), "mine");
+    expect((await files.collect("c", beforeC, "carol"))!.map((a) => a.path)).toEqual(["c.txt"]);
+  });
+
+  it("is a no-op without a workspace directory", async () => {
+    const files = new WorkspaceFileArtifacts({}, undefined, server);
+    expect(files.enabled).toBe(false);
+    expect(await files.collect("t", await files.snapshot("t"), null)).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Health — readiness checks for the Copilot client, auth, MCP servers and workspace.
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { DEFAULTS } from "../config/defaults.js";
+import type { AgentConfig, McpServerConfig } from "../config/types.js";
+import { checkReadiness } from "../copilot/health.js";
+
+const servers: Server[] = [];
+const dirs: string[] = [];
+
+afterEach(() => {
+  for (const s of servers.splice(0)) s.close();
+  for (const d of dirs.splice(0)) rmSync(d, { recursive: true, force: true });
+});
+
+function fakeClient(state = "connected", auth: Record<string, unknown> = { isAuthenticated: true, login: "octocat" }) {
+  return {
+    getState: () => state,
+    ping: async () => ({ message: "health", timestamp: Date.now() }),
+    getAuthStatus: async () => auth,
+  };
+}
+
+async function mcpServer(status: number): Promise<string> {
+  const server = createServer((_req, res) => res.writeHead(status).end());
+  servers.push(server);
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+}
+
+function config(mcp: Record<string, McpServerConfig>, workspaceDirectory?: string): Required<AgentConfig> {
+  return { ...DEFAULTS, copilot: { ...DEFAULTS.copilot, workspaceDirectory }, mcp } as Required<AgentConfig>;
+}
+
+describe("checkReadiness", () => {
+  it("is ready when every check passes", async () => {
+    const workspace = mkdtempSync(join(tmpdir(), "health-"));
+    dirs.push(workspace);
+    const report = await checkReadiness(
+      fakeClient(),
+      config(
+        {
+          api: { type: "http", url: await mcpServer(405) },
+          fs: { type: "stdio", command: "node" },
+          off: { type: "stdio", command: "missing-command", enabled: false },
+        },
+        workspace,
+      ),
+      1_000,
+    );
+
+    expect(report.status).toBe("ready");
+    expect(Object.keys(report.checks)).toEqual(["copilot", "auth", "workspace", "mcp:api", "mcp:fs"]);
+    expect(report.checks.auth.detail).toBe("signed in as octocat");
+    expect(report.checks["mcp:api"].detail).toMatch(/answered 405/);
+  });
+
+  it("is unready when a critical check fails and degraded for optional ones", async () => {
+    const degraded = await checkReadiness(
+      fakeClient(),
+      config({
+        api: { type: "http", url: await mcpServer(503) },
+        tool: { type: "stdio", command: "missing-command-xyz" },
+      }),
+      1_000,
+    );
+    expect(degraded.status).toBe("degraded");
+    expect(degraded.checks["mcp:api"]).toMatchObject({ status: "fail", critical: false });
+    expect(degraded.checks["mcp:tool"].detail).toMatch(/not found/);
+
+    const critical = await checkReadiness(
+      fakeClient(),
+      config({ tool: { type: "stdio", command: "missing-command-xyz", critical: true } }),
+      1_000,
+    );
+    expect(critical.status).toBe("unready");
+  });
+
+  it("fails the Copilot, auth and workspace checks", async () => {
+    const report = await checkReadiness(
+      fakeClient("connected", { isAuthenticated: false, statusMessage: "Token expired" }),
+      config({}, join(tmpdir(), "does-not-exist", "workspace")),
+      1_000,
+    );
+    expect(report.status).toBe("unready");
+    expect(report.checks.copilot.status).toBe("pass");
+    expect(report.checks.auth).toMatchObject({ status: "fail", detail: "Token expired" });
+    expect(report.checks.workspace.status).toBe("fail");
+
+    const stopped = await checkReadiness(null, config({}), 1_000);
+    expect(stopped.checks.copilot.detail).toBe("Copilot client is not started");
+    expect(stopped.checks.auth.status).toBe("fail");
+  });
+
+  it("fails checks that take longer than the timeout", async () => {
+    const client = { ...fakeClient(), ping: () => new Promise(() => {}) };
+    const report = await checkReadiness(client, config({}), 20);
+    expect(report.checks.copilot).toMatchObject({ status: "fail", detail: "No answer within 20ms" });
+  });
+});
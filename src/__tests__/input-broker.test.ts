@@ -0,0 +1,95 @@
+/**
+ * Caller input — clarifying questions, tool approvals, reply parsing.
+ */
+import { describe, it, expect } from "vitest";
+import type { Message, Part } from "@a2a-js/sdk";
+
+import {
+  InputBroker,
+  describeInputRequest,
+  parseAnswer,
+  parseApproval,
+  type InputRequest,
+} from "../copilot/input-broker.js";
+import { McpEvidenceHooks } from "../copilot/mcp-hooks.js";
+
+type Hook = (input: unknown, invocation: unknown) => Promise<any>;
+
+function reply(...parts: Part[]): Message {
+  return { kind: "message", messageId: "r1", role: "user", parts };
+}
+
+const text = (t: string): Part => ({ kind: "text", text: t });
+
+describe("reply parsing", () => {
+  it("matches answers to choices case-insensitively", () => {
+    expect(parseAnswer(reply(text("staging")), ["Production", "Staging"])).toEqual({
+      answer: "Staging",
+      wasFreeform: false,
+    });
+    expect(parseAnswer(reply(text("both")), ["Production", "Staging"]).wasFreeform).toBe(true);
+    expect(parseAnswer(reply({ kind: "data", data: { answer: "42" } })).answer).toBe("42");
+  });
+
+  it("reads approvals from text or a data part", () => {
+    expect(parseApproval(reply(text("Approve")))).toEqual({ approved: true });
+    expect(parseApproval(reply(text(" yes! ")))).toEqual({ approved: true });
+    for (const hedged of ["ok, but no", "yes? no wait", "approve? no", "yes please delete nothing"]) {
+      expect(parseApproval(reply(text(hedged)))).toEqual({ approved: false, reason: hedged });
+    }
+    expect(parseApproval(reply(text("no, wrong directory")))).toEqual({
+      approved: false,
+      reason: "no, wrong directory",
+    });
+    expect(parseApproval(reply({ kind: "data", data: { approved: false, reason: "later" } }))).toEqual({
+      approved: false,
+      reason: "later",
+    });
+  });
+
+  it("describes requests for the input-required status", () => {
+    const { text: body, data } = describeInputRequest({ kind: "question", question: "Which env?", choices: ["a", "b"] });
+    expect(body).toBe("Which env?\n\nOptions:\n- a\n- b");
+    expect(data).toMatchObject({ type: "user_input", choices: ["a", "b"] });
+  });
+});
+
+describe("InputBroker", () => {
+  it("routes questions to the requester bound to the session", async () => {
+    const broker = new InputBroker();
+    const seen: InputRequest[] = [];
+    broker.bindSession("s1", async (req) => {
+      seen.push(req);
+      return reply(text("blue"));
+    });
+
+    const res = await broker.onUserInputRequest({ question: "Colour?" }, { sessionId: "s1" });
+    expect(res).toEqual({ answer: "blue", wasFreeform: true });
+    expect(seen).toEqual([{ kind: "question", question: "Colour?" }]);
+    await expect(broker.onUserInputRequest({ question: "?" }, { sessionId: "other" })).rejects.toThrow();
+  });
+
+  it("only asks for approval of matching tools", async () => {
+    const broker = new InputBroker({ approveTools: ["write_*", "shell"] });
+    broker.bindSession("s1", async () => reply(text("deny")));
+
+    expect(await broker.approveTool("s1", "read_file", {})).toBeNull();
+    expect(await broker.approveTool("s1", "write_file", {})).toEqual({ approved: false, reason: "deny" });
+    expect((await broker.approveTool("unbound", "shell", {}))?.approved).toBe(false);
+  });
+
+  it("turns a denial into a deny decision in onPreToolUse", async () => {
+    const broker = new InputBroker({ approveTools: ["write_file"] });
+    broker.bindSession("s1", async () => reply(text("not there")));
+    const hooks = new McpEvidenceHooks({ approver: (s, t, a) => broker.approveTool(s, t, a) });
+    const { onPreToolUse } = hooks.getHooks() as Record<string, Hook>;
+
+    expect(await onPreToolUse({ toolName: "write_file", toolArgs: { path: "/etc/x" } }, { sessionId: "s1" })).toEqual({
+      permissionDecision: "deny",
+      permissionDecisionReason: "not there",
+    });
+    expect((await onPreToolUse({ toolName: "read_file", toolArgs: {} }, { sessionId: "s1" })).permissionDecision).toBe(
+      "allow",
+    );
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * MCP evidence hooks — per-session isolation and tool call correlation.
+ */
+import { describe, it, expect } from "vitest";
+import type { ExecutionEventBus } from "@a2a-js/sdk/server";
+
+import { McpEvidenceHooks } from "../copilot/mcp-hooks.js";
+
+type Hook = (input: unknown, invocation: unknown) => Promise<unknown>;
+
+function fakeBus() {
+  const events: any[] = [];
+  const bus = { publish: (e: unknown) => events.push(e) } as unknown as ExecutionEventBus;
+  return { bus, events };
+}
+
+function bind(hooks: McpEvidenceHooks, sessionId: string, taskId: string) {
+  const { bus, events } = fakeBus();
+  hooks.bindSession(sessionId, {
+    bus,
+    taskId,
+    contextId: `ctx-${taskId}`,
+    agentId: "agent",
+    agentName: "Agent",
+    traceId: "trace",
+  });
+  return events;
+}
+
+describe("McpEvidenceHooks", () => {
+  it("publishes each session's tool calls to its own task", async () => {
+    const hooks = new McpEvidenceHooks();
+    const eventsA = bind(hooks, "s-a", "task-a");
+    const eventsB = bind(hooks, "s-b", "task-b");
+    const { onPreToolUse, onPostToolUse } = hooks.getHooks() as Record<string, Hook>;
+
+    await onPreToolUse({ toolName: "read_file", toolArgs: { path: "a" } }, { sessionId: "s-a" });
+    await onPreToolUse({ toolName: "read_file", toolArgs: { path: "b" } }, { sessionId: "s-b" });
+    await onPostToolUse({ toolName: "read_file", toolArgs: { path: "b" }, toolResult: "B" }, { sessionId: "s-b" });
+    await onPostToolUse({ toolName: "read_file", toolArgs: { path: "a" }, toolResult: "A" }, { sessionId: "s-a" });
+
+    expect(eventsA).toHaveLength(1);
+    expect(eventsB).toHaveLength(1);
+    expect(eventsA[0].taskId).toBe("task-a");
+    expect(eventsB[0].taskId).toBe("task-b");
+  });
+
+  it("correlates parallel calls to the same tool by arguments and SDK toolCallId", async () => {
+    const hooks = new McpEvidenceHooks();
+    const events = bind(hooks, "s1", "t1");
+    const { onPreToolUse, onPostToolUse } = hooks.getHooks() as Record<string, Hook>;
+
+    await onPreToolUse({ toolName: "search", toolArgs: { q: "one" } }, { sessionId: "s1" });
+    await onPreToolUse({ toolName: "search", toolArgs: { q: "two" } }, { sessionId: "s1" });
+    hooks.noteToolStart("s1", "call-2", ["search"], { q: "two" });
+    hooks.noteToolStart("s1", "call-1", ["search"], { q: "one" });
+    await onPostToolUse({ toolName: "search", toolArgs: { q: "two" }, toolResult: "2" }, { sessionId: "s1" });
+    await onPostToolUse({ toolName: "search", toolArgs: { q: "one" }, toolResult: "1" }, { sessionId: "s1" });
+
+    const data = events.map((e) => e.artifact.parts[0].data);
+    expect(data.map((d) => [d.tool_call_id, d.response.result])).toEqual([
+      ["call-2", "2"],
+      ["call-1", "1"],
+    ]);
+  });
+
+  it("keeps a rebound session when a stale task unbinds", () => {
+    const hooks = new McpEvidenceHooks();
+    bind(hooks, "s1", "old");
+    const events = bind(hooks, "s1", "new");
+    hooks.unbindSession("s1", "old");
+    hooks.noteToolStart("s1", "x", ["t"], {});
+    expect(events).toHaveLength(0);
+    expect((hooks as any).sessions.get("s1").context.taskId).toBe("new");
+  });
+});
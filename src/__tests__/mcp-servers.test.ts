@@ -0,0 +1,121 @@
+/**
+ * MCP server config — SDK mapping, load-time validation, header secrets.
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { buildMcpServers } from "../copilot/mcp-servers.js";
+import { resolveConfig, validateMcpServers } from "../config/loader.js";
+import type { McpServerConfig } from "../config/types.js";
+
+describe("buildMcpServers", () => {
+  it("applies tools, headers and timeout per server", () => {
+    expect(
+      buildMcpServers({
+        github: {
+          type: "http",
+          url: "https://api.example.com/mcp",
+          tools: ["search_issues"],
+          headers: { Authorization: "Bearer x" },
+          timeout: 5000,
+        },
+        fs: { type: "stdio", command: "npx", env: { ROOT: "/srv" } },
+        off: { type: "sse", url: "http://localhost:9000/sse", enabled: false },
+      }),
+    ).toEqual({
+      github: {
+        type: "http",
+        url: "https://api.example.com/mcp",
+        tools: ["search_issues"],
+        timeout: 5000,
+        headers: { Authorization: "Bearer x" },
+      },
+      fs: { type: "stdio", command: "npx", args: [], tools: ["*"], env: { ROOT: "/srv" } },
+    });
+    expect(buildMcpServers({})).toBeUndefined();
+  });
+
+  it("skips $-prefixed keys such as $comment", () => {
+    const mcp = { $comment: ["notes"], fs: { type: "stdio", command: "npx" } } as unknown as Record<string, McpServerConfig>;
+    expect(Object.keys(buildMcpServers(mcp)!)).toEqual(["fs"]);
+  });
+});
+
+describe("validateMcpServers", () => {
+  it("reports every problem with the server name", () => {
+    expect(() =>
+      validateMcpServers({
+        a: { type: "http", url: "ftp://x", timeout: 0 },
+        b: { type: "stdio", command: "run", headers: { X: "y" }, tools: ["", 1] },
+        c: { type: "grpc" },
+      }),
+    ).toThrow(
+      /mcp\.a\.url[\s\S]*mcp\.a\.timeout[\s\S]*mcp\.b\.headers[\s\S]*mcp\.b\.tools[\s\S]*mcp\.c\.type/,
+    );
+    expect(() => validateMcpServers({ ok: { type: "sse", url: "http://localhost/sse", tools: ["*"] } })).not.toThrow();
+  });
+
+  it("ignores $-prefixed keys and non-object entries", () => {
+    expect(() =>
+      validateMcpServers({ $comment: ["Documentation only"], $note: "also", ok: { type: "stdio", command: "npx" } }),
+    ).not.toThrow();
+  });
+});
+
+describe("bundled agent configs", () => {
+  const agentsDir = fileURLToPath(new URL("../../agents", import.meta.url));
+
+  it.each(readdirSync(agentsDir))("%s/config.json loads", (agent) => {
+    expect(() => resolveConfig(join(agentsDir, agent, "config.json"))).not.toThrow();
+  });
+});
+
+describe("MCP header references", () => {
+  const dirs: string[] = [];
+
+  afterEach(() => {
+    delete process.env.MCP_TEST_TOKEN;
+    for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Write a config whose `api` server sends `headers(secretFile)`, with `extra` server fields. */
+  const writeConfig = (headers: (secretFile: string) => Record<string, string>, extra: Record<string, unknown> = {}) => {
+    const dir = mkdtempSync(join(tmpdir(), "a2a-copilot-mcp-"));
+    dirs.push(dir);
+    const secretFile = join(dir, "secret");
+    writeFileSync(secretFile, "s3cr3t\n");
+    const path = join(dir, "config.json");
+    writeFileSync(
+      path,
+      JSON.stringify({ mcp: { api: { type: "http", url: "https://example.com/mcp", headers: headers(secretFile), ...extra } } }),
+    );
+    return path;
+  };
+
+  it("resolves env vars and secret files at load time", () => {
+    process.env.MCP_TEST_TOKEN = "tok";
+    const path = writeConfig((secretFile) => ({
+      Authorization: "Bearer ${MCP_TEST_TOKEN}",
+      "X-Key": `\${file:${secretFile}}`,
+    }));
+    const cfg = resolveConfig(path);
+    expect((cfg.mcp.api as { headers: Record<string, string> }).headers).toEqual({
+      Authorization: "Bearer tok",
+      "X-Key": "s3cr3t",
+    });
+  });
+
+  it("fails on an unset variable instead of sending the token", () => {
+    const path = writeConfig(() => ({ Authorization: "Bearer $MCP_TEST_TOKEN" }));
+    expect(() => resolveConfig(path)).toThrow(/mcp\.api\.headers\.Authorization: .*MCP_TEST_TOKEN is not set/);
+  });
+
+  it("leaves a disabled server's references unresolved", () => {
+    const path = writeConfig(() => ({ Authorization: "Bearer $MCP_TEST_TOKEN" }), { enabled: false });
+    const cfg = resolveConfig(path);
+    expect((cfg.mcp.api as { headers: Record<string, string> }).headers).toEqual({ Authorization: "Bearer $MCP_TEST_TOKEN" });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Metrics — registry text format and instrumented modules.
+ */
+import { describe, it, expect } from "vitest";
+import type { ExecutionEventBus } from "@a2a-js/sdk/server";
+
+import { MetricsRegistry, metrics } from "../utils/metrics.js";
+import { McpEvidenceHooks } from "../copilot/mcp-hooks.js";
+import { observeFinalState, publishStatus } from "../copilot/event-publisher.js";
+
+type Hook = (input: unknown, invocation: unknown) => Promise<unknown>;
+
+describe("MetricsRegistry", () => {
+  it("renders counters, gauges and histograms in Prometheus text format", () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter("requests_total", "Requests");
+    requests.inc({ route: "/a", status: 200 });
+    requests.inc({ route: "/a", status: 200 });
+    requests.inc({ route: 'say "hi"', status: 500 });
+    registry.gauge("open", "Open things").collect(() => 3);
+    const latency = registry.histogram("latency_seconds", "Latency", [0.5, 1]);
+    latency.observe(0.2);
+    latency.observe(0.7);
+
+    expect(registry.counter("requests_total", "again")).toBe(requests);
+    expect(registry.render()).toBe(
+      [
+        "# HELP requests_total Requests",
+        "# TYPE requests_total counter",
+        'requests_total{route="/a",status="200"} 2',
+        'requests_total{route="say \\"hi\\"",status="500"} 1',
+        "# HELP open Open things",
+        "# TYPE open gauge",
+        "open 3",
+        "# HELP latency_seconds Latency",
+        "# TYPE latency_seconds histogram",
+        'latency_seconds_bucket{le="0.5"} 1',
+        'latency_seconds_bucket{le="1"} 2',
+        'latency_seconds_bucket{le="+Inf"} 2',
+        "latency_seconds_sum 0.8999999999999999",
+        "latency_seconds_count 2",
+      ].join("\n") + "\n",
+    );
+  });
+});
+
+describe("instrumentation", () => {
+  it("counts tool calls by tool and outcome", async () => {
+    const calls = metrics.counter("a2a_copilot_tool_calls_total", "");
+    const before = calls.get({ tool: "search", outcome: "error" });
+    const { onPreToolUse, onPostToolUse } = new McpEvidenceHooks().getHooks() as Record<string, Hook>;
+
+    await onPreToolUse({ toolName: "search", toolArgs: { q: "x" } }, { sessionId: "s1" });
+    await onPostToolUse({ toolName: "search", toolArgs: { q: "x" }, toolResult: { error: "boom" } }, { sessionId: "s1" });
+
+    expect(calls.get({ tool: "search", outcome: "error" })).toBe(before + 1);
+  });
+
+  it("observes only final status updates", () => {
+    const states: string[] = [];
+    const published: unknown[] = [];
+    const bus = observeFinalState(
+      { publish: (e: unknown) => published.push(e) } as unknown as ExecutionEventBus,
+      (state) => states.push(state),
+    );
+
+    publishStatus(bus, "t1", "c1", "working", "busy");
+    publishStatus(bus, "t1", "c1", "completed", undefined, true);
+
+    expect(states).toEqual(["completed"]);
+    expect(published).toHaveLength(2);
+  });
+});
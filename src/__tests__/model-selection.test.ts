@@ -0,0 +1,74 @@
+/**
+ * Model selection — metadata overrides, allow-list, per-model sessions.
+ */
+import { describe, it, expect } from "vitest";
+import type { Message, Task } from "@a2a-js/sdk";
+import type { CopilotClient } from "@github/copilot-sdk";
+
+import { ModelSelectionError, resolveModelSelection, sessionKey } from "../copilot/model-selection.js";
+import { SessionManager } from "../copilot/session-manager.js";
+import { DEFAULTS } from "../config/defaults.js";
+import type { AgentConfig } from "../config/types.js";
+
+function message(metadata?: Record<string, unknown>): Message {
+  return { kind: "message", messageId: "m1", role: "user", parts: [{ kind: "text", text: "hi" }], metadata };
+}
+
+const copilot = { model: "claude-sonnet-4.5", allowedModels: ["gpt-4.1*", "claude-sonnet-4.5"] };
+
+describe("resolveModelSelection", () => {
+  it("reads overrides from the message, then the task", () => {
+    const task = { metadata: { model: "gpt-4.1-mini", reasoning_effort: "high" } } as unknown as Task;
+    expect(resolveModelSelection(message({ model: "gpt-4.1" }), task, copilot)).toEqual({
+      model: "gpt-4.1",
+      reasoningEffort: "high",
+    });
+    expect(resolveModelSelection(message(), task, copilot)).toEqual({ model: "gpt-4.1-mini", reasoningEffort: "high" });
+  });
+
+  it("drops overrides equal to the defaults", () => {
+    expect(resolveModelSelection(message({ model: "claude-sonnet-4.5" }), undefined, copilot)).toEqual({});
+    expect(resolveModelSelection(message({ model: "o3" }), undefined, { model: "o3" })).toEqual({});
+  });
+
+  it("rejects models outside the allow-list and unknown efforts", () => {
+    expect(() => resolveModelSelection(message({ model: "o3" }), undefined, copilot)).toThrow(/not allowed/);
+    expect(() => resolveModelSelection(message({ model: "gpt-4.1" }), undefined, { model: "x" })).toThrow(
+      /does not accept model overrides/,
+    );
+    expect(() => resolveModelSelection(message({ reasoningEffort: "max" }), undefined, copilot)).toThrow(
+      ModelSelectionError,
+    );
+  });
+});
+
+describe("SessionManager with model overrides", () => {
+  it("keeps one session per context and model", async () => {
+    const created: Record<string, unknown>[] = [];
+    const client = {
+      createSession: async (opts: Record<string, unknown>) => {
+        created.push(opts);
+        return { sessionId: `s${created.length}`, destroy: async () => {} };
+      },
+    } as unknown as CopilotClient;
+    const manager = new SessionManager(client, DEFAULTS as Required<AgentConfig>);
+
+    const base = await manager.getOrCreate("ctx");
+    const fast = await manager.getOrCreate("ctx", { model: "gpt-4.1", reasoningEffort: "low" });
+    expect(fast.sessionId).not.toBe(base.sessionId);
+    expect((await manager.getOrCreate("ctx")).sessionId).toBe(base.sessionId);
+    expect((await manager.getOrCreate("ctx", { model: "gpt-4.1", reasoningEffort: "low" })).sessionId).toBe(
+      fast.sessionId,
+    );
+
+    expect(created.map((o) => [o.model, o.reasoningEffort])).toEqual([
+      ["claude-sonnet-4.5", undefined],
+      ["gpt-4.1", "low"],
+    ]);
+    expect(sessionKey("ctx")).toBe("ctx");
+
+    await manager.destroySession("ctx", { model: "gpt-4.1", reasoningEffort: "low" });
+    expect(manager.getSessionForContext("ctx", { model: "gpt-4.1", reasoningEffort: "low" })).toBeUndefined();
+    expect(manager.getSessionForContext("ctx")).toBeDefined();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Push notification webhook delivery — retries, auth headers, URL validation.
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Task } from "@a2a-js/sdk";
+
+import {
+  validateWebhookUrl,
+  WebhookConfigStore,
+  WebhookPushNotificationSender,
+} from "../server/push-notifications.js";
+
+const task: Task = {
+  kind: "task",
+  id: "t1",
+  contextId: "c1",
+  status: { state: "completed", timestamp: new Date().toISOString() },
+};
+
+/** Start a webhook receiver that answers with the given status codes in turn. */
+async function startReceiver(statuses: number[]) {
+  const received: IncomingHttpHeaders[] = [];
+  const server: Server = createServer((req, res) => {
+    received.push(req.headers);
+    req.resume();
+    res.statusCode = statuses[Math.min(received.length - 1, statuses.length - 1)];
+    res.end();
+  });
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  return { server, url, received };
+}
+
+describe("WebhookPushNotificationSender", () => {
+  const servers: Server[] = [];
+  afterEach(() => {
+    for (const s of servers.splice(0)) s.close();
+  });
+
+  it("retries transient failures and sends token and auth headers", async () => {
+    const { server, url, received } = await startReceiver([503, 500, 200]);
+    servers.push(server);
+    const sender = new WebhookPushNotificationSender(new WebhookConfigStore(), {
+      initialBackoff: 1,
+      maxBackoff: 5,
+    });
+
+    const result = await sender.deliver(task, {
+      url,
+      token: "tok",
+      authentication: { schemes: ["Bearer"], credentials: "secret" },
+    });
+
+    expect(result).toMatchObject({ ok: true, attempts: 3, status: 200 });
+    expect(received[2]["x-a2a-notification-token"]).toBe("tok");
+    expect(received[2]["authorization"]).toBe("Bearer secret");
+  });
+
+  it("does not retry client errors", async () => {
+    const { server, url, received } = await startReceiver([404]);
+    servers.push(server);
+    const sender = new WebhookPushNotificationSender(new WebhookConfigStore(), { initialBackoff: 1 });
+
+    const result = await sender.deliver(task, { url });
+    expect(result).toMatchObject({ ok: false, attempts: 1, status: 404 });
+    expect(received).toHaveLength(1);
+  });
+
+  it("follows redirects only to allowed hosts", async () => {
+    const target = await startReceiver([200]);
+    const redirector = createServer((req, res) => {
+      req.resume();
+      res.writeHead(307, { location: req.url === "/allowed" ? target.url : target.url.replace("127.0.0.1", "localhost") });
+      res.end();
+    });
+    await new Promise<void>((r) => redirector.listen(0, "127.0.0.1", r));
+    servers.push(target.server, redirector);
+    const base = `http://127.0.0.1:${(redirector.address() as AddressInfo).port}`;
+    const sender = new WebhookPushNotificationSender(new WebhookConfigStore(), {
+      initialBackoff: 1,
+      allowedHosts: ["127.0.0.1"],
+    });
+
+    const refused = await sender.deliver(task, { url: `${base}/elsewhere`, token: "tok" });
+    expect(refused).toMatchObject({ ok: false, attempts: 1 });
+    expect(refused.error).toMatch(/host is not allowed: localhost/);
+    expect(target.received).toHaveLength(0);
+
+    const followed = await sender.deliver(task, { url: `${base}/allowed`, token: "tok" });
+    expect(followed).toMatchObject({ ok: true, status: 200 });
+    expect(target.received[0]["x-a2a-notification-token"]).toBe("tok");
+  });
+
+  it("delivers to every config registered for the task", async () => {
+    const a = await startReceiver([200]);
+    const b = await startReceiver([200]);
+    servers.push(a.server, b.server);
+    const store = new WebhookConfigStore();
+    await store.save("t1", { id: "a", url: a.url });
+    await store.save("t1", { id: "b", url: b.url });
+
+    await new WebhookPushNotificationSender(store).send(task);
+    expect(a.received).toHaveLength(1);
+    expect(b.received).toHaveLength(1);
+  });
+});
+
+describe("validateWebhookUrl", () => {
+  it("rejects non-http schemes", () => {
+    expect(() => validateWebhookUrl("file:///etc/passwd")).toThrow(/http or https/);
+  });
+
+  it("enforces the host allowlist", () => {
+    expect(() => validateWebhookUrl("https://hooks.example.com/x", [".example.com"])).not.toThrow();
+    expect(() => validateWebhookUrl("https://evil.test/x", [".example.com"])).toThrow(/not allowed/);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Quotas — rate, concurrency and daily token limits; A2A error mapping.
+ */
+import { describe, it, expect, afterEach, vi } from "vitest";
+import type { AgentCard, MessageSendParams } from "@a2a-js/sdk";
+import { A2AError, InMemoryTaskStore, ServerCallContext, type AgentExecutor } from "@a2a-js/sdk/server";
+
+import { DuplicateMessageError, QuotaExceededError, QuotaManager } from "../copilot/quotas.js";
+import { AuthenticatedUser } from "../server/auth.js";
+import { QUOTA_EXCEEDED_CODE, QuotaRequestHandler } from "../server/quota-handler.js";
+
+describe("QuotaManager", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("limits requests per minute per caller, with overrides", () => {
+    const quotas = new QuotaManager({ perCaller: { requestsPerMinute: 2 }, callers: { batch: { requestsPerMinute: 3 } } });
+    quotas.admit("m1", "team-a");
+    quotas.admit("m2", "team-a");
+    expect(() => quotas.admit("m3", "team-a")).toThrow(/2 requests per minute/);
+    quotas.admit("m4", "team-b");
+
+    for (const id of ["b1", "b2", "b3"]) quotas.admit(id, "batch");
+    expect(() => quotas.admit("b4", "batch")).toThrow(QuotaExceededError);
+  });
+
+  it("holds a concurrency slot until the task's lease is released", () => {
+    const quotas = new QuotaManager({ perContext: { concurrentTasks: 1 } });
+    quotas.admit("m1", null, "ctx");
+    const lease = quotas.claim("m1", "t1");
+    expect(() => quotas.admit("m2", null, "ctx")).toThrow(/already has 1 task/);
+
+    // A reply to the running task shares its slot
+    quotas.admit("m3", null, "ctx", "t1");
+    quotas.claim("m3", "t1").release();
+
+    lease.release();
+    quotas.admit("m4", null, "ctx");
+    quotas.abandon("m4");
+    quotas.admit("m5", null, "ctx");
+  });
+
+  it("refuses a messageId that is still in flight", () => {
+    const quotas = new QuotaManager({ perContext: { concurrentTasks: 2 } });
+    quotas.admit("m1", null, "ctx");
+    expect(() => quotas.admit("m1", null, "ctx")).toThrow(DuplicateMessageError);
+    quotas.claim("m1", "t1").release();
+    quotas.abandon("m1");
+
+    // Settled — the slot is free again and the id is accepted
+    quotas.admit("m1", null, "ctx");
+    quotas.admit("m2", null, "ctx");
+    expect(() => quotas.admit("m3", null, "ctx")).toThrow(/already has 2 task/);
+  });
+
+  it("forgets request times of idle contexts", () => {
+    vi.useFakeTimers();
+    const quotas = new QuotaManager({ perContext: { requestsPerMinute: 5 } });
+    const recent = (quotas as any).recent as Map<string, number[]>;
+    for (let i = 0; i < 100; i++) quotas.admit(`m${i}`, null, `ctx-${i}`);
+    expect(recent.size).toBe(100);
+
+    vi.advanceTimersByTime(61_000);
+    quotas.admit("next", null, "ctx-new");
+    expect([...recent.keys()]).toEqual(["context:ctx-new"]);
+  });
+
+  it("refuses callers over their daily tokens", () => {
+    const quotas = new QuotaManager({ perCaller: { tokensPerDay: 1000 } });
+    quotas.recordTokens("team-a", "ctx", 600);
+    quotas.admit("m1", "team-a");
+    quotas.recordTokens("team-a", "ctx", 600);
+
+    try {
+      quotas.admit("m2", "team-a");
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(QuotaExceededError);
+      expect((e as QuotaExceededError).limit).toBe("tokensPerDay");
+      expect((e as QuotaExceededError).retryAfterMs).toBeGreaterThan(0);
+    }
+    quotas.admit("m3", "team-b");
+  });
+});
+
+describe("QuotaRequestHandler", () => {
+  it("refuses messages over quota with a JSON-RPC error", async () => {
+    const executor: AgentExecutor = {
+      execute: async (ctx, bus) => {
+        bus.publish({ kind: "message", messageId: "r", role: "agent", parts: [], contextId: ctx.contextId });
+        bus.finished();
+      },
+      cancelTask: async () => {},
+    };
+    const handler = new QuotaRequestHandler(
+      { name: "test", capabilities: {} } as AgentCard,
+      new InMemoryTaskStore(),
+      executor,
+    ).useQuotas(new QuotaManager({ perCaller: { requestsPerMinute: 1 } }));
+    const context = new ServerCallContext(undefined, new AuthenticatedUser("team-a", "apiKey"));
+    const params = (messageId: string): MessageSendParams => ({
+      message: { kind: "message", messageId, role: "user", parts: [{ kind: "text", text: "hi" }] },
+    });
+
+    await handler.sendMessage(params("m1"), context);
+    const error = await handler.sendMessage(params("m2"), context).catch((e) => e);
+    expect(error).toBeInstanceOf(A2AError);
+    expect(error.code).toBe(QUOTA_EXCEEDED_CODE);
+    expect(error.data).toMatchObject({ scope: "caller", limit: "requestsPerMinute" });
+  });
+
+  it("refuses a copy of a message that is still being handled", async () => {
+    let finish = () => {};
+    const finished = new Promise<void>((resolve) => (finish = resolve));
+    const executor: AgentExecutor = {
+      execute: async (ctx, bus) => {
+        await finished;
+        bus.publish({ kind: "message", messageId: "r", role: "agent", parts: [], contextId: ctx.contextId });
+        bus.finished();
+      },
+      cancelTask: async () => {},
+    };
+    const handler = new QuotaRequestHandler(
+      { name: "test", capabilities: {} } as AgentCard,
+      new InMemoryTaskStore(),
+      executor,
+    ).useQuotas(new QuotaManager({ perCaller: { concurrentTasks: 5 } }));
+    const params: MessageSendParams = {
+      message: { kind: "message", messageId: "m1", role: "user", parts: [{ kind: "text", text: "hi" }] },
+    };
+
+    const first = handler.sendMessage(params);
+    const error = await handler.sendMessage(params).catch((e) => e);
+    expect(error).toBeInstanceOf(A2AError);
+    expect(error.code).toBe(-32600);
+    finish();
+    await first;
+    // Settled — the same id is accepted again
+    await expect(handler.sendMessage(params)).resolves.toMatchObject({ kind: "message" });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Rehydrate — compact transcripts of a context's earlier tasks.
+ */
+import { describe, it, expect } from "vitest";
+import type { Message, Task } from "@a2a-js/sdk";
+
+import { buildTranscript, rehydrateBudget, transcriptEntries } from "../copilot/rehydrate.js";
+
+function message(role: "user" | "agent", parts: Message["parts"]): Message {
+  return { kind: "message", messageId: `${role}-${Math.random()}`, role, parts };
+}
+
+function task(id: string, history: Message[], response?: string[]): Task {
+  return {
+    kind: "task",
+    id,
+    contextId: "ctx",
+    status: { state: "completed", timestamp: new Date().toISOString() },
+    history,
+    artifacts: [
+      { artifactId: `trace-${id}`, name: "trace.usage", parts: [{ kind: "data", data: { turns: 1 } }] },
+      ...(response ? [{ artifactId: `response-${id}`, name: "response", parts: response.map((text) => ({ kind: "text" as const, text })) }] : []),
+    ],
+  };
+}
+
+describe("transcriptEntries", () => {
+  it("keeps caller messages, input requests and responses", () => {
+    const entries = transcriptEntries([
+      task(
+        "t1",
+        [
+          message("user", [{ kind: "text", text: "Deploy the app" }]),
+          message("agent", [{ kind: "text", text: "Processing request..." }]),
+          message("agent", [{ kind: "text", text: "Which region?" }, { kind: "data", data: { type: "question" } }]),
+          message("user", [{ kind: "text", text: "eu-west-1" }]),
+        ],
+        // Streamed: chunks, then the full text
+        ["Deployed ", "to eu-west-1", "Deployed to eu-west-1"],
+      ),
+      task("t2", [message("user", [{ kind: "text", text: "Status?" }])]),
+    ]);
+
+    expect(entries).toEqual([
+      { role: "user", text: "Deploy the app" },
+      { role: "agent", text: "Which region?" },
+      { role: "user", text: "eu-west-1" },
+      { role: "agent", text: "Deployed to eu-west-1" },
+      { role: "user", text: "Status?" },
+    ]);
+  });
+});
+
+describe("buildTranscript", () => {
+  it("keeps the newest messages within the budget and cuts long ones", () => {
+    const entries = [
+      { role: "user" as const, text: "first question" },
+      { role: "agent" as const, text: "first answer" },
+      { role: "user" as const, text: "second\n\n   question" },
+      { role: "agent" as const, text: "x".repeat(500) },
+    ];
+    const transcript = buildTranscript(entries, { maxChars: 170, maxMessageChars: 100 })!;
+
+    expect(transcript).toMatchObject({ messages: 3, omitted: 1 });
+    expect(transcript.text).toContain("[1 earlier message(s) omitted]");
+    expect(transcript.text).not.toContain("first question");
+    expect(transcript.text).toContain(
+      `Assistant: first answer\nUser: second question\nAssistant: ${"x".repeat(99)}…\n</earlier-conversation>`,
+    );
+
+    expect(buildTranscript([], {})).toBeNull();
+    expect(buildTranscript(entries, { maxChars: 10 })).toBeNull();
+  });
+
+  it("uses the smaller of the character and token budgets", () => {
+    expect(rehydrateBudget({})).toBe(8_000);
+    expect(rehydrateBudget({ maxChars: 8_000, maxTokens: 500 })).toBe(2_000);
+    expect(rehydrateBudget({ maxChars: 1_000, maxTokens: 500 })).toBe(1_000);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Retry policy — failure classification, backoff, model fallback chain.
+ */
+import { describe, it, expect } from "vitest";
+
+import { RetryPolicy, classifyFailure } from "../copilot/retry-policy.js";
+
+describe("classifyFailure", () => {
+  it("separates transient, model and fatal errors", () => {
+    expect(classifyFailure(new Error("429 Too Many Requests"))).toBe("transient");
+    expect(classifyFailure(new Error("Rate limit exceeded, try again later"))).toBe("transient");
+    expect(classifyFailure(Object.assign(new Error("upstream"), { status: 503 }))).toBe("transient");
+    expect(classifyFailure(Object.assign(new Error("read"), { code: "ECONNRESET" }))).toBe("transient");
+    expect(classifyFailure(new Error('Model "gpt-9" is not available'))).toBe("model");
+    expect(classifyFailure(new Error("unsupported model: o9"))).toBe("model");
+    expect(classifyFailure(new Error("Invalid prompt"))).toBe("fatal");
+    expect(classifyFailure(new Error("HTTP 400 Bad Request"))).toBe("fatal");
+  });
+
+  it("reads the status only from the error or an explicit HTTP status", () => {
+    expect(classifyFailure(new Error("HTTP 502"))).toBe("transient");
+    expect(classifyFailure(new Error("request failed with status code 500"))).toBe("transient");
+    expect(classifyFailure(new Error("Syntax error at line 500"))).toBe("fatal");
+    expect(classifyFailure(new Error("Tool returned 404 results"))).toBe("fatal");
+  });
+
+  it("does not retry an exhausted quota, but moves to the next model", () => {
+    expect(classifyFailure(new Error("You have exceeded your monthly quota"))).toBe("model");
+    expect(classifyFailure(Object.assign(new Error("insufficient_quota"), { status: 429 }))).toBe("model");
+    expect(classifyFailure(new Error("Premium requests limit reached for this month"))).toBe("model");
+    expect(new RetryPolicy({}, []).decide("model", 1, false)).toEqual({ action: "fail" });
+  });
+});
+
+describe("RetryPolicy", () => {
+  it("retries transient failures with capped, jittered backoff", () => {
+    const policy = new RetryPolicy({ maxAttempts: 4, initialBackoff: 1000, maxBackoff: 3000 });
+    const delays = [1, 2, 3].map((n) => {
+      const d = policy.decide("transient", n, false);
+      return d.action === "retry" ? d.delayMs : -1;
+    });
+    expect(delays[0]).toBeGreaterThanOrEqual(500);
+    expect(delays[0]).toBeLessThanOrEqual(1000);
+    expect(delays[1]).toBeGreaterThanOrEqual(1000);
+    expect(delays[1]).toBeLessThanOrEqual(2000);
+    expect(delays[2]).toBeGreaterThanOrEqual(1500);
+    expect(delays[2]).toBeLessThanOrEqual(3000);
+    expect(policy.decide("transient", 4, false)).toEqual({ action: "fail" });
+    expect(policy.decide("fatal", 1, true)).toEqual({ action: "fail" });
+  });
+
+  it("falls back once a model is unavailable or out of attempts", () => {
+    const policy = new RetryPolicy({ maxAttempts: 2 }, ["gpt-4.1"]);
+    expect(policy.decide("model", 1, true)).toEqual({ action: "fallback" });
+    expect(policy.decide("transient", 2, true)).toEqual({ action: "fallback" });
+    expect(policy.decide("model", 1, false)).toEqual({ action: "fail" });
+  });
+
+  it("builds the model chain without repeats", () => {
+    const policy = new RetryPolicy({}, ["gpt-4.1", "claude-sonnet-4.5", "gpt-4.1", "o4-mini"]);
+    expect(policy.modelChain({ model: "gpt-4.1", reasoningEffort: "low" }, "claude-sonnet-4.5")).toEqual([
+      { model: "gpt-4.1", reasoningEffort: "low" },
+      { model: undefined, reasoningEffort: "low" },
+      { model: "o4-mini", reasoningEffort: "low" },
+    ]);
+    expect(policy.modelChain({}, "o4-mini")).toEqual([{}, { model: "gpt-4.1" }, { model: "claude-sonnet-4.5" }]);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Session admin — listing, transcripts, destroying and flushing sessions.
+ */
+import { describe, it, expect } from "vitest";
+import { SessionManager } from "../copilot/session-manager.js";
+import { FakeCopilotClient, testConfig } from "./fakes.js";
+
+const EVENTS = [
+  { type: "session.start", timestamp: "t0", data: {} },
+  { type: "user.message", timestamp: "t1", data: { content: "List open PRs" } },
+  { type: "assistant.message", timestamp: "t2", data: { content: "", toolRequests: [{ toolCallId: "c1", name: "github" }] } },
+  { type: "tool.execution_start", timestamp: "t3", data: { toolCallId: "c1", toolName: "github" } },
+  { type: "assistant.message", timestamp: "t4", data: { content: "There are 2 open PRs." } },
+];
+
+function fakeClient() {
+  const fake = new FakeCopilotClient();
+  fake.events = EVENTS;
+  return fake;
+}
+
+function config() {
+  return testConfig({ copilot: { model: "gpt-4.1" } });
+}
+
+describe("SessionManager admin", () => {
+  it("lists open sessions with their model and running tasks", async () => {
+    const { client } = fakeClient();
+    const manager = new SessionManager(client, config());
+    await manager.getOrCreate("ctx-a");
+    await manager.getOrCreate("ctx-b", { model: "claude-sonnet-4" });
+    manager.trackTask("t1", "s2");
+
+    const sessions = manager.list();
+    expect(sessions.map((s) => [s.contextId, s.sessionId, s.model, s.taskIds])).toEqual([
+      ["ctx-a", "s1", "gpt-4.1", []],
+      ["ctx-b", "s2", "claude-sonnet-4", ["t1"]],
+    ]);
+    expect(Date.parse(sessions[0].createdAt)).not.toBeNaN();
+    expect(sessions[0].ageMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("reads a session's transcript", async () => {
+    const manager = new SessionManager(fakeClient().client, config());
+    await manager.getOrCreate("ctx");
+
+    expect(await manager.transcript("s1")).toEqual([
+      { timestamp: "t1", role: "user", content: "List open PRs" },
+      { timestamp: "t2", role: "assistant", content: "", tools: ["github"] },
+      { timestamp: "t4", role: "assistant", content: "There are 2 open PRs." },
+    ]);
+    expect(await manager.transcript("s1", true)).toHaveLength(EVENTS.length);
+    expect(await manager.transcript("missing")).toBeNull();
+  });
+
+  it("destroys one session by id, or all of them", async () => {
+    const { client, destroyed } = fakeClient();
+    const manager = new SessionManager(client, config());
+    let closed = 0;
+    manager.onClose(() => closed++);
+    await manager.getOrCreate("ctx-a");
+    await manager.getOrCreate("ctx-b");
+    await manager.getOrCreate("ctx-c");
+
+    expect(await manager.destroyById("s2")).toBe(true);
+    expect(await manager.destroyById("s2")).toBe(false);
+    expect(manager.list().map((s) => s.sessionId)).toEqual(["s1", "s3"]);
+
+    expect(await manager.flush()).toBe(2);
+    expect(manager.list()).toEqual([]);
+    expect(destroyed).toEqual(["s2", "s1", "s3"]);
+    expect(closed).toBe(3);
+    expect((await manager.getOrCreate("ctx-a")).sessionId).toBe("s4");
+  });
+});
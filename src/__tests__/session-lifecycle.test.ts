@@ -0,0 +1,98 @@
+/**
+ * Session lifecycle — idle / lifetime expiry and LRU eviction.
+ */
+import { describe, it, expect, afterEach, vi } from "vitest";
+
+import type { SessionConfig } from "../config/types.js";
+import { SessionManager } from "../copilot/session-manager.js";
+import { FakeCopilotClient, testConfig } from "./fakes.js";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function config(session: SessionConfig) {
+  return testConfig({ session });
+}
+
+describe("SessionManager lifetime", () => {
+  it("expires sessions that sit idle or outlive maxLifetime", async () => {
+    vi.useFakeTimers();
+    const { client } = new FakeCopilotClient();
+    const manager = new SessionManager(client, config({ idleTtl: 60_000, maxLifetime: 300_000 }));
+
+    await manager.getOrCreate("ctx");
+    // Active sessions are kept past idleTtl as long as each gap is shorter
+    for (let i = 0; i < 4; i++) {
+      vi.advanceTimersByTime(50_000);
+      expect(await manager.getOrCreate("ctx")).toMatchObject({ sessionId: "s1", isNew: false });
+    }
+    vi.advanceTimersByTime(100_000);
+    expect(await manager.getOrCreate("ctx")).toMatchObject({ sessionId: "s2", isNew: true });
+
+    // ...but not past maxLifetime
+    for (let i = 0; i < 6; i++) {
+      vi.advanceTimersByTime(50_000);
+      await manager.getOrCreate("ctx");
+    }
+    expect(manager.list()[0].sessionId).toBe("s3");
+  });
+
+  it("reads the deprecated ttl as idleTtl", async () => {
+    vi.useFakeTimers();
+    const manager = new SessionManager(new FakeCopilotClient().client, config({ idleTtl: undefined, ttl: 10_000 }));
+    await manager.getOrCreate("ctx");
+    vi.advanceTimersByTime(10_000);
+    expect((await manager.getOrCreate("ctx")).isNew).toBe(true);
+  });
+
+  it("sweeps idle sessions but keeps those with a running task", async () => {
+    vi.useFakeTimers();
+    const { client, destroyed } = new FakeCopilotClient();
+    const manager = new SessionManager(client, config({ idleTtl: 60_000, cleanupInterval: 30_000 }));
+    let closed = 0;
+    manager.onClose(() => closed++);
+    await manager.getOrCreate("idle");
+    await manager.getOrCreate("busy");
+    manager.trackTask("t1", "s2");
+    manager.startCleanup();
+
+    vi.advanceTimersByTime(90_000);
+    expect(manager.list().map((s) => s.contextId)).toEqual(["busy"]);
+    expect(destroyed).toEqual(["s1"]);
+    expect(closed).toBe(1);
+
+    // Idle time counts from the end of the task, not from when it started
+    manager.untrackTask("t1");
+    vi.advanceTimersByTime(30_000);
+    expect(manager.list().map((s) => s.contextId)).toEqual(["busy"]);
+    vi.advanceTimersByTime(30_000);
+    expect(manager.list()).toEqual([]);
+    await manager.shutdown();
+  });
+});
+
+describe("SessionManager eviction", () => {
+  it("evicts the least recently used session no task is using", async () => {
+    vi.useFakeTimers();
+    const { client, destroyed } = new FakeCopilotClient();
+    const manager = new SessionManager(client, config({}));
+    for (const contextId of ["a", "b", "c", "d"]) {
+      await manager.getOrCreate(contextId);
+      vi.advanceTimersByTime(1_000);
+    }
+    await manager.getOrCreate("a");
+    manager.trackTask("t1", "s2");
+
+    // a was used last, b has a running task, c has a queued task
+    expect(manager.evictIdle((contextId) => contextId === "c")).toBe(true);
+    expect(manager.list().map((s) => s.contextId)).toEqual(["a", "b", "c"]);
+    expect(manager.openSessions).toBe(3);
+    await Promise.resolve();
+    expect(destroyed).toEqual(["s4"]);
+
+    expect(manager.evictIdle((contextId) => contextId === "c")).toBe(true);
+    expect(manager.evictIdle((contextId) => contextId === "c")).toBe(false);
+    expect(manager.list().map((s) => s.contextId)).toEqual(["b", "c"]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Session store — persisted context → session map and resume after restart.
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { FileSessionStore } from "../copilot/session-store.js";
+import { SessionManager } from "../copilot/session-manager.js";
+import { FakeCopilotClient, testConfig } from "./fakes.js";
+
+const dirs: string[] = [];
+
+afterEach(() => {
+  for (const d of dirs.splice(0)) rmSync(d, { recursive: true, force: true });
+});
+
+function storePath(): string {
+  const dir = mkdtempSync(join(tmpdir(), "sessions-"));
+  dirs.push(dir);
+  return join(dir, "sessions.json");
+}
+
+function fileConfig(path: string) {
+  return testConfig({ session: { store: { type: "file", path } } });
+}
+
+describe("FileSessionStore", () => {
+  it("writes changes atomically and loads them back", async () => {
+    const path = storePath();
+    const store = new FileSessionStore(path);
+    await store.init();
+    store.set("a", { contextId: "a", sessionId: "s1", createdAt: 1, lastUsed: 2 });
+    store.set("b", { contextId: "b", sessionId: "s2", createdAt: Date.now(), lastUsed: Date.now() });
+    store.delete("missing");
+    await store.flush();
+
+    const reloaded = new FileSessionStore(path);
+    await reloaded.init();
+    expect(reloaded.get("a")).toEqual({ contextId: "a", sessionId: "s1", createdAt: 1, lastUsed: 2 });
+    expect(reloaded.prune((record) => record.lastUsed < Date.now() - 1000)).toBe(1);
+    await reloaded.flush();
+    expect(Object.keys(JSON.parse(readFileSync(path, "utf-8")).sessions)).toEqual(["b"]);
+  });
+});
+
+describe("SessionManager with a file store", () => {
+  it("resumes a context's session after a restart", async () => {
+    const path = storePath();
+    const first = new FakeCopilotClient();
+    const before = new SessionManager(first.client, fileConfig(path));
+    await before.restore();
+    const created = await before.getOrCreate("ctx");
+    await before.shutdown();
+
+    const second = new FakeCopilotClient([created.sessionId]);
+    const after = new SessionManager(second.client, fileConfig(path));
+    await after.restore();
+    const resumed = await after.getOrCreate("ctx");
+
+    expect(resumed).toMatchObject({ sessionId: created.sessionId, isNew: false });
+    expect(second.calls).toEqual([`resume ${created.sessionId}`]);
+    expect((await after.getOrCreate("ctx")).sessionId).toBe(created.sessionId);
+    await after.shutdown();
+  });
+
+  it("creates a new session and reports why when resuming fails", async () => {
+    const path = storePath();
+    const before = new SessionManager(new FakeCopilotClient().client, fileConfig(path));
+    await before.restore();
+    await before.getOrCreate("ctx");
+    await before.shutdown();
+
+    const { client, calls } = new FakeCopilotClient();
+    const after = new SessionManager(client, fileConfig(path));
+    await after.restore();
+    const replacement = await after.getOrCreate("ctx");
+
+    expect(replacement).toMatchObject({ sessionId: "s1", isNew: true, resumeError: "Session not found: s1" });
+    expect(calls).toEqual(["resume s1", "create s1"]);
+    await after.shutdown();
+    expect(JSON.parse(readFileSync(path, "utf-8")).sessions.ctx.sessionId).toBe("s1");
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Structured output — schema resolution, JSON extraction, validation.
+ */
+import { describe, it, expect } from "vitest";
+import type { Message } from "@a2a-js/sdk";
+
+import {
+  OutputSchemaError,
+  extractJson,
+  parseStructuredOutput,
+  resolveOutputSchema,
+} from "../copilot/structured-output.js";
+import { validateJsonSchema } from "../utils/json-schema.js";
+
+const triageSchema = {
+  type: "object",
+  required: ["severity", "labels"],
+  additionalProperties: false,
+  properties: {
+    severity: { enum: ["low", "medium", "high"] },
+    labels: { type: "array", items: { type: "string", minLength: 1 }, maxItems: 3 },
+    owner: { $ref: "#/$defs/login" },
+  },
+  $defs: { login: { type: "string", pattern: "^[a-z0-9-]+$" } },
+};
+
+function message(metadata?: Record<string, unknown>): Message {
+  return { kind: "message", messageId: "m1", role: "user", parts: [{ kind: "text", text: "hi" }], metadata };
+}
+
+describe("validateJsonSchema", () => {
+  it("reports paths for nested problems", () => {
+    expect(validateJsonSchema({ severity: "high", labels: ["bug"], owner: "octo-cat" }, triageSchema)).toEqual([]);
+    expect(
+      validateJsonSchema({ severity: "urgent", labels: ["bug", ""], owner: "Octo Cat", extra: 1 }, triageSchema),
+    ).toEqual([
+      '$.severity: must be one of "low", "medium", "high"',
+      "$.labels[1]: must be at least 1 characters",
+      "$.owner: must match /^[a-z0-9-]+$/",
+      "$.extra: is not an allowed property",
+    ]);
+    expect(validateJsonSchema([], triageSchema)).toEqual(["$: must be object, got array"]);
+  });
+
+  it("supports combinators and integer types", () => {
+    const schema = { anyOf: [{ type: "integer", minimum: 0 }, { type: "null" }] };
+    expect(validateJsonSchema(3, schema)).toEqual([]);
+    expect(validateJsonSchema(null, schema)).toEqual([]);
+    expect(validateJsonSchema(1.5, schema)[0]).toMatch(/must match at least one/);
+  });
+
+  it("only counts own properties", () => {
+    const schema = { type: "object", required: ["toString"], properties: { a: { type: "string" } } };
+    expect(validateJsonSchema({}, schema)).toEqual(['$: missing required property "toString"']);
+    expect(validateJsonSchema({ toString: 1, constructor: 2 }, schema)).toEqual([]);
+  });
+
+  it("gives up on schemas that multiply the work", () => {
+    const $defs: Record<string, unknown> = { d30: { type: "string" } };
+    for (let i = 0; i < 30; i++) $defs[`d${i}`] = { anyOf: [{ $ref: `#/$defs/d${i + 1}` }, { $ref: `#/$defs/d${i + 1}` }] };
+    expect(validateJsonSchema(1, { $defs, $ref: "#/$defs/d0" })[0]).toMatch(/too complex/);
+  });
+});
+
+describe("extractJson", () => {
+  it("accepts bare JSON, fenced blocks and surrounding prose", () => {
+    expect(extractJson('{"a":1}')).toEqual({ ok: true, value: { a: 1 } });
+    expect(extractJson('Here you go:\n```json\n{"a":2}\n```\nDone.')).toEqual({ ok: true, value: { a: 2 } });
+    expect(extractJson('The answer is {"a":3}.')).toEqual({ ok: true, value: { a: 3 } });
+    expect(extractJson("no json here")).toMatchObject({ ok: false });
+  });
+});
+
+describe("parseStructuredOutput", () => {
+  it("returns the value only when it validates", () => {
+    expect(parseStructuredOutput('{"severity":"low","labels":[]}', triageSchema)).toEqual({
+      ok: true,
+      value: { severity: "low", labels: [] },
+    });
+    expect(parseStructuredOutput('{"severity":"low"}', triageSchema)).toEqual({
+      ok: false,
+      errors: ['$: missing required property "labels"'],
+    });
+  });
+});
+
+describe("resolveOutputSchema", () => {
+  const skills = [
+    { id: "triage", name: "Triage", description: "", outputSchema: triageSchema },
+    { id: "chat", name: "Chat", description: "" },
+  ];
+
+  it("uses the request schema, then the named skill's", () => {
+    expect(resolveOutputSchema(message({ outputSchema: { type: "object" } }), skills)).toEqual({
+      schema: { type: "object" },
+      source: "request",
+    });
+    expect(resolveOutputSchema(message({ skill_id: "triage" }), skills)?.source).toBe("skill:triage");
+    expect(resolveOutputSchema(message({ skillId: "chat" }), skills)).toBeNull();
+    expect(resolveOutputSchema(message(), skills)).toBeNull();
+  });
+
+  it("rejects unusable schemas and unknown skills", () => {
+    expect(() => resolveOutputSchema(message({ outputSchema: "json" }), skills)).toThrow(OutputSchemaError);
+    expect(() =>
+      resolveOutputSchema(message({ outputSchema: { properties: { a: { pattern: "(" } } } }), skills),
+    ).toThrow(/properties\/a\/pattern/);
+    expect(() => resolveOutputSchema(message({ skillId: "nope" }), skills)).toThrow(/Unknown skill/);
+    expect(() =>
+      resolveOutputSchema(message({ outputSchema: { type: "object" } }), skills, { allowRequestSchema: false }),
+    ).toThrow(/does not accept/);
+  });
+
+  it("rejects circular $refs but allows recursion into the value", () => {
+    const circular = { $defs: { a: { $ref: "#/$defs/a" } }, $ref: "#/$defs/a" };
+    expect(() => resolveOutputSchema(message({ outputSchema: circular }), skills)).toThrow(/"#\/\$defs\/a" is circular/);
+    const viaAllOf = { $defs: { a: { allOf: [{ $ref: "#" }] } }, $ref: "#/$defs/a" };
+    expect(() => resolveOutputSchema(message({ outputSchema: viaAllOf }), skills)).toThrow(/circular/);
+
+    const tree = { type: "object", properties: { children: { type: "array", items: { $ref: "#" } } } };
+    const { schema } = resolveOutputSchema(message({ outputSchema: tree }), skills)!;
+    expect(validateJsonSchema({ children: [{ children: [] }, { children: 1 }] }, schema)).toEqual([
+      "$.children[1].children: must be array, got integer",
+    ]);
+  });
+
+  it("accepts patterns from skills but not from requests", () => {
+    expect(resolveOutputSchema(message({ skillId: "triage" }), skills)?.schema).toBe(triageSchema);
+    expect(() => resolveOutputSchema(message({ outputSchema: triageSchema }), skills)).toThrow(
+      /\$defs\/login\/pattern: regular expressions are not accepted/,
+    );
+  });
+});
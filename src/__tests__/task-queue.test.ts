@@ -0,0 +1,92 @@
+/**
+ * Task queue — global running-task limit, priority order, session limit and eviction, timeout.
+ */
+import { describe, it, expect } from "vitest";
+
+import { TaskQueue, TaskQueueFullError, TaskQueueTimeoutError } from "../copilot/task-queue.js";
+
+describe("TaskQueue", () => {
+  it("limits running tasks and starts waiters in FIFO order", async () => {
+    const queue = new TaskQueue({ maxConcurrentTasks: 1 }, () => 0);
+    const positions: [string, number][] = [];
+    const first = queue.enter("t1");
+    const second = queue.enter("t2");
+    const third = queue.enter("t3", { onAdvance: (position) => positions.push(["t3", position]) });
+    expect([first.position, second.position, third.position]).toEqual([0, 1, 2]);
+
+    first.leave();
+    await second.ready;
+    expect(queue.running).toBe(1);
+    expect(positions).toEqual([["t3", 1]]);
+    second.leave();
+    await third.ready;
+    third.leave();
+    expect(queue.running).toBe(0);
+  });
+
+  it("orders waiters by priority when configured", async () => {
+    const queue = new TaskQueue({ maxConcurrentTasks: 1, order: "priority" }, () => 0);
+    const running = queue.enter("t1");
+    const low = queue.enter("low", { priority: 0 });
+    const high = queue.enter("high", { priority: 5 });
+    expect(high.position).toBe(1);
+
+    const order: string[] = [];
+    low.ready.then(() => order.push("low"));
+    high.ready.then(() => order.push("high"));
+    running.leave();
+    await high.ready;
+    high.leave();
+    await low.ready;
+    expect(order).toEqual(["high", "low"]);
+  });
+
+  it("lets tasks that reuse a session pass one waiting for session room", async () => {
+    let open = 1;
+    const queue = new TaskQueue({ maxSessions: 1 }, () => open);
+    const blocked = queue.enter("new-ctx", { needsSession: () => true });
+    const reuse = queue.enter("same-ctx", { needsSession: () => false });
+    expect(blocked.position).toBe(1);
+    expect(reuse.position).toBe(0);
+
+    open = 0;
+    queue.pump();
+    await blocked.ready;
+    expect(queue.queued).toBe(0);
+  });
+
+  it("evicts an idle session instead of waiting when the session table is full", async () => {
+    let open = 2;
+    let idle = 1;
+    const queue = new TaskQueue({ maxSessions: 2 }, () => open, () => {
+      if (idle === 0) return false;
+      idle--;
+      open--;
+      return true;
+    });
+
+    const first = queue.enter("t1", { needsSession: () => true });
+    expect(first.position).toBe(0);
+    expect(open).toBe(1);
+    first.sessionOpened();
+    open++;
+
+    // Every open session is in use — wait for one to close
+    const second = queue.enter("t2", { needsSession: () => true });
+    expect(second.position).toBe(1);
+    idle = 1;
+    first.leave();
+    await second.ready;
+    expect(open).toBe(1);
+  });
+
+  it("rejects past maxDepth and times out waiters", async () => {
+    const queue = new TaskQueue({ maxConcurrentTasks: 1, maxDepth: 1, timeout: 20 }, () => 0);
+    queue.enter("t1");
+    const waiter = queue.enter("t2");
+    expect(() => queue.enter("t3")).toThrow(TaskQueueFullError);
+
+    await expect(waiter.ready).rejects.toBeInstanceOf(TaskQueueTimeoutError);
+    expect(queue.queued).toBe(0);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * File-backed task store — persistence, crash recovery, pruning.
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Task, TaskState } from "@a2a-js/sdk";
+
+import { FileTaskStore, createTaskStore } from "../server/task-store.js";
+
+function makeTask(id: string, state: TaskState, ageMs = 0, contextId = "ctx-1"): Task {
+  return {
+    kind: "task",
+    id,
+    contextId,
+    status: { state, timestamp: new Date(Date.now() - ageMs).toISOString() },
+    history: [],
+  };
+}
+
+describe("FileTaskStore", () => {
+  const dirs: string[] = [];
+  const newDir = () => {
+    const dir = mkdtempSync(join(tmpdir(), "a2a-copilot-tasks-"));
+    dirs.push(dir);
+    return dir;
+  };
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("persists tasks across instances", async () => {
+    const directory = newDir();
+    const first = new FileTaskStore({ directory });
+    await first.init();
+    await first.save(makeTask("t1", "completed"));
+    await first.close();
+
+    const second = new FileTaskStore({ directory });
+    await second.init();
+    expect((await second.load("t1"))?.status.state).toBe("completed");
+    await second.close();
+  });
+
+  it("fails tasks that were in flight when the process died", async () => {
+    const directory = newDir();
+    const first = new FileTaskStore({ directory });
+    await first.init();
+    await first.save(makeTask("t1", "working"));
+    await first.save(makeTask("t2", "input-required"));
+    await first.close();
+
+    const second = new FileTaskStore({ directory });
+    await second.init();
+    for (const id of ["t1", "t2"]) {
+      const task = await second.load(id);
+      expect(task?.status.state).toBe("failed");
+      expect(JSON.stringify(task?.status.message)).toMatch(/restart/);
+    }
+    await second.close();
+  });
+
+  it("prunes finished tasks by age and count, never in-flight ones", async () => {
+    const store = new FileTaskStore({ directory: newDir(), maxAge: 60_000, maxTasks: 2 });
+    await store.init();
+    await store.save(makeTask("old", "completed", 120_000));
+    await store.save(makeTask("a", "completed", 3_000));
+    await store.save(makeTask("b", "failed", 2_000));
+    await store.save(makeTask("live", "working", 500_000));
+
+    expect(await store.prune()).toBe(2);
+    expect(await store.load("old")).toBeUndefined();
+    expect(await store.load("a")).toBeUndefined();
+    expect(await store.load("b")).toBeDefined();
+    expect(await store.load("live")).toBeDefined();
+    await store.close();
+  });
+
+  it("lists a context's tasks oldest first", async () => {
+    const store = new FileTaskStore({ directory: newDir() });
+    await store.init();
+    await store.save(makeTask("second", "completed", 1_000));
+    await store.save(makeTask("first", "completed", 5_000));
+    await store.save(makeTask("other", "completed", 3_000, "ctx-2"));
+
+    expect((await store.listByContext("ctx-1")).map((t) => t.id)).toEqual(["first", "second"]);
+    expect(await store.listByContext("missing")).toEqual([]);
+    await store.close();
+  });
+});
+
+describe("memory task store", () => {
+  it("lists a context's tasks in the order they were created", async () => {
+    const store = await createTaskStore({});
+    await store.save(makeTask("first", "working"));
+    await store.save(makeTask("other", "completed", 0, "ctx-2"));
+    await store.save(makeTask("second", "completed"));
+    await store.save(makeTask("first", "completed"));
+
+    const tasks = await store.listByContext("ctx-1");
+    expect(tasks.map((t) => [t.id, t.status.state])).toEqual([["first", "completed"], ["second", "completed"]]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tool policy — rule matching, argument conditions, denial traces.
+ */
+import { describe, it, expect } from "vitest";
+import type { ExecutionEventBus } from "@a2a-js/sdk/server";
+
+import { ToolPolicy } from "../copilot/tool-policy.js";
+import { McpEvidenceHooks } from "../copilot/mcp-hooks.js";
+
+type Hook = (input: unknown, invocation: unknown) => Promise<any>;
+
+describe("ToolPolicy", () => {
+  const policy = new ToolPolicy(
+    {
+      rules: [
+        {
+          action: "deny",
+          tools: ["write_file"],
+          args: { path: { notPrefix: "/srv/reports" } },
+          reason: "Reports may only be written under /srv/reports",
+        },
+        { action: "deny", server: "github", tools: ["delete_*"] },
+        { action: "deny", tools: ["shell"], args: { command: { pattern: "\\brm\\b" } } },
+      ],
+    },
+    ["github", "fs"],
+    "/srv",
+  );
+
+  it("denies writes outside the allowed prefix, including traversal", () => {
+    expect(policy.evaluate("fs-write_file", { path: "/srv/reports/q1.md" }).allowed).toBe(true);
+    expect(policy.evaluate("fs-write_file", { path: "reports/q1.md" }).allowed).toBe(true);
+    expect(policy.evaluate("fs-write_file", { path: "/srv/reports/../secrets" })).toEqual({
+      allowed: false,
+      rule: 0,
+      server: "fs",
+      reason: "Reports may only be written under /srv/reports",
+    });
+    expect(policy.evaluate("write_file", { path: "/srv/reports-old/x" }).allowed).toBe(false);
+    expect(policy.evaluate("write_file", {}).allowed).toBe(false);
+  });
+
+  it("scopes rules to a server and matches tool globs", () => {
+    expect(policy.evaluate("github-delete_repo", {}).allowed).toBe(false);
+    expect(policy.evaluate("fs-delete_file", {}).allowed).toBe(true);
+    expect(policy.evaluate("delete_repo", {}).allowed).toBe(true);
+  });
+
+  it("matches argument patterns and applies the default", () => {
+    expect(policy.evaluate("shell", { command: "rm -rf /" }).allowed).toBe(false);
+    expect(policy.evaluate("shell", { command: "ls" }).allowed).toBe(true);
+
+    const allowList = new ToolPolicy({ default: "deny", rules: [{ action: "allow", tools: ["read_*"] }] });
+    expect(allowList.evaluate("read_file", {}).allowed).toBe(true);
+    expect(allowList.evaluate("shell", {}).reason).toMatch(/not in the list of allowed tools/);
+  });
+
+  it("rejects malformed rules", () => {
+    expect(() => new ToolPolicy({ rules: [{ action: "deny", args: { q: { pattern: "(" } } }] })).toThrow(
+      /rules\[0\]\.args\.q\.pattern/,
+    );
+    expect(() => new ToolPolicy({ rules: [{ action: "block" as "deny" }] })).toThrow(/action/);
+  });
+});
+
+describe("McpEvidenceHooks with a policy", () => {
+  it("returns the deny reason and publishes the denied call as an error trace", async () => {
+    const events: any[] = [];
+    const bus = { publish: (e: unknown) => events.push(e) } as unknown as ExecutionEventBus;
+    const hooks = new McpEvidenceHooks({
+      policy: new ToolPolicy({ rules: [{ action: "deny", tools: ["shell"], reason: "No shell" }] }),
+    });
+    hooks.bindSession("s1", { bus, taskId: "t1", contextId: "c1", agentId: "a", agentName: "A", traceId: "tr" });
+    const { onPreToolUse } = hooks.getHooks() as Record<string, Hook>;
+
+    const result = await onPreToolUse({ toolName: "shell", toolArgs: { command: "ls" } }, { sessionId: "s1" });
+    expect(result).toEqual({ permissionDecision: "deny", permissionDecisionReason: "No shell" });
+
+    expect(events).toHaveLength(1);
+    const data = events[0].artifact.parts[0].data;
+    expect(events[0].artifact.name).toBe("trace.mcp");
+    expect(data.response).toEqual({ result: { error: "No shell" }, is_error: true });
+    expect(data.metadata.policy).toEqual({ decision: "deny", denied_by: "policy", reason: "No shell", rule: 0 });
+  });
+});
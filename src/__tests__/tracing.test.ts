@@ -0,0 +1,154 @@
+/**
+ * Tracing — W3C trace context, sampling, OTLP encoding, turn and request spans.
+ */
+import { describe, it, expect } from "vitest";
+import express from "express";
+import type { AddressInfo } from "node:net";
+
+import { Tracer, formatTraceparent, parseTraceparent, type Span, type SpanExporter } from "../utils/tracing.js";
+import { toOtlpJson } from "../utils/trace-exporters.js";
+import { traceTurn } from "../copilot/turn-tracing.js";
+import { traceRequests } from "../server/request-tracing.js";
+import { FakeSession } from "./fakes.js";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const PARENT = `00-${TRACE_ID}-00f067aa0ba902b7-01`;
+
+/** Collects exported spans. */
+function memoryExporter() {
+  const spans: Span[] = [];
+  const exporter: SpanExporter = { export: async (batch) => void spans.push(...batch) };
+  return { spans, exporter };
+}
+
+describe("traceparent", () => {
+  it("parses and formats W3C trace context", () => {
+    const context = parseTraceparent(PARENT, "vendor=abc");
+    expect(context).toEqual({ traceId: TRACE_ID, spanId: "00f067aa0ba902b7", sampled: true, traceState: "vendor=abc" });
+    expect(formatTraceparent(context!)).toBe(PARENT);
+
+    expect(parseTraceparent(undefined)).toBeNull();
+    expect(parseTraceparent("00-abc-def-01")).toBeNull();
+    expect(parseTraceparent(`00-${"0".repeat(32)}-00f067aa0ba902b7-01`)).toBeNull();
+    expect(parseTraceparent(`ff-${TRACE_ID}-00f067aa0ba902b7-01`)).toBeNull();
+  });
+});
+
+describe("Tracer", () => {
+  it("continues the caller's trace and follows its sampling decision", async () => {
+    const { spans, exporter } = memoryExporter();
+    const tracer = new Tracer({}, exporter);
+
+    const root = tracer.startSpan("root", { parent: parseTraceparent(PARENT) });
+    const child = tracer.withSpan(root, () => tracer.startSpan("child"));
+    child.end();
+    root.end();
+    tracer.startSpan("unsampled", { parent: parseTraceparent(`00-${TRACE_ID}-00f067aa0ba902b7-00`) }).end();
+    await tracer.flush();
+
+    expect(root.context.traceId).toBe(TRACE_ID);
+    expect(root.parentSpanId).toBe("00f067aa0ba902b7");
+    expect(child.parentSpanId).toBe(root.context.spanId);
+    expect(spans.map((s) => s.name)).toEqual(["child", "root"]);
+  });
+
+  it("exports nothing when disabled but still propagates trace ids", async () => {
+    const tracer = new Tracer({ enabled: false }, null);
+    const span = tracer.startSpan("x", { parent: parseTraceparent(PARENT) });
+    span.end();
+    await tracer.flush();
+    expect(span.context).toMatchObject({ traceId: TRACE_ID, sampled: false });
+  });
+
+  it("encodes spans as OTLP JSON", () => {
+    const tracer = new Tracer({}, memoryExporter().exporter);
+    const span = tracer.startSpan("op", {
+      parent: parseTraceparent(PARENT),
+      kind: "server",
+      attributes: { name: "a", count: 2, ratio: 0.5, ok: true, skipped: undefined },
+    });
+    span.fail(new Error("boom")).end();
+
+    const body = toOtlpJson([span], { serviceName: "agent", serviceVersion: "1.0.0" }) as any;
+    const [resourceSpans] = body.resourceSpans;
+    expect(resourceSpans.resource.attributes).toContainEqual({ key: "service.name", value: { stringValue: "agent" } });
+    const encoded = resourceSpans.scopeSpans[0].spans[0];
+    expect(encoded).toMatchObject({
+      traceId: TRACE_ID,
+      parentSpanId: "00f067aa0ba902b7",
+      name: "op",
+      kind: 2,
+      status: { code: 2, message: "boom" },
+    });
+    expect(encoded.attributes).toEqual([
+      { key: "name", value: { stringValue: "a" } },
+      { key: "count", value: { intValue: "2" } },
+      { key: "ratio", value: { doubleValue: 0.5 } },
+      { key: "ok", value: { boolValue: true } },
+    ]);
+    expect(encoded.events[0].name).toBe("exception");
+    expect(BigInt(encoded.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(encoded.startTimeUnixNano));
+  });
+});
+
+describe("traceTurn", () => {
+  it("nests tool calls under the subagent that made them", async () => {
+    const { spans, exporter } = memoryExporter();
+    const tracer = new Tracer({}, exporter);
+    const session = new FakeSession("s1");
+    const task = tracer.startSpan("a2a.execute");
+    const trace = traceTurn(tracer, session, task, { "gen_ai.request.model": "gpt-4.1" });
+
+    session.emit("tool.execution_start", { toolCallId: "t1", toolName: "task" });
+    session.emit("subagent.started", { toolCallId: "t1", agentName: "researcher" });
+    session.emit("tool.execution_start", { toolCallId: "t2", toolName: "grep", parentToolCallId: "t1" });
+    session.emit("tool.execution_complete", { toolCallId: "t2", success: false, error: { message: "no match" } });
+    session.emit("subagent.completed", { toolCallId: "t1", agentName: "researcher" });
+    session.emit("tool.execution_start", { toolCallId: "t3", toolName: "view" });
+    trace.end();
+    session.emit("tool.execution_complete", { toolCallId: "t3", success: true });
+    await tracer.flush();
+
+    const byName = Object.fromEntries(spans.map((s) => [s.name, s]));
+    expect(byName["copilot.turn"].parentSpanId).toBe(task.context.spanId);
+    expect(byName["execute_tool task"].parentSpanId).toBe(byName["copilot.turn"].context.spanId);
+    expect(byName["invoke_agent researcher"].parentSpanId).toBe(byName["execute_tool task"].context.spanId);
+    expect(byName["execute_tool grep"].parentSpanId).toBe(byName["invoke_agent researcher"].context.spanId);
+    expect(byName["execute_tool grep"].status).toEqual({ code: "error", message: "no match" });
+    expect(byName["execute_tool view"].attributes["copilot.interrupted"]).toBe(true);
+  });
+});
+
+describe("traceRequests", () => {
+  it("keeps the request span active past the body parser", async () => {
+    const { spans, exporter } = memoryExporter();
+    const tracer = new Tracer({}, exporter);
+    let active: Span | undefined;
+    const app = express();
+    app.use("/a2a/jsonrpc", traceRequests(tracer), express.json(), (_req, res) => {
+      active = tracer.active();
+      res.json({ ok: true });
+    });
+    const server = app.listen(0, "127.0.0.1");
+    await new Promise((r) => server.once("listening", r));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const res = await fetch(`http://127.0.0.1:${port}/a2a/jsonrpc`, {
+        method: "POST",
+        headers: { "content-type": "application/json", traceparent: PARENT },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "message/send" }),
+      });
+      expect(res.status).toBe(200);
+    } finally {
+      server.close();
+    }
+    await new Promise((r) => setTimeout(r, 10));
+    await tracer.flush();
+
+    expect(active?.context.traceId).toBe(TRACE_ID);
+    expect(spans).toHaveLength(1);
+    expect(spans[0].name).toBe("POST /a2a/jsonrpc");
+    expect(spans[0].attributes["http.response.status_code"]).toBe(200);
+  });
+});
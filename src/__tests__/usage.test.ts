@@ -0,0 +1,75 @@
+/**
+ * Usage accounting — per-turn collection and ledger totals.
+ */
+import { describe, it, expect } from "vitest";
+
+import { UsageLedger, trackTurnUsage, usageTraceData, type TurnUsage } from "../copilot/usage.js";
+import { FakeSession } from "./fakes.js";
+
+function turnUsage(overrides: Partial<TurnUsage> = {}): TurnUsage {
+  return {
+    model: "gpt-4.1",
+    requests: 1,
+    inputTokens: 100,
+    outputTokens: 20,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    premiumRequests: 1,
+    apiDurationMs: 50,
+    durationMs: 80,
+    toolCalls: 0,
+    ...overrides,
+  };
+}
+
+describe("trackTurnUsage", () => {
+  it("sums usage events and tool calls until stopped", () => {
+    const session = new FakeSession("s1");
+    const tracker = trackTurnUsage(session, "claude-sonnet-4.5");
+
+    session.emit("assistant.usage", { model: "claude-sonnet-4.5", inputTokens: 1000, outputTokens: 50, cost: 1, duration: 400 });
+    session.emit("tool.execution_start", { toolName: "read_file" });
+    session.emit("assistant.usage", { model: "claude-sonnet-4.5", inputTokens: 1200, outputTokens: 80, cacheReadTokens: 900 });
+    const usage = tracker.stop();
+    session.emit("assistant.usage", { inputTokens: 5000 });
+
+    expect(usage).toMatchObject({
+      model: "claude-sonnet-4.5",
+      requests: 2,
+      inputTokens: 2200,
+      outputTokens: 130,
+      cacheReadTokens: 900,
+      premiumRequests: 1,
+      apiDurationMs: 400,
+      toolCalls: 1,
+    });
+    expect(usageTraceData(usage, null, 1)).toMatchObject({ caller: "anonymous", turn: 1, input_tokens: 2200, tool_calls: 1 });
+  });
+});
+
+describe("UsageLedger", () => {
+  it("aggregates per context, per caller and per model", () => {
+    const ledger = new UsageLedger();
+    ledger.record("ctx-1", "team-a", turnUsage());
+    ledger.record("ctx-1", "team-a", turnUsage({ model: "o3", inputTokens: 300 }));
+    ledger.record("ctx-2", null, turnUsage());
+
+    expect(ledger.context("ctx-1")).toMatchObject({ turns: 2, inputTokens: 400, premiumRequests: 2 });
+    expect(ledger.context("ctx-1")!.models).toMatchObject({ "gpt-4.1": { turns: 1 }, o3: { inputTokens: 300 } });
+    expect(ledger.caller("team-a")).toMatchObject({ turns: 2, outputTokens: 40 });
+    expect(ledger.caller("anonymous")).toMatchObject({ turns: 1 });
+    expect(Object.keys(ledger.summary().contexts)).toEqual(["ctx-1", "ctx-2"]);
+  });
+
+  it("drops the least recently used contexts past maxContexts", () => {
+    const ledger = new UsageLedger({ maxContexts: 2 });
+    ledger.record("a", "x", turnUsage());
+    ledger.record("b", "x", turnUsage());
+    ledger.record("a", "x", turnUsage());
+    ledger.record("c", "x", turnUsage());
+
+    expect(ledger.context("b")).toBeUndefined();
+    expect(Object.keys(ledger.summary().contexts)).toEqual(["a", "c"]);
+    expect(ledger.caller("x")!.turns).toBe(4);
+  });
+});
@@ -26,9 +26,16 @@ export const DEFAULTS: Readonly<Required<AgentConfig>> = Object.freeze({
     hostname: "0.0.0.0",
     advertiseHost: "localhost",
   },
+  auth: {
+    apiKeys: [],
+    apiKeyHeader: "X-API-Key",
+    admins: [],
+  },
   copilot: {
     cliUrl: "",
     model: "claude-sonnet-4.5",
+    allowedModels: [],
+    fallbackModels: [],
     streaming: true,
     systemPrompt: "",
     systemPromptMode: "append",
@@ -39,8 +46,110 @@ export const DEFAULTS: Readonly<Required<AgentConfig>> = Object.freeze({
   session: {
     titlePrefix: "A2A Session",
     reuseByContext: true,
-    ttl: 3_600_000,         // 1 hour
+    idleTtl: 3_600_000,     // 1 hour
+    maxLifetime: 0,         // no limit
     cleanupInterval: 300_000,  // 5 min
+    concurrency: "queue",
+    maxQueueDepth: 10,
+    store: {
+      type: "memory",
+      path: ".a2a-copilot/sessions.json",
+    },
+    rehydrate: {
+      enabled: false,
+      maxChars: 8_000,
+      maxMessageChars: 1_000,
+    },
+    compaction: {
+      enabled: false,
+      threshold: 100_000,
+      timeout: 120_000,
+    },
+  },
+  queue: {
+    maxConcurrentTasks: 0,
+    maxSessions: 0,
+    order: "fifo",
+    timeout: 300_000,
+    maxDepth: 100,
+  },
+  taskStore: {
+    type: "memory",
+    directory: ".a2a-copilot/tasks",
+    maxAge: 0,
+    maxTasks: 0,
+    pruneInterval: 3_600_000,  // 1 hour
+  },
+  pushNotifications: {
+    timeout: 5_000,
+    maxAttempts: 5,
+    initialBackoff: 1_000,
+    maxBackoff: 30_000,
+    tokenHeader: "X-A2A-Notification-Token",
+    allowedHosts: [],
+  },
+  attachments: {
+    enabled: true,
+    allowedMimeTypes: ["text/*", "application/json", "application/pdf", "image/*"],
+    maxFileSize: 10_485_760,   // 10 MiB
+    maxTotalSize: 26_214_400,  // 25 MiB
+    fetchUris: false,
+    allowedHosts: [],
+    storeInWorkspace: false,
+  },
+  fileArtifacts: {
+    enabled: true,
+    include: ["**"],
+    exclude: [".git/**", "node_modules/**"],
+    inlineMaxSize: 262_144,    // 256 KiB
+    maxFiles: 20,
+    directory: ".a2a-copilot/artifacts",
+    maxAge: 604_800_000,       // 7 days
+    pruneInterval: 3_600_000,  // 1 hour
+  },
+  interaction: {
+    userInput: true,
+    approveTools: [],
+    timeout: 1_800_000,        // 30 min
+  },
+  toolPolicy: {
+    default: "allow",
+    rules: [],
+  },
+  retry: {
+    maxAttempts: 3,
+    initialBackoff: 1_000,
+    maxBackoff: 30_000,
+  },
+  usage: {
+    enabled: true,
+    maxContexts: 10_000,
+  },
+  quotas: {
+    perCaller: {},
+    perContext: {},
+    callers: {},
+    maxTaskTokens: 0,
+  },
+  metrics: {
+    enabled: true,
+    requireAuth: false,
+  },
+  health: {
+    timeout: 5_000,
+    cacheTtl: 5_000,
+  },
+  tracing: {
+    enabled: false,
+    exporter: "otlp",
+    endpoint: "http://localhost:4318/v1/traces",
+    headers: {},
+    file: "traces.jsonl",
+    sampleRatio: 1,
+  },
+  structuredOutput: {
+    maxRetries: 2,
+    allowRequestSchema: true,
   },
   features: {
     streamArtifactChunks: false,
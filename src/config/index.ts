@@ -5,20 +5,46 @@
  * from a single import path for consumers and external integrators.
  */
 
-export { resolveConfig, loadConfigFile, loadEnvOverrides } from "./loader.js";
+export { resolveConfig, loadConfigFile, loadEnvOverrides, validateMcpServers } from "./loader.js";
 export { DEFAULTS } from "./defaults.js";
 export type {
   AgentConfig,
   AgentCardConfig,
   ServerConfig,
+  AuthConfig,
+  ApiKeyConfig,
+  JwtAuthConfig,
   CopilotConfig,
+  ReasoningEffort,
   SessionConfig,
+  SessionStoreConfig,
+  RehydrateConfig,
+  CompactionConfig,
+  QueueConfig,
+  TaskStoreConfig,
+  PushNotificationSettings,
+  AttachmentConfig,
+  FileArtifactConfig,
+  InteractionConfig,
+  ToolArgumentMatcher,
+  ToolPolicyRule,
+  ToolPolicyConfig,
+  RetryConfig,
+  UsageConfig,
+  QuotaConfig,
+  QuotaLimits,
+  MetricsConfig,
+  HealthConfig,
+  TracingConfig,
+  StructuredOutputConfig,
   FeatureFlags,
   TimeoutConfig,
   LoggingConfig,
   SkillConfig,
   McpServerConfig,
+  McpServerCommonConfig,
   McpHttpServerConfig,
+  McpSseServerConfig,
   McpStdioServerConfig,
   CustomAgentConfig,
 } from "./types.js";
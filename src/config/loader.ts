@@ -12,7 +12,8 @@
 import { readFileSync } from "node:fs";
 import { resolve } from "node:path";
 import { DEFAULTS } from "./defaults.js";
-import type { AgentConfig, McpServerConfig } from "./types.js";
+import type { AgentConfig, McpServerConfig, SessionStoreConfig } from "./types.js";
+import { mcpServerEntries } from "../copilot/mcp-servers.js";
 
 // ─── Deep Merge ─────────────────────────────────────────────────────────────
 
@@ -95,6 +96,34 @@ export function loadEnvOverrides(): Partial<AgentConfig> {
     if (githubToken) cfg.copilot.githubToken = githubToken;
   }
 
+  // Task store
+  const taskStoreType = process.env["TASK_STORE"];
+  const taskStoreDir = process.env["TASK_STORE_DIR"];
+  if (taskStoreType || taskStoreDir) {
+    cfg.taskStore = {};
+    if (taskStoreType) cfg.taskStore.type = taskStoreType as "memory" | "file";
+    if (taskStoreDir) cfg.taskStore.directory = taskStoreDir;
+  }
+
+  // Session store
+  const sessionStoreType = process.env["SESSION_STORE"];
+  const sessionStorePath = process.env["SESSION_STORE_PATH"];
+  if (sessionStoreType || sessionStorePath) {
+    const store: SessionStoreConfig = {};
+    if (sessionStoreType) store.type = sessionStoreType as "memory" | "file";
+    if (sessionStorePath) store.path = sessionStorePath;
+    cfg.session = { store };
+  }
+  const rehydrate = process.env["SESSION_REHYDRATE"];
+  if (rehydrate) {
+    cfg.session = { ...cfg.session, rehydrate: { enabled: rehydrate === "true" } };
+  }
+  const compactionThreshold = process.env["SESSION_COMPACTION_THRESHOLD"];
+  if (compactionThreshold) {
+    const threshold = parseInt(compactionThreshold, 10);
+    cfg.session = { ...cfg.session, compaction: { enabled: threshold > 0, threshold } };
+  }
+
   // Features
   const streamArtifacts = process.env["STREAM_ARTIFACTS"];
   if (streamArtifacts) {
@@ -107,6 +136,18 @@ export function loadEnvOverrides(): Partial<AgentConfig> {
     cfg.logging = { level: logLevel };
   }
 
+  // Tracing (standard OpenTelemetry variables; an endpoint turns tracing on)
+  const otlpEndpoint = process.env["OTEL_EXPORTER_OTLP_TRACES_ENDPOINT"];
+  const serviceName = process.env["OTEL_SERVICE_NAME"];
+  if (otlpEndpoint || serviceName) {
+    cfg.tracing = {};
+    if (otlpEndpoint) {
+      cfg.tracing.enabled = true;
+      cfg.tracing.endpoint = otlpEndpoint;
+    }
+    if (serviceName) cfg.tracing.serviceName = serviceName;
+  }
+
   // Agent card
   const agentName = process.env["AGENT_NAME"];
   const agentDesc = process.env["AGENT_DESCRIPTION"];
@@ -148,6 +189,7 @@ export function resolveConfig(
   // Layer 1: JSON file
   if (configFilePath) {
     const fileConfig = loadConfigFile(configFilePath);
+    applyLegacySessionTtl(fileConfig);
     merged = deepMerge(merged, fileConfig as unknown as Record<string, unknown>);
   }
 
@@ -157,32 +199,198 @@ export function resolveConfig(
 
   // Layer 3: CLI overrides
   if (cliOverrides) {
+    applyLegacySessionTtl(cliOverrides);
     merged = deepMerge(merged, cliOverrides as unknown as Record<string, unknown>);
   }
 
-  // Layer 4: Substitute $ENV_VAR tokens in MCP stdio args
+  // Layer 4: Substitute $ENV_VAR tokens in MCP stdio args, auth secrets and tool policy paths
   substituteEnvTokensInMcpArgs(merged);
+  substituteSecretRefsInMcpHeaders(merged);
+  substituteSecretRefsInTracingHeaders(merged);
+  substituteEnvTokensInAuth(merged);
+  substituteEnvTokensInToolPolicy(merged);
+
+  // Layer 5: Validate
+  validateMcpServers(merged.mcp as Record<string, unknown> | undefined);
 
   return merged as unknown as Required<AgentConfig>;
 }
 
+/** Read the deprecated `session.ttl` as `session.idleTtl` when that is not set. */
+function applyLegacySessionTtl(config: Partial<AgentConfig>): void {
+  const session = config.session;
+  if (session?.ttl !== undefined && session.idleTtl === undefined) {
+    session.idleTtl = session.ttl;
+  }
+}
+
 // ─── Env Token Substitution ─────────────────────────────────────────────────
 
 /**
- * Replace $TOKEN references in MCP stdio args with matching environment
+ * Replace $TOKEN references in a string with matching environment
  * variable values.  Supports any $VAR_NAME token (e.g. $WORKSPACE_DIR).
  * Tokens with no matching env var are left unchanged.
  */
+function substituteEnvTokens(value: string): string {
+  return value.replace(/\$(\w+)/g, (_match, name: string) => process.env[name] ?? _match);
+}
+
+/** Replace $TOKEN references in MCP stdio args. */
 function substituteEnvTokensInMcpArgs(config: Record<string, unknown>): void {
-  const mcp = config.mcp as Record<string, unknown> | undefined;
-  if (!mcp) return;
+  const mcp = config.mcp as Record<string, Record<string, unknown>> | undefined;
 
-  for (const serverCfg of Object.values(mcp)) {
-    const srv = serverCfg as Record<string, unknown>;
+  for (const [, srv] of mcpServerEntries(mcp)) {
     if (srv.type !== "stdio" || !Array.isArray(srv.args)) continue;
 
-    srv.args = (srv.args as string[]).map((arg) =>
-      arg.replace(/\$(\w+)/g, (_match, name: string) => process.env[name] ?? _match),
+    srv.args = (srv.args as string[]).map(substituteEnvTokens);
+  }
+}
+
+/**
+ * Resolve references in MCP HTTP/SSE header values: `$VAR` / `${VAR}` from
+ * the environment and `${file:/path}` from a (trimmed) secret file. Unlike
+ * args, an unresolved reference is an error — sending the literal token as
+ * a credential would fail in a much less obvious way. Disabled servers are
+ * left alone, so they may reference secrets that are not provided.
+ */
+function substituteSecretRefsInMcpHeaders(config: Record<string, unknown>): void {
+  const mcp = config.mcp as Record<string, Record<string, unknown>> | undefined;
+
+  for (const [name, srv] of mcpServerEntries(mcp)) {
+    if (srv.enabled === false) continue;
+    if (!srv.headers || typeof srv.headers !== "object") continue;
+
+    const headers: Record<string, unknown> = {};
+    for (const [header, value] of Object.entries(srv.headers as Record<string, unknown>)) {
+      headers[header] = typeof value === "string"
+        ? resolveSecretRefs(value, `mcp.${name}.headers.${header}`)
+        : value;
+    }
+    srv.headers = headers;
+  }
+}
+
+/** Resolve references in trace collector headers, as for MCP headers. */
+function substituteSecretRefsInTracingHeaders(config: Record<string, unknown>): void {
+  const tracing = config.tracing as Record<string, unknown> | undefined;
+  if (!tracing?.headers || typeof tracing.headers !== "object") return;
+
+  const headers: Record<string, unknown> = {};
+  for (const [header, value] of Object.entries(tracing.headers as Record<string, unknown>)) {
+    headers[header] = typeof value === "string" ? resolveSecretRefs(value, `tracing.headers.${header}`) : value;
+  }
+  tracing.headers = headers;
+}
+
+function resolveSecretRefs(value: string, where: string): string {
+  return value.replace(/\$\{file:([^}]+)\}|\$\{(\w+)\}|\$(\w+)/g, (_match, file?: string, braced?: string, bare?: string) => {
+    if (file) {
+      try {
+        return readFileSync(resolve(file), "utf-8").trim();
+      } catch (err) {
+        throw new Error(`${where}: cannot read secret file "${file}": ${(err as Error).message}`);
+      }
+    }
+    const envName = (braced ?? bare)!;
+    const envValue = process.env[envName];
+    if (envValue === undefined) {
+      throw new Error(`${where}: environment variable ${envName} is not set`);
+    }
+    return envValue;
+  });
+}
+
+/** Replace $TOKEN references in API keys and the JWT shared secret. */
+function substituteEnvTokensInAuth(config: Record<string, unknown>): void {
+  const auth = config.auth as Record<string, unknown> | undefined;
+  if (!auth) return;
+
+  if (Array.isArray(auth.apiKeys)) {
+    auth.apiKeys = (auth.apiKeys as Record<string, unknown>[]).map((k) =>
+      typeof k.key === "string" ? { ...k, key: substituteEnvTokens(k.key) } : k,
     );
   }
+
+  const jwt = auth.jwt as Record<string, unknown> | undefined;
+  if (jwt && typeof jwt.secret === "string") {
+    auth.jwt = { ...jwt, secret: substituteEnvTokens(jwt.secret) };
+  }
+}
+
+/** Replace $TOKEN references in tool policy path prefixes (e.g. $WORKSPACE_DIR). */
+function substituteEnvTokensInToolPolicy(config: Record<string, unknown>): void {
+  const policy = config.toolPolicy as Record<string, unknown> | undefined;
+  if (!policy || !Array.isArray(policy.rules)) return;
+
+  for (const rule of policy.rules as Record<string, unknown>[]) {
+    const args = rule.args as Record<string, Record<string, unknown>> | undefined;
+    if (!args) continue;
+    for (const matcher of Object.values(args)) {
+      for (const key of ["prefix", "notPrefix"]) {
+        if (typeof matcher[key] === "string") matcher[key] = substituteEnvTokens(matcher[key] as string);
+      }
+    }
+  }
+}
+
+// ─── Validation ─────────────────────────────────────────────────────────────
+
+/**
+ * Check every MCP server entry and throw one error listing all problems,
+ * so a bad config fails at startup rather than on the first session.
+ * `$`-prefixed keys (e.g. `"$comment"`) and non-object entries are not servers.
+ */
+export function validateMcpServers(mcp: Record<string, unknown> | undefined): void {
+  if (!mcp) return;
+  const problems: string[] = [];
+
+  for (const [name, srv] of mcpServerEntries(mcp as Record<string, Record<string, unknown>>)) {
+    const where = `mcp.${name}`;
+
+    if (srv.type === "http" || srv.type === "sse") {
+      if (typeof srv.url !== "string" || !/^https?:\/\//i.test(srv.url)) {
+        problems.push(`${where}.url: must be an http(s) URL`);
+      }
+      if (srv.headers !== undefined) {
+        const headers = srv.headers as Record<string, unknown>;
+        if (typeof headers !== "object" || headers === null || Array.isArray(headers)) {
+          problems.push(`${where}.headers: must be an object of header name → string`);
+        } else {
+          for (const [header, value] of Object.entries(headers)) {
+            if (typeof value !== "string") problems.push(`${where}.headers.${header}: must be a string`);
+          }
+        }
+      }
+    } else if (srv.type === "stdio") {
+      if (typeof srv.command !== "string" || !srv.command.trim()) {
+        problems.push(`${where}.command: is required for stdio servers`);
+      }
+      if (srv.args !== undefined && !isStringArray(srv.args)) {
+        problems.push(`${where}.args: must be an array of strings`);
+      }
+      if (srv.headers !== undefined) {
+        problems.push(`${where}.headers: only http and sse servers accept headers`);
+      }
+    } else {
+      problems.push(`${where}.type: must be "http", "sse" or "stdio", got ${JSON.stringify(srv.type)}`);
+    }
+
+    if (srv.tools !== undefined && (!isStringArray(srv.tools) || srv.tools.some((t) => !t.trim()))) {
+      problems.push(`${where}.tools: must be an array of tool names ("*" for all)`);
+    }
+    if (srv.timeout !== undefined && (typeof srv.timeout !== "number" || !(srv.timeout > 0))) {
+      problems.push(`${where}.timeout: must be a positive number of milliseconds`);
+    }
+    if (srv.critical !== undefined && typeof srv.critical !== "boolean") {
+      problems.push(`${where}.critical: must be true or false`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid MCP server configuration:\n  - ${problems.join("\n  - ")}`);
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
 }
@@ -14,6 +14,11 @@ export interface SkillConfig {
   description: string;
   tags?: string[];
   examples?: string[];
+  /**
+   * JSON Schema the answer must satisfy when a request names this skill
+   * (`skillId` in message metadata). The answer is published as a DataPart.
+   */
+  outputSchema?: Record<string, unknown>;
 }
 
 /** Agent identity and capabilities advertised via the A2A Agent Card. */
@@ -59,6 +64,9 @@ export interface ServerConfig {
 
 // ─── Copilot SDK Connection Config ──────────────────────────────────────────
 
+/** Reasoning effort levels accepted by the Copilot SDK. */
+export type ReasoningEffort = "low" | "medium" | "high" | "xhigh";
+
 /** How the wrapper connects to and interacts with GitHub Copilot SDK. */
 export interface CopilotConfig {
   /**
@@ -75,6 +83,18 @@ export interface CopilotConfig {
   githubToken?: string;
   /** Default model for sessions (e.g. "gpt-4.1", "claude-sonnet-4.5") */
   model?: string;
+  /** Default reasoning effort, for models that support it */
+  reasoningEffort?: ReasoningEffort;
+  /**
+   * Models a request may select through `model` metadata (globs, e.g.
+   * "gpt-4.1*"). Empty (default) means requests cannot override the model.
+   */
+  allowedModels?: string[];
+  /**
+   * Models to fall back to, in order, when the task's model is unavailable
+   * or keeps failing transiently (see `retry`). Not subject to `allowedModels`.
+   */
+  fallbackModels?: string[];
   /** Enable streaming by default on sessions (default: true) */
   streaming?: boolean;
   /**
@@ -117,10 +137,326 @@ export interface SessionConfig {
   titlePrefix?: string;
   /** Reuse sessions by A2A contextId (default: true) */
   reuseByContext?: boolean;
-  /** Session TTL in ms (default: 3_600_000 = 1 hour) */
+  /** Close a session after this many ms without a task, counted from the last one ending (default: 3_600_000 = 1 hour; 0 = never) */
+  idleTtl?: number;
+  /** Close a session this many ms after it was created, however active (default: 0 = no limit) */
+  maxLifetime?: number;
+  /** @deprecated Use `idleTtl`; still read when `idleTtl` is not set */
   ttl?: number;
   /** Session cleanup interval in ms (default: 300_000 = 5 min) */
   cleanupInterval?: number;
+  /**
+   * What happens when a message arrives for a context whose session is
+   * already running a turn:
+   *
+   * - "queue" (default): wait for the running turn to finish (FIFO).
+   * - "reject": reject the new task immediately.
+   * - "fork": run the new task on a fresh, throwaway session.
+   */
+  concurrency?: "queue" | "reject" | "fork";
+  /** Max tasks waiting per context in "queue" mode; excess is rejected (default: 10) */
+  maxQueueDepth?: number;
+  /** Where the contextId → session map is kept, so sessions can be resumed after a restart */
+  store?: SessionStoreConfig;
+  /** Replay the context's earlier messages into sessions created for a known context */
+  rehydrate?: RehydrateConfig;
+  /** Summarize a context's session into a new one when its conversation grows too large */
+  compaction?: CompactionConfig;
+}
+
+/** Persistence of the contextId → Copilot session map. */
+export interface SessionStoreConfig {
+  /**
+   * - "memory" (default): the map is lost on restart.
+   * - "file": kept in a JSON file at `path`; sessions are resumed after a restart.
+   */
+  type?: "memory" | "file";
+  /** File for the "file" store (default: ".a2a-copilot/sessions.json") */
+  path?: string;
+}
+
+/** Priming new sessions with a context's earlier conversation from the task store. */
+export interface RehydrateConfig {
+  /** Replay earlier messages when a new session is created for a known context (default: false) */
+  enabled?: boolean;
+  /** Transcript budget in characters (default: 8000) */
+  maxChars?: number;
+  /** Transcript budget in approximate tokens (~4 chars each); the smaller budget wins (default: unset) */
+  maxTokens?: number;
+  /** Longer messages are cut to this many characters (default: 1000) */
+  maxMessageChars?: number;
+}
+
+/** Automatic compaction of long-lived context sessions. */
+export interface CompactionConfig {
+  /** Compact a context's session once it passes `threshold` (default: false) */
+  enabled?: boolean;
+  /** Approximate conversation size, in tokens, that triggers compaction (default: 100_000) */
+  threshold?: number;
+  /** Max ms to wait for the summary; on timeout the old session is kept (default: 120_000) */
+  timeout?: number;
+  /** Instruction sent to the model to summarize the conversation (default: built-in) */
+  prompt?: string;
+}
+
+// ─── Queue Config ───────────────────────────────────────────────────────────
+
+/** Global limits on running tasks and open sessions. */
+export interface QueueConfig {
+  /** Tasks running at once across all contexts (0 = unlimited, default) */
+  maxConcurrentTasks?: number;
+  /** Copilot sessions open at once (0 = unlimited, default) */
+  maxSessions?: number;
+  /**
+   * Order of waiting tasks:
+   * - "fifo" (default): arrival order.
+   * - "priority": highest numeric `priority` in message / task metadata first.
+   */
+  order?: "fifo" | "priority";
+  /** Max ms a task waits for a slot before failing (default: 300_000; 0 = no limit) */
+  timeout?: number;
+  /** Max tasks waiting; excess is rejected (default: 100) */
+  maxDepth?: number;
+}
+
+// ─── Task Store Config ──────────────────────────────────────────────────────
+
+/** Where A2A tasks (status, history, artifacts) are persisted. */
+export interface TaskStoreConfig {
+  /**
+   * - "memory" (default): tasks are lost on restart.
+   * - "file": one JSON file per task under `directory`; survives restarts.
+   */
+  type?: "memory" | "file";
+  /** Directory for the file store (default: ".a2a-copilot/tasks") */
+  directory?: string;
+  /** Prune finished tasks older than this many ms (default: 0 = keep forever) */
+  maxAge?: number;
+  /** Keep at most this many tasks, pruning the oldest finished ones (default: 0 = unlimited) */
+  maxTasks?: number;
+  /** Prune interval in ms (default: 3_600_000 = 1 hour) */
+  pruneInterval?: number;
+}
+
+// ─── Push Notification Config ───────────────────────────────────────────────
+
+/**
+ * Webhook delivery settings for A2A push notifications.
+ * Only used when `agentCard.pushNotifications` is true.
+ */
+export interface PushNotificationSettings {
+  /** Per-attempt request timeout in ms (default: 5_000) */
+  timeout?: number;
+  /** Delivery attempts per notification, including the first (default: 5) */
+  maxAttempts?: number;
+  /** Initial retry backoff in ms, doubled per attempt with jitter (default: 1_000) */
+  initialBackoff?: number;
+  /** Upper bound for retry backoff in ms (default: 30_000) */
+  maxBackoff?: number;
+  /** Header carrying the caller-supplied notification token (default: "X-A2A-Notification-Token") */
+  tokenHeader?: string;
+  /**
+   * Hostnames webhooks may target. Empty (default) allows any host.
+   * Entries starting with "." match subdomains (e.g. ".example.com").
+   */
+  allowedHosts?: string[];
+}
+
+// ─── Attachment Config ──────────────────────────────────────────────────────
+
+/** How inbound A2A file parts are accepted and handed to Copilot. */
+export interface AttachmentConfig {
+  /** Accept file parts (default: true). Data parts are always rendered as JSON. */
+  enabled?: boolean;
+  /**
+   * Accepted MIME types; "type/*" wildcards allowed
+   * (default: text/*, application/json, application/pdf, image/*)
+   */
+  allowedMimeTypes?: string[];
+  /** Max bytes per file (default: 10_485_760 = 10 MiB) */
+  maxFileSize?: number;
+  /** Max bytes across all files in one message (default: 26_214_400 = 25 MiB) */
+  maxTotalSize?: number;
+  /** Download `uri` file parts over http(s) from `allowedHosts` (default: false) */
+  fetchUris?: boolean;
+  /**
+   * Hostnames `uri` file parts may be fetched from, including redirect
+   * targets. Empty (default) allows none. Entries starting with "." match
+   * subdomains (e.g. ".example.com").
+   */
+  allowedHosts?: string[];
+  /**
+   * Write files under `<workspaceDirectory>/.a2a-attachments/<taskId>/` and
+   * keep them, instead of a per-task temp dir removed after the task
+   * (default: false)
+   */
+  storeInWorkspace?: boolean;
+}
+
+// ─── File Artifact Config ───────────────────────────────────────────────────
+
+/** Publishing workspace files written during a task as A2A file artifacts. */
+export interface FileArtifactConfig {
+  /** Detect changed files in `copilot.workspaceDirectory` (default: true) */
+  enabled?: boolean;
+  /** Globs (relative to the workspace) of files to publish (default: all) */
+  include?: string[];
+  /** Globs of files and directories to ignore (default: .git, node_modules) */
+  exclude?: string[];
+  /** Files up to this many bytes are sent inline; larger ones by URI (default: 262_144) */
+  inlineMaxSize?: number;
+  /** Max files published per task (default: 20) */
+  maxFiles?: number;
+  /** Where copies of URI-served files are kept (default: ".a2a-copilot/artifacts") */
+  directory?: string;
+  /** Public base URL for download links (default: http://<advertiseHost>:<port>) */
+  baseUrl?: string;
+  /** Delete stored copies this many ms after they were written; 0 keeps them (default: 604_800_000 = 7 days) */
+  maxAge?: number;
+  /** How often expired copies are deleted, ms (default: 3_600_000) */
+  pruneInterval?: number;
+}
+
+// ─── Interaction Config ─────────────────────────────────────────────────────
+
+/** Pausing a task in `input-required` to ask the caller. */
+export interface InteractionConfig {
+  /** Let the model ask the caller clarifying questions (default: true) */
+  userInput?: boolean;
+  /** Tool name globs whose calls need the caller's approval (default: none) */
+  approveTools?: string[];
+  /** How long to wait for a reply before abandoning the turn, ms (default: 1_800_000) */
+  timeout?: number;
+}
+
+// ─── Tool Policy Config ─────────────────────────────────────────────────────
+
+/** Conditions on one tool argument. All given conditions must hold. */
+export interface ToolArgumentMatcher {
+  /** Regex the (stringified) value must match */
+  pattern?: string;
+  /** Regex the value must not match */
+  notPattern?: string;
+  /** Path prefix the normalized value must start with */
+  prefix?: string;
+  /** Path prefix the normalized value must not start with */
+  notPrefix?: string;
+}
+
+/** One allow/deny rule. A call matches when every given field matches. */
+export interface ToolPolicyRule {
+  action: "allow" | "deny";
+  /** MCP server name glob; rules with `server` never match built-in tools */
+  server?: string;
+  /** Tool name globs (bare MCP tool name or full name) */
+  tools?: string[];
+  /** Argument name → conditions on its value */
+  args?: Record<string, ToolArgumentMatcher>;
+  /** Reason returned to the model when the rule denies a call */
+  reason?: string;
+}
+
+/** Which tool calls may run. Rules are checked in order; the first match wins. */
+export interface ToolPolicyConfig {
+  /** Decision when no rule matches (default: "allow") */
+  default?: "allow" | "deny";
+  rules?: ToolPolicyRule[];
+}
+
+// ─── Retry Config ───────────────────────────────────────────────────────────
+
+/** Retries of transient Copilot failures (session creation or a turn). */
+export interface RetryConfig {
+  /** Attempts per model, including the first (default: 3) */
+  maxAttempts?: number;
+  /** Initial retry backoff in ms, doubled per attempt with jitter (default: 1_000) */
+  initialBackoff?: number;
+  /** Upper bound for retry backoff in ms (default: 30_000) */
+  maxBackoff?: number;
+}
+
+// ─── Usage Config ───────────────────────────────────────────────────────────
+
+/** Token and premium-request accounting. */
+export interface UsageConfig {
+  /** Publish `trace.usage` artifacts and keep totals (default: true) */
+  enabled?: boolean;
+  /** Contexts whose totals are kept; least recently used are dropped (default: 10_000) */
+  maxContexts?: number;
+}
+
+// ─── Quota Config ───────────────────────────────────────────────────────────
+
+/** Limits for one caller or one contextId. Unset limits are not enforced. */
+export interface QuotaLimits {
+  /** Messages accepted per rolling minute */
+  requestsPerMinute?: number;
+  /** Tasks running at once */
+  concurrentTasks?: number;
+  /** Input + output tokens per UTC day */
+  tokensPerDay?: number;
+}
+
+/** Consumption caps, checked before a message is accepted. */
+export interface QuotaConfig {
+  /** Limits for each caller (unauthenticated requests share `anonymous`) */
+  perCaller?: QuotaLimits;
+  /** Limits for each contextId */
+  perContext?: QuotaLimits;
+  /** Per-caller overrides of `perCaller`, keyed by caller name */
+  callers?: Record<string, QuotaLimits>;
+  /** Input + output tokens one task may use before it is stopped (0 = unlimited) */
+  maxTaskTokens?: number;
+}
+
+// ─── Metrics Config ─────────────────────────────────────────────────────────
+
+/** Prometheus metrics endpoint. */
+export interface MetricsConfig {
+  /** Serve `/metrics` (default: true) */
+  enabled?: boolean;
+  /** Require inbound auth (and admin access) for `/metrics` (default: false) */
+  requireAuth?: boolean;
+}
+
+// ─── Health Config ──────────────────────────────────────────────────────────
+
+/** Readiness checks served at `/health/ready`. */
+export interface HealthConfig {
+  /** Time each check may take before it fails, ms (default: 5_000) */
+  timeout?: number;
+  /** Serve a result this recent instead of probing again, ms (default: 5_000; 0 = always probe) */
+  cacheTtl?: number;
+}
+
+// ─── Tracing Config ─────────────────────────────────────────────────────────
+
+/** OpenTelemetry spans for requests, turns, tool calls and subagents. */
+export interface TracingConfig {
+  /** Record and export spans (default: false) */
+  enabled?: boolean;
+  /** "otlp" posts to an OTLP/HTTP collector; "file" appends to a local JSON-lines file (default: "otlp") */
+  exporter?: "otlp" | "file";
+  /** OTLP/HTTP traces endpoint (default: "http://localhost:4318/v1/traces") */
+  endpoint?: string;
+  /** Extra collector headers, e.g. an API key. Values accept `$VAR` and `${file:/path}` references. */
+  headers?: Record<string, string>;
+  /** Output path of the "file" exporter (default: "traces.jsonl") */
+  file?: string;
+  /** `service.name` of the exported spans (default: the agent card name) */
+  serviceName?: string;
+  /** Fraction of new traces to record, 0–1 (default: 1). Continued traces follow the caller's sampled flag. */
+  sampleRatio?: number;
+}
+
+// ─── Structured Output Config ───────────────────────────────────────────────
+
+/** JSON answers validated against a skill's or request's schema. */
+export interface StructuredOutputConfig {
+  /** Re-prompts after a response fails validation (default: 2) */
+  maxRetries?: number;
+  /** Accept `outputSchema` in message metadata (default: true) */
+  allowRequestSchema?: boolean;
 }
 
 // ─── Feature Flags ──────────────────────────────────────────────────────────
@@ -151,28 +487,98 @@ export interface LoggingConfig {
   level?: string;
 }
 
+// ─── Auth Config ────────────────────────────────────────────────────────────
+
+/** A static API key accepted on inbound A2A requests. */
+export interface ApiKeyConfig {
+  /** Key value. Supports `$ENV_VAR` references (e.g. "$ORCHESTRATOR_API_KEY"). */
+  key: string;
+  /** Caller identity reported to the executor when this key is used */
+  name: string;
+}
+
+/** JWT bearer token verification settings. */
+export interface JwtAuthConfig {
+  /**
+   * Shared secret for HMAC-signed tokens (HS256/HS384/HS512).
+   * Supports `$ENV_VAR` references.
+   */
+  secret?: string;
+  /**
+   * Path to a local JWKS file (`{ "keys": [...] }`) for asymmetric tokens
+   * (RS*, PS*, ES*, EdDSA). Keys are matched by `kid` when present.
+   */
+  jwksFile?: string;
+  /** Required `iss` claim, if set */
+  issuer?: string;
+  /** Accepted `aud` claim value(s), if set */
+  audience?: string | string[];
+  /** Claim used as the caller identity (default: "sub") */
+  userClaim?: string;
+  /** Allowed clock skew in seconds for `exp` / `nbf` (default: 30) */
+  clockTolerance?: number;
+}
+
+/**
+ * Inbound authentication for the A2A and context endpoints.
+ * Authentication is enforced as soon as any API key or a `jwt` section is
+ * configured; a request passes if it satisfies any one configured method.
+ */
+export interface AuthConfig {
+  /** Static API keys */
+  apiKeys?: ApiKeyConfig[];
+  /** Header carrying the API key (default: "X-API-Key") */
+  apiKeyHeader?: string;
+  /** JWT bearer token verification */
+  jwt?: JwtAuthConfig;
+  /**
+   * Callers (API key names or JWT identities) allowed to use the operator
+   * APIs, such as `/usage`. Empty (default): nobody — name a caller here to
+   * use them. Needs auth to be enabled; without auth, `/usage` is open to
+   * everyone and the session admin API is not mounted.
+   */
+  admins?: string[];
+}
+
 // ─── MCP Server Config ──────────────────────────────────────────────────────
 
+/** Settings shared by every MCP server type. */
+export interface McpServerCommonConfig {
+  /** Tools to expose from this server; "*" means all, [] none (default: ["*"]) */
+  tools?: string[];
+  /** Timeout for each tool call to this server, ms (default: SDK default) */
+  timeout?: number;
+  /** The agent is not ready while this server fails its health check (default: false) */
+  critical?: boolean;
+}
+
 /** Configuration for an MCP server connected via HTTP (streamable). */
-export interface McpHttpServerConfig {
+export interface McpHttpServerConfig extends McpServerCommonConfig {
   type: "http";
   /** URL of the remote MCP server (e.g. http://127.0.0.1:8002/mcp) */
   url: string;
+  /**
+   * HTTP headers sent with every request. Values may reference environment
+   * variables (`$VAR`, `${VAR}`) or secret files (`${file:/run/secrets/x}`).
+   */
+  headers?: Record<string, string>;
   /** Enable on startup (default: true) */
   enabled?: boolean;
 }
 
 /** Configuration for an MCP server connected via SSE. */
-export interface McpSseServerConfig {
+export interface McpSseServerConfig extends McpServerCommonConfig {
   type: "sse";
   /** URL of the SSE MCP server endpoint (e.g. http://127.0.0.1:8001/sse) */
   url: string;
+  /** HTTP headers sent with every request (same references as for http) */
+  headers?: Record<string, string>;
   /** Enable on startup (default: true) */
   enabled?: boolean;
 }
 
 /** Configuration for a stdio-based MCP server. */
-export interface McpStdioServerConfig {
+export interface McpStdioServerConfig extends McpServerCommonConfig {
   type: "stdio";
   /** Command to launch the MCP server */
   command: string;
@@ -210,10 +616,40 @@ export interface AgentConfig {
   agentCard: AgentCardConfig;
   /** Network / server settings */
   server?: ServerConfig;
+  /** Inbound authentication */
+  auth?: AuthConfig;
   /** Copilot SDK connection settings */
   copilot?: CopilotConfig;
   /** Session management */
   session?: SessionConfig;
+  /** Global concurrency limits and the task queue */
+  queue?: QueueConfig;
+  /** Task persistence */
+  taskStore?: TaskStoreConfig;
+  /** Push notification webhook delivery */
+  pushNotifications?: PushNotificationSettings;
+  /** Inbound file attachments */
+  attachments?: AttachmentConfig;
+  /** Outbound workspace file artifacts */
+  fileArtifacts?: FileArtifactConfig;
+  /** Clarifying questions and tool approvals */
+  interaction?: InteractionConfig;
+  /** Allow/deny rules for tool calls */
+  toolPolicy?: ToolPolicyConfig;
+  /** Retries and model fallback for transient Copilot failures */
+  retry?: RetryConfig;
+  /** Token usage accounting */
+  usage?: UsageConfig;
+  /** Per-caller / per-context quotas and the per-task token budget */
+  quotas?: QuotaConfig;
+  /** Prometheus `/metrics` endpoint */
+  metrics?: MetricsConfig;
+  /** Readiness checks */
+  health?: HealthConfig;
+  /** OpenTelemetry tracing and span export */
+  tracing?: TracingConfig;
+  /** Schema-validated JSON output */
+  structuredOutput?: StructuredOutputConfig;
   /** Feature flags */
   features?: FeatureFlags;
   /** Timeout settings */
@@ -0,0 +1,313 @@
+/**
+ * Attachments — A2A Message Parts → Copilot Prompt + Attachments
+ *
+ * Turns an inbound A2A message into what a Copilot turn accepts:
+ *  - text parts are joined into the prompt
+ *  - data parts are rendered into the prompt as fenced JSON blocks
+ *  - file parts (inline base64 bytes or an http(s) URI) are written to disk
+ *    and passed to the session as `{ type: "file", path }` attachments
+ *
+ * URIs are only fetched with `fetchUris` on, from hosts in `allowedHosts`,
+ * so a caller cannot make the agent reach internal addresses. Redirects are
+ * followed by hand and each hop's host is checked again.
+ *
+ * File parts are checked against the configured MIME allow-list and size
+ * limits; a violation raises `AttachmentError`, which the executor reports
+ * as a `rejected` task.
+ */
+
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, extname, join, resolve } from "node:path";
+import type { Message as A2AMessage, Part } from "@a2a-js/sdk";
+
+import type { AttachmentConfig } from "../config/types.js";
+import { isHostAllowed } from "../utils/hosts.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child("attachments");
+
+/** Directory (relative to the workspace) used when `storeInWorkspace` is set. */
+export const WORKSPACE_ATTACHMENT_DIR = ".a2a-attachments";
+
+const DEFAULT_MIME_TYPES = ["text/*", "application/json", "application/pdf", "image/*"];
+const FETCH_TIMEOUT_MS = 30_000;
+const MAX_REDIRECTS = 5;
+
+/** Raised when an inbound part cannot be accepted. */
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+/** A file handed to the Copilot session. */
+export interface FileAttachment {
+  type: "file";
+  path: string;
+  displayName?: string;
+}
+
+/** Prompt and attachments for one Copilot turn. */
+export interface PreparedInput {
+  prompt: string;
+  attachments: FileAttachment[];
+  /** Remove materialized files (no-op when they are kept in the workspace). */
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Build the prompt and attachments for `message`.
+ *
+ * @param workspaceDirectory  Required when `config.storeInWorkspace` is set
+ */
+export async function prepareInput(
+  message: A2AMessage,
+  taskId: string,
+  config: AttachmentConfig = {},
+  workspaceDirectory?: string,
+): Promise<PreparedInput> {
+  const sections: string[] = [];
+  const files: Array<{ name: string; mimeType: string; bytes: Buffer }> = [];
+  const maxFileSize = config.maxFileSize ?? 10_485_760;
+  const maxTotalSize = config.maxTotalSize ?? 26_214_400;
+  let totalSize = 0;
+
+  for (const part of message.parts) {
+    if (part.kind === "text") {
+      sections.push(part.text);
+    } else if (part.kind === "data") {
+      sections.push("```json\n" + JSON.stringify(part.data, null, 2) + "\n```");
+    } else if (part.kind === "file") {
+      if (config.enabled === false) {
+        throw new AttachmentError("File parts are not accepted by this agent");
+      }
+      const file = await readFilePart(part, config, maxFileSize);
+      totalSize += file.bytes.length;
+      if (totalSize > maxTotalSize) {
+        throw new AttachmentError(
+          `Attachments exceed the total size limit of ${maxTotalSize} bytes`,
+        );
+      }
+      files.push(file);
+    }
+  }
+
+  let prompt = sections.join("\n");
+  if (files.length === 0) {
+    return { prompt, attachments: [], cleanup: async () => {} };
+  }
+
+  const keep = !!config.storeInWorkspace && !!workspaceDirectory;
+  const dir = keep
+    ? resolve(workspaceDirectory!, WORKSPACE_ATTACHMENT_DIR, safeSegment(taskId))
+    : join(tmpdir(), "a2a-copilot", safeSegment(taskId));
+  await mkdir(dir, { recursive: true });
+
+  const attachments: FileAttachment[] = [];
+  const used = new Set<string>();
+  for (const file of files) {
+    const name = uniqueName(file.name, used);
+    const path = join(dir, name);
+    await writeFile(path, file.bytes);
+    attachments.push({ type: "file", path, displayName: file.name });
+  }
+  log.info("Attachments materialized", {
+    taskId,
+    dir,
+    files: attachments.length,
+    bytes: totalSize,
+  });
+
+  if (!prompt.trim()) {
+    prompt = attachments.length === 1 ? "See the attached file." : "See the attached files.";
+  }
+
+  return {
+    prompt,
+    attachments,
+    cleanup: keep
+      ? async () => {}
+      : async () => {
+          await rm(dir, { recursive: true, force: true }).catch((e) =>
+            log.warn("Attachment cleanup failed", { dir, error: (e as Error).message }),
+          );
+        },
+  };
+}
+
+/**
+ * MIME types to advertise in the agent card's `defaultInputModes`, given
+ * the configured ones.
+ */
+export function acceptedInputModes(configured: string[], config: AttachmentConfig = {}): string[] {
+  const modes = new Set(configured);
+  modes.add("application/json");
+  if (config.enabled !== false) {
+    for (const mime of config.allowedMimeTypes ?? DEFAULT_MIME_TYPES) modes.add(mime);
+  }
+  return [...modes];
+}
+
+/** True when `mimeType` matches one of `patterns` ("type/*" wildcards allowed). */
+export function isMimeAllowed(mimeType: string, patterns: string[]): boolean {
+  const mime = normalizeMime(mimeType);
+  return patterns.some((p) => {
+    const pattern = normalizeMime(p);
+    if (pattern === "*/*" || pattern === "*") return true;
+    if (pattern.endsWith("/*")) return mime.startsWith(pattern.slice(0, -1));
+    return mime === pattern;
+  });
+}
+
+// ── Internals ─────────────────────────────────────────────────────────────
+
+type FilePart = Extract<Part, { kind: "file" }>;
+
+async function readFilePart(
+  part: FilePart,
+  config: AttachmentConfig,
+  maxFileSize: number,
+): Promise<{ name: string; mimeType: string; bytes: Buffer }> {
+  const file = part.file;
+  const mimeType = file.mimeType || "application/octet-stream";
+  const allowed = config.allowedMimeTypes ?? DEFAULT_MIME_TYPES;
+  if (!isMimeAllowed(mimeType, allowed)) {
+    throw new AttachmentError(
+      `File type ${mimeType} is not accepted (allowed: ${allowed.join(", ")})`,
+    );
+  }
+
+  let bytes: Buffer;
+  let name = file.name;
+  if ("bytes" in file && typeof file.bytes === "string") {
+    // base64 decodes to ~3/4 of its length — reject before decoding huge payloads
+    if (Math.floor((file.bytes.length * 3) / 4) > maxFileSize + 2) {
+      throw tooLarge(name ?? "file", maxFileSize);
+    }
+    bytes = Buffer.from(file.bytes, "base64");
+  } else if ("uri" in file && typeof file.uri === "string") {
+    bytes = await fetchUri(file.uri, config, maxFileSize);
+    name ??= basename(new URL(file.uri).pathname) || undefined;
+  } else {
+    throw new AttachmentError("File part has neither bytes nor uri");
+  }
+
+  if (bytes.length > maxFileSize) throw tooLarge(name ?? "file", maxFileSize);
+  return { name: sanitizeName(name, mimeType), mimeType, bytes };
+}
+
+async function fetchUri(uri: string, config: AttachmentConfig, maxFileSize: number): Promise<Buffer> {
+  let url = fetchTarget(uri);
+  if (!config.fetchUris) {
+    throw new AttachmentError("File parts by URI are not accepted; send the bytes inline");
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      checkHost(url, config.allowedHosts ?? []);
+      response = await fetch(url, { signal: controller.signal, redirect: "manual" });
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      if (redirects === MAX_REDIRECTS) {
+        throw new AttachmentError(`Fetching ${uri} failed: more than ${MAX_REDIRECTS} redirects`);
+      }
+      url = fetchTarget(new URL(location, url).href);
+    }
+    if (!response.ok) {
+      throw new AttachmentError(`Fetching ${uri} failed: HTTP ${response.status}`);
+    }
+    const declared = Number(response.headers.get("content-length"));
+    if (declared > maxFileSize) throw tooLarge(uri, maxFileSize);
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      size += chunk.length;
+      if (size > maxFileSize) {
+        controller.abort();
+        throw tooLarge(uri, maxFileSize);
+      }
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  } catch (e) {
+    if (e instanceof AttachmentError) throw e;
+    const msg = controller.signal.aborted
+      ? `timed out after ${FETCH_TIMEOUT_MS}ms`
+      : (e as Error).message;
+    throw new AttachmentError(`Fetching ${uri} failed: ${msg}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Parse a file URI (or redirect target), accepting only http(s). */
+function fetchTarget(uri: string): URL {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new AttachmentError(`Invalid file URI: ${uri}`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new AttachmentError(`File URI must use http or https: ${uri}`);
+  }
+  return url;
+}
+
+function checkHost(url: URL, allowedHosts: string[]): void {
+  if (!isHostAllowed(url.hostname, allowedHosts)) {
+    log.warn("Refused file URI host", { host: url.hostname });
+    throw new AttachmentError(`File URI host is not allowed: ${url.hostname}`);
+  }
+}
+
+function tooLarge(name: string, limit: number): AttachmentError {
+  return new AttachmentError(`${name} exceeds the per-file size limit of ${limit} bytes`);
+}
+
+function normalizeMime(mime: string): string {
+  return mime.split(";")[0].trim().toLowerCase();
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "text/plain": ".txt",
+  "text/markdown": ".md",
+  "text/csv": ".csv",
+  "application/json": ".json",
+  "application/pdf": ".pdf",
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+};
+
+/** Strip path components and unsafe characters; invent a name if none given. */
+function sanitizeName(name: string | undefined, mimeType: string): string {
+  const cleaned = basename((name ?? "").replace(/\\/g, "/"))
+    .replace(/[^\w.\- ]/g, "_")
+    .replace(/^\.+/, "")
+    .slice(0, 200);
+  if (cleaned) return cleaned;
+  return `attachment${EXTENSIONS[normalizeMime(mimeType)] ?? ""}`;
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  const ext = extname(name);
+  const stem = name.slice(0, name.length - ext.length);
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    candidate = `${stem}-${i}${ext}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function safeSegment(value: string): string {
+  return value.replace(/[^\w.-]/g, "_").replace(/^\.+/, "_");
+}
@@ -0,0 +1,82 @@
+/**
+ * Compaction — Keeping Long-Lived Context Sessions Within Model Limits
+ *
+ * With `reuseByContext`, one Copilot session can collect hours of turns
+ * until the model's context window overflows and turns start failing.
+ * `trackConversationSize` keeps an approximate token count per session: the
+ * CLI's own `session.usage_info` figure when it reports one, otherwise ~4
+ * characters per token of the messages and tool results seen.
+ *
+ * Past `session.compaction.threshold`, the session manager asks the model
+ * for a summary of the conversation, opens a new session whose system
+ * message carries that summary, and swaps it in under the same contextId.
+ */
+
+/** Rough characters per token, for sessions that report no token counts. */
+const CHARS_PER_TOKEN = 4;
+
+export const DEFAULT_SUMMARY_PROMPT = [
+  "Summarize our conversation so far so that it can continue in a new session that cannot see it.",
+  "Keep the user's goals, decisions made, open questions, constraints, and any names, identifiers,",
+  "file paths and values that later turns may rely on. Leave out pleasantries and tool output that",
+  "is no longer relevant. Do not use any tools. Reply with the summary only.",
+].join(" ");
+
+/** What a compaction did — published as the `trace.compaction` artifact. */
+export interface CompactionReport {
+  contextId: string;
+  outcome: "compacted" | "failed";
+  /** The session that was summarized */
+  previousSessionId: string;
+  /** The session now serving the context (unchanged when compaction failed) */
+  sessionId: string;
+  /** Approximate conversation size that triggered compaction */
+  tokensBefore: number;
+  /** Approximate size of the summary the new session starts with */
+  summaryTokens: number;
+  threshold: number;
+  durationMs: number;
+  error?: string;
+}
+
+/** Something that carries a session's approximate size. */
+export interface ConversationSize {
+  approxTokens: number;
+}
+
+/**
+ * Keep `size.approxTokens` up to date from the session's events.
+ * Returns a function that stops tracking.
+ */
+export function trackConversationSize(session: any, size: ConversationSize): () => void {
+  if (typeof session?.on !== "function") return () => {};
+  const grow = (text: unknown) => {
+    if (typeof text === "string") size.approxTokens += Math.ceil(text.length / CHARS_PER_TOKEN);
+  };
+  const unsubscribers: (() => void)[] = [
+    session.on("session.usage_info", (event: any) => {
+      if (typeof event.data?.currentTokens === "number") size.approxTokens = event.data.currentTokens;
+    }),
+    session.on("user.message", (event: any) => grow(event.data?.content)),
+    session.on("assistant.message", (event: any) => grow(event.data?.content)),
+    session.on("tool.execution_complete", (event: any) => grow(event.data?.result?.content)),
+  ];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
+
+/** Approximate tokens of `text`. */
+export function approxTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** System message addition that seeds a compacted session with its summary. */
+export function seedInstructions(summary: string): string {
+  return [
+    "This conversation continues an earlier session whose turns were compacted into the summary below.",
+    "Treat it as what has already been said and done; do not mention the compaction.",
+    "",
+    "<conversation-summary>",
+    summary.trim(),
+    "</conversation-summary>",
+  ].join("\n");
+}
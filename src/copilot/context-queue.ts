@@ -0,0 +1,129 @@
+/**
+ * Context Queue — Serialized Turns per A2A contextId
+ *
+ * A Copilot session can only run one turn at a time: overlapping `send()`
+ * calls interleave their deltas and both resolve on the first
+ * `session.idle`. This queue gives each contextId a single running slot
+ * and a FIFO of waiting tasks.
+ */
+
+import { logger } from "../utils/logger.js";
+
+const log = logger.child("context-queue");
+
+/** Raised when a context's wait queue is already at its depth limit. */
+export class ContextQueueFullError extends Error {
+  constructor(
+    readonly contextId: string,
+    readonly runningTaskId: string,
+    readonly depth: number,
+  ) {
+    super(
+      `Context ${contextId} is busy with task ${runningTaskId} and ${depth} task(s) already waiting; ` +
+      "retry once they complete",
+    );
+    this.name = "ContextQueueFullError";
+  }
+}
+
+/** A task's place in a context's lane. */
+export interface QueueTicket {
+  /** Tasks ahead of this one when it entered (0 = runs immediately) */
+  readonly position: number;
+  /** Resolves when this task holds the context's running slot */
+  readonly ready: Promise<void>;
+  /** Release the slot (or withdraw from the queue). Idempotent. */
+  leave(): void;
+}
+
+interface Waiter {
+  taskId: string;
+  start: () => void;
+  onAdvance?: (position: number, runningTaskId: string) => void;
+}
+
+interface Lane {
+  runningTaskId: string;
+  waiting: Waiter[];
+}
+
+export class ContextQueue {
+  private readonly lanes = new Map<string, Lane>();
+
+  /** True when a task currently holds the context's running slot. */
+  isBusy(contextId: string): boolean {
+    return this.lanes.has(contextId);
+  }
+
+  /** TaskId currently running on a context, if any. */
+  runningTask(contextId: string): string | undefined {
+    return this.lanes.get(contextId)?.runningTaskId;
+  }
+
+  /**
+   * Enter the lane for `contextId`. Runs immediately if the context is idle,
+   * otherwise waits behind earlier tasks. Throws `ContextQueueFullError`
+   * when `maxDepth` tasks are already waiting.
+   *
+   * @param onAdvance  Called when the task moves up the queue while waiting
+   */
+  enter(
+    contextId: string,
+    taskId: string,
+    maxDepth: number,
+    onAdvance?: (position: number, runningTaskId: string) => void,
+  ): QueueTicket {
+    const lane = this.lanes.get(contextId);
+    if (!lane) {
+      this.lanes.set(contextId, { runningTaskId: taskId, waiting: [] });
+      return { position: 0, ready: Promise.resolve(), leave: this.leaver(contextId, taskId) };
+    }
+
+    if (lane.waiting.length >= maxDepth) {
+      throw new ContextQueueFullError(contextId, lane.runningTaskId, lane.waiting.length);
+    }
+
+    let start!: () => void;
+    const ready = new Promise<void>((resolve) => { start = resolve; });
+    lane.waiting.push({ taskId, start, onAdvance });
+    const position = lane.waiting.length;
+    log.info("Task queued behind running turn", {
+      contextId,
+      taskId,
+      runningTaskId: lane.runningTaskId,
+      position,
+    });
+    return { position, ready, leave: this.leaver(contextId, taskId) };
+  }
+
+  private leaver(contextId: string, taskId: string): () => void {
+    let left = false;
+    return () => {
+      if (left) return;
+      left = true;
+      const lane = this.lanes.get(contextId);
+      if (!lane) return;
+
+      if (lane.runningTaskId !== taskId) {
+        // Withdrawn while still waiting (e.g. canceled)
+        lane.waiting = lane.waiting.filter((w) => w.taskId !== taskId);
+        this.notifyPositions(lane);
+        return;
+      }
+
+      const next = lane.waiting.shift();
+      if (!next) {
+        this.lanes.delete(contextId);
+        return;
+      }
+      lane.runningTaskId = next.taskId;
+      log.debug("Context slot handed over", { contextId, from: taskId, to: next.taskId });
+      next.start();
+      this.notifyPositions(lane);
+    };
+  }
+
+  private notifyPositions(lane: Lane): void {
+    lane.waiting.forEach((w, i) => w.onAdvance?.(i + 1, lane.runningTaskId));
+  }
+}
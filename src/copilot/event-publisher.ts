@@ -6,12 +6,96 @@
  */
 
 import type {
+  FilePart,
   TaskStatusUpdateEvent,
   TaskArtifactUpdateEvent,
 } from "@a2a-js/sdk";
-import type { ExecutionEventBus } from "@a2a-js/sdk/server";
+import { DefaultExecutionEventBus, ResultManager, type ExecutionEventBus, type TaskStore } from "@a2a-js/sdk/server";
 import { v4 as uuidv4 } from "uuid";
 
+// ─── Bus Gating ─────────────────────────────────────────────────────────────
+
+/**
+ * Wrap a bus so `publish` / `finished` become no-ops once `isOpen()` returns
+ * false. Lets a canceled task's late events (deltas, tool traces, a
+ * `completed` status) be dropped without threading checks through every
+ * listener. Listener registration is delegated unchanged.
+ */
+export function gateBus(bus: ExecutionEventBus, isOpen: () => boolean): ExecutionEventBus {
+  const gated: ExecutionEventBus = {
+    publish: (event) => {
+      if (isOpen()) bus.publish(event);
+    },
+    finished: () => {
+      if (isOpen()) bus.finished();
+    },
+    on: (name, listener) => (bus.on(name, listener), gated),
+    off: (name, listener) => (bus.off(name, listener), gated),
+    once: (name, listener) => (bus.once(name, listener), gated),
+    removeAllListeners: (name) => (bus.removeAllListeners(name), gated),
+  };
+  return gated;
+}
+
+/** Wrap a bus so `onFinal` sees the state of every final status update. */
+export function observeFinalState(
+  bus: ExecutionEventBus,
+  onFinal: (state: string) => void,
+): ExecutionEventBus {
+  const observed: ExecutionEventBus = {
+    publish: (event) => {
+      if (event.kind === "status-update" && event.final) onFinal(event.status.state);
+      bus.publish(event);
+    },
+    finished: () => bus.finished(),
+    on: (name, listener) => (bus.on(name, listener), observed),
+    off: (name, listener) => (bus.off(name, listener), observed),
+    once: (name, listener) => (bus.once(name, listener), observed),
+    removeAllListeners: (name) => (bus.removeAllListeners(name), observed),
+  };
+  return observed;
+}
+
+/** A bus whose target can be swapped while publishers hold on to it. */
+export interface RelayBus {
+  bus: ExecutionEventBus;
+  redirect(next: ExecutionEventBus): void;
+}
+
+/**
+ * Forward to `initial` until `redirect` is called. A task that pauses in
+ * `input-required` outlives the request that started it; when the caller
+ * replies, the relay points the still-running turn at the new request's bus.
+ */
+export function relayBus(initial: ExecutionEventBus): RelayBus {
+  let target = initial;
+  const relay: ExecutionEventBus = {
+    publish: (event) => target.publish(event),
+    finished: () => target.finished(),
+    on: (name, listener) => (target.on(name, listener), relay),
+    off: (name, listener) => (target.off(name, listener), relay),
+    once: (name, listener) => (target.once(name, listener), relay),
+    removeAllListeners: (name) => (target.removeAllListeners(name), relay),
+  };
+  return { bus: relay, redirect: (next) => { target = next; } };
+}
+
+/**
+ * A bus that writes its events to `store`, in order. For a task whose
+ * request has already finished — it paused in `input-required`, so the SDK
+ * no longer listens for its events — and that still has to report an
+ * outcome.
+ */
+export function storeBus(store: TaskStore, onError: (error: Error) => void): ExecutionEventBus {
+  const bus = new DefaultExecutionEventBus();
+  const results = new ResultManager(store);
+  let written = Promise.resolve();
+  bus.on("event", (event) => {
+    written = written.then(() => results.processEvent(event)).catch(onError);
+  });
+  return bus;
+}
+
 // ─── Status Updates ─────────────────────────────────────────────────────────
 
 /** Publish a task status-update event. */
@@ -19,7 +103,7 @@ export function publishStatus(
   bus: ExecutionEventBus,
   taskId: string,
   contextId: string,
-  state: "working" | "failed" | "completed" | "canceled",
+  state: "submitted" | "working" | "failed" | "completed" | "canceled" | "rejected",
   messageText?: string,
   final = false,
 ): void {
@@ -47,6 +131,41 @@ export function publishStatus(
   bus.publish(event);
 }
 
+/**
+ * Publish a final `input-required` status. The message carries the prompt
+ * for the caller as text and the structured request as a DataPart.
+ */
+export function publishInputRequired(
+  bus: ExecutionEventBus,
+  taskId: string,
+  contextId: string,
+  text: string,
+  data: Record<string, unknown>,
+): void {
+  const event: TaskStatusUpdateEvent = {
+    kind: "status-update",
+    taskId,
+    contextId,
+    status: {
+      state: "input-required",
+      timestamp: new Date().toISOString(),
+      message: {
+        kind: "message",
+        messageId: uuidv4(),
+        role: "agent",
+        parts: [
+          { kind: "text", text },
+          { kind: "data", data },
+        ],
+        taskId,
+        contextId,
+      },
+    },
+    final: true,
+  };
+  bus.publish(event);
+}
+
 // ─── Artifact Updates ───────────────────────────────────────────────────────
 
 /**
@@ -124,6 +243,63 @@ export function publishLastChunkMarker(
   bus.publish(event);
 }
 
+/**
+ * Publish a file produced by the task (FilePart — inline bytes or URI).
+ *
+ * @param path  Workspace-relative path, used as the artifact name
+ */
+export function publishFileArtifact(
+  bus: ExecutionEventBus,
+  taskId: string,
+  contextId: string,
+  path: string,
+  part: FilePart,
+  size: number,
+): void {
+  const event: TaskArtifactUpdateEvent = {
+    kind: "artifact-update",
+    taskId,
+    contextId,
+    append: false,
+    lastChunk: true,
+    artifact: {
+      artifactId: `file-${uuidv4()}`,
+      name: path,
+      parts: [part],
+      metadata: { path, size },
+    },
+  };
+  bus.publish(event);
+}
+
+/**
+ * Publish a structured answer as the `response` artifact (DataPart).
+ *
+ * @param metadata  Artifact metadata, e.g. which schema the data satisfies
+ */
+export function publishDataArtifact(
+  bus: ExecutionEventBus,
+  taskId: string,
+  contextId: string,
+  data: Record<string, unknown>,
+  metadata: Record<string, unknown>,
+): void {
+  const event: TaskArtifactUpdateEvent = {
+    kind: "artifact-update",
+    taskId,
+    contextId,
+    append: false,
+    lastChunk: true,
+    artifact: {
+      artifactId: `response-${uuidv4()}`,
+      name: "response",
+      parts: [{ kind: "data", data, metadata: { mimeType: "application/json" } }],
+      metadata,
+    },
+  };
+  bus.publish(event);
+}
+
 // ─── Sideband Trace Artifacts ───────────────────────────────────────────────
 //
 // Observability-only data carried within A2A TaskArtifactUpdateEvent.
@@ -135,6 +311,9 @@ export function publishLastChunkMarker(
 //   trace.mcp        — MCP tool call (request + response)         → DataPart
 //   trace.thought    — Agent reasoning / chain of thought          → TextPart
 //   trace.delegation — Sub-agent call (child task link)            → DataPart
+//   trace.retry      — Failed Copilot attempts, retries, fallbacks → DataPart
+//   trace.usage      — Tokens, duration and tool calls of a turn   → DataPart
+//   trace.compaction — A long session summarized into a new one   → DataPart
 // ────────────────────────────────────────────────────────────────────────────
 
 /**
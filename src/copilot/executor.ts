@@ -7,36 +7,194 @@
  */
 
 import type { Message as A2AMessage, Task } from "@a2a-js/sdk";
-import type { AgentExecutor, RequestContext, ExecutionEventBus } from "@a2a-js/sdk/server";
+import {
+  DefaultExecutionEventBus,
+  type AgentExecutor,
+  type RequestContext,
+  type ExecutionEventBus,
+  type TaskStore,
+} from "@a2a-js/sdk/server";
 import { CopilotClient } from "@github/copilot-sdk";
 import { v4 as uuidv4 } from "uuid";
 import { readFile as fsReadFile } from "node:fs/promises";
 import { join } from "node:path";
 
 import type { AgentConfig } from "../config/types.js";
-import { SessionManager } from "./session-manager.js";
-import { McpEvidenceHooks } from "./mcp-hooks.js";
+import { SessionManager, type SessionInfo, type TranscriptMessage } from "./session-manager.js";
+import { McpEvidenceHooks, type McpHooksContext } from "./mcp-hooks.js";
+import { ContextQueue, ContextQueueFullError, type QueueTicket } from "./context-queue.js";
+import { TaskQueue, TaskQueueFullError, TaskQueueTimeoutError, type TaskSlot } from "./task-queue.js";
+import { AttachmentError, prepareInput, type PreparedInput } from "./attachments.js";
+import { WorkspaceFileArtifacts } from "./file-artifacts.js";
+import { ToolPolicy } from "./tool-policy.js";
+import { buildMcpServers, mcpServerEntries } from "./mcp-servers.js";
+import { ModelSelectionError, resolveModelSelection, type ModelSelection } from "./model-selection.js";
+import { RetryPolicy, classifyFailure, type AttemptRecord } from "./retry-policy.js";
+import { UsageLedger, trackTurnUsage, usageTraceData, type TurnUsage } from "./usage.js";
+import { QuotaManager } from "./quotas.js";
+import { traceTurn } from "./turn-tracing.js";
+import { checkReadiness, type HealthReport } from "./health.js";
+import { buildTranscript, transcriptEntries, type ContextHistory, type Transcript } from "./rehydrate.js";
+import {
+  OutputSchemaError,
+  correctionPrompt,
+  parseStructuredOutput,
+  resolveOutputSchema,
+  schemaInstructions,
+  type StructuredResult,
+} from "./structured-output.js";
+import { InputBroker, describeInputRequest, type InputRequest, type InputRequester } from "./input-broker.js";
 import {
   publishStatus,
   publishFinalArtifact,
   publishStreamingChunk,
   publishLastChunkMarker,
   publishThoughtArtifact,
+  publishTraceArtifact,
+  publishFileArtifact,
+  publishDataArtifact,
+  publishInputRequired,
+  gateBus,
+  observeFinalState,
+  relayBus,
+  storeBus,
+  type RelayBus,
 } from "./event-publisher.js";
-import { createDeferred } from "../utils/deferred.js";
+import { createDeferred, createPausableTimer, sleep, type PausableTimer } from "../utils/deferred.js";
 import { logger } from "../utils/logger.js";
+import { metrics } from "../utils/metrics.js";
+import { parseTraceparent, type Span, type SpanContext, type Tracer } from "../utils/tracing.js";
+import { createTracer } from "../utils/trace-exporters.js";
 
 const log = logger.child("executor");
 
+const tasksTotal = metrics.counter("a2a_copilot_tasks_total", "Tasks by final state");
+const promptDuration = metrics.histogram("a2a_copilot_prompt_duration_seconds", "Duration of a Copilot turn");
+const timeToFirstToken = metrics.histogram(
+  "a2a_copilot_time_to_first_token_seconds",
+  "Time from sending a prompt to the first response text",
+);
+const contextBuilds = metrics.counter("a2a_copilot_context_builds_total", "Context builds by outcome");
+const contextBuildDuration = metrics.histogram("a2a_copilot_context_build_duration_seconds", "Duration of context builds");
+const sessionsRehydrated = metrics.counter(
+  "a2a_copilot_sessions_rehydrated_total",
+  "New sessions primed with the context's earlier conversation",
+);
+
+/** Longest delay setTimeout accepts — used where our own timer governs. */
+const MAX_TIMER_MS = 2_147_483_647;
+
+/** An execution in flight — tracked so `cancelTask` can interrupt it. */
+interface ActiveTask {
+  contextId: string;
+  /** Model overrides requested for the task (selects its session) */
+  selection: ModelSelection;
+  /** Copilot session running the turn (null until acquired) */
+  session: any | null;
+  /** `session` is a forked session of a busy context, not the context's own */
+  forked: boolean;
+  /** Set by cancelTask; gates all further publishing from `execute` */
+  canceled: boolean;
+  /** Why the task was stopped, when not canceled by request — reported as `failed` */
+  failure: string | null;
+  /** Wakes `execute` out of its wait for the turn to finish */
+  interrupt: () => void;
+  /** Bus of the request currently attached to the task (swapped on resume / cancel) */
+  relay: RelayBus;
+  /** Prompt timeout — paused while waiting for the caller */
+  timer: PausableTimer | null;
+  /** Settles when the latest input request is answered — the next one waits for it */
+  inputs: Promise<unknown>;
+  /** Turns sent so far, across retries and re-prompts */
+  turns: number;
+  /** Input + output tokens of the finished turns, for the task budget */
+  tokens: number;
+  /** Resolves once `execute` is done with the task */
+  done: Promise<void>;
+}
+
+/** What a turn needs to talk to its session and report progress. */
+interface TurnRun {
+  taskId: string;
+  contextId: string;
+  sessionId: string;
+  session: any;
+  active: ActiveTask;
+  bus: ExecutionEventBus;
+  /** Resolves when the task is interrupted (cancel, input timeout) */
+  interrupted: Promise<void>;
+  /** Model the session runs on, for usage accounting */
+  model: string;
+  /** Authenticated caller, for usage accounting */
+  caller: string | null;
+  /** The task's `a2a.execute` span — parent of the turn's spans */
+  span: Span;
+  /** Prompt timeout for the turn (default: `timeouts.prompt`) */
+  timeoutMs?: number;
+}
+
+/** Text produced by a turn so far. */
+interface TurnOutput {
+  text: string;
+  /** The prompt timeout (or an SDK timeout) ended the turn early */
+  timedOut: boolean;
+  /** Output was produced or a tool ran — a failure is no longer retried */
+  progressed: boolean;
+}
+
+/** A turn parked in `input-required`, waiting for the caller's reply. */
+interface PendingInput {
+  resolve: (reply: A2AMessage) => void;
+  reject: (error: Error) => void;
+}
+
 export class CopilotExecutor implements AgentExecutor {
   private readonly config: Required<AgentConfig>;
   private client: CopilotClient | null = null;
   private sessionManager: SessionManager | null = null;
   private mcpHooks: McpEvidenceHooks | null = null;
+  private inputBroker: InputBroker | null = null;
+  /** taskId → in-flight execution */
+  private readonly activeTasks = new Map<string, ActiveTask>();
+  /** taskId → turn waiting in input-required */
+  private readonly pendingInputs = new Map<string, PendingInput>();
+  /** One running turn per contextId */
+  private readonly contextQueue = new ContextQueue();
+  /** Global running-task and session limits */
+  private readonly taskQueue: TaskQueue;
   private initialized = false;
+  /** Detects and stores files written to the workspace during a task */
+  readonly fileArtifacts: WorkspaceFileArtifacts;
+  private readonly retryPolicy: RetryPolicy;
+  /** Token usage totals per context and caller */
+  readonly usage: UsageLedger;
+  /** Caller / context limits, checked by the server before messages reach `execute` */
+  readonly quotas: QuotaManager;
+  /** Spans for A2A requests, Copilot turns, tool calls and subagents */
+  readonly tracer: Tracer;
+  /** The server's task store: earlier tasks for rehydration, outcomes of parked tasks */
+  private taskStore: (TaskStore & ContextHistory) | null = null;
 
   constructor(config: Required<AgentConfig>) {
     this.config = config;
+    this.fileArtifacts = new WorkspaceFileArtifacts(
+      config.fileArtifacts ?? {},
+      config.copilot.workspaceDirectory,
+      config.server,
+    );
+    this.retryPolicy = new RetryPolicy(config.retry, config.copilot.fallbackModels);
+    this.usage = new UsageLedger(config.usage);
+    this.quotas = new QuotaManager(config.quotas);
+    this.tracer = createTracer(config.tracing ?? {}, {
+      serviceName: config.agentCard.name,
+      serviceVersion: config.agentCard.version,
+    });
+    this.taskQueue = new TaskQueue(
+      config.queue ?? {},
+      () => this.sessionManager?.openSessions ?? 0,
+      // Sessions of contexts with a running or queued task are never evicted
+      () => this.sessionManager?.evictIdle((contextId) => this.hasActiveTask(contextId)) ?? false,
+    );
   }
 
   // ── Lifecycle ───────────────────────────────────────────────────────────
@@ -81,20 +239,33 @@ export class CopilotExecutor implements AgentExecutor {
     }
     log.info("Copilot client started", { cliUrl: this.config.copilot.cliUrl || "(auto-managed)" });
 
-    this.mcpHooks = new McpEvidenceHooks();
+    this.inputBroker = new InputBroker(this.config.interaction);
+    this.mcpHooks = new McpEvidenceHooks({
+      policy: new ToolPolicy(
+        this.config.toolPolicy,
+        mcpServerEntries(this.config.mcp).map(([name]) => name),
+        this.config.copilot.workspaceDirectory,
+      ),
+      approver: (sessionId, toolName, args) => this.inputBroker!.approveTool(sessionId, toolName, args),
+    });
 
     // Session manager — pass hooks so all sessions capture MCP evidence
-    this.sessionManager = new SessionManager(this.client, this.config, this.mcpHooks);
+    // and can ask the caller for input
+    this.sessionManager = new SessionManager(this.client, this.config, this.mcpHooks, this.inputBroker);
+    this.sessionManager.onClose(() => this.taskQueue.pump());
+    await this.sessionManager.restore();
     this.sessionManager.startCleanup();
+    this.fileArtifacts.startPruning();
 
     this.initialized = true;
     log.info("Executor initialized", {
       model: this.config.copilot.model,
-      mcpServers: Object.keys(this.config.mcp || {}),
+      mcpServers: mcpServerEntries(this.config.mcp).map(([name]) => name),
     });
   }
 
   async shutdown(): Promise<void> {
+    this.fileArtifacts.stopPruning();
     if (this.sessionManager) {
       await this.sessionManager.shutdown();
       this.sessionManager = null;
@@ -104,9 +275,79 @@ export class CopilotExecutor implements AgentExecutor {
       this.client = null;
     }
     this.initialized = false;
+    await this.tracer.shutdown();
     log.info("Executor shut down");
   }
 
+  /**
+   * Read earlier tasks from `store` when rehydrating sessions (see
+   * `rehydrate.ts`), and record there the outcome of tasks stopped while
+   * parked in `input-required`.
+   */
+  useTaskStore(store: TaskStore & ContextHistory): this {
+    this.taskStore = store;
+    return this;
+  }
+
+  /** Probe the Copilot client, auth, MCP servers and workspace (see `health.ts`). */
+  checkReadiness(): Promise<HealthReport> {
+    return checkReadiness(this.client, this.config, this.config.health?.timeout ?? 5_000);
+  }
+
+  // ── Session Admin ───────────────────────────────────────────────────────
+
+  /** Open context sessions, and how many forked sessions are open besides. */
+  listSessions(): { sessions: SessionInfo[]; detached: number } {
+    return {
+      sessions: this.sessionManager?.list() ?? [],
+      detached: this.sessionManager?.detachedCount ?? 0,
+    };
+  }
+
+  /** A context session's conversation (see `SessionManager.transcript`). */
+  async sessionTranscript(sessionId: string, raw = false): Promise<TranscriptMessage[] | unknown[] | null> {
+    return (await this.sessionManager?.transcript(sessionId, raw)) ?? null;
+  }
+
+  /**
+   * Force-destroy a context session. Tasks running on it are stopped first
+   * and reported as `failed`. Returns their ids, or null when no such
+   * session is open.
+   */
+  async destroySession(sessionId: string): Promise<string[] | null> {
+    const manager = this.sessionManager;
+    if (!manager?.list().some((s) => s.sessionId === sessionId)) return null;
+    const stopped = await this.stopSessionTasks(
+      (id) => id === sessionId,
+      "Task stopped: its Copilot session was destroyed by an administrator.",
+    );
+    await manager.destroyById(sessionId);
+    return stopped;
+  }
+
+  /** Stop every task that holds a session, then destroy all context sessions. */
+  async flushSessions(): Promise<{ destroyed: number; stoppedTasks: string[] }> {
+    const stoppedTasks = await this.stopSessionTasks(
+      () => true,
+      "Task stopped: all Copilot sessions were flushed by an administrator.",
+    );
+    const destroyed = (await this.sessionManager?.flush()) ?? 0;
+    return { destroyed, stoppedTasks };
+  }
+
+  private async stopSessionTasks(matches: (sessionId: string) => boolean, reason: string): Promise<string[]> {
+    const stopped: string[] = [];
+    for (const [taskId, active] of this.activeTasks) {
+      const sessionId = this.sessionManager?.getSessionForTask(taskId);
+      if (!sessionId || !matches(sessionId) || active.canceled) continue;
+      active.failure = reason;
+      stopped.push(taskId);
+      log.warn("Stopping task for session admin request", { taskId, sessionId });
+      await this.interruptTask(taskId, active, new Error(reason));
+    }
+    return stopped;
+  }
+
   // ── Context Build ───────────────────────────────────────────────────────
 
   /**
@@ -126,46 +367,36 @@ export class CopilotExecutor implements AgentExecutor {
     // Create a dedicated session for context building
     const opts: Record<string, unknown> = {};
     if (copilotCfg.model) opts.model = copilotCfg.model;
+    if (copilotCfg.reasoningEffort) opts.reasoningEffort = copilotCfg.reasoningEffort;
 
     // Include MCP servers for tool access during context building
-    const mcpCfg = this.config.mcp;
-    if (mcpCfg && Object.keys(mcpCfg).length > 0) {
-      const mcpServers: Record<string, unknown> = {};
-      for (const [name, serverCfg] of Object.entries(mcpCfg)) {
-        if ("enabled" in serverCfg && serverCfg.enabled === false) continue;
-        if (serverCfg.type === "http") {
-          mcpServers[name] = { type: "http", url: serverCfg.url, tools: ["*"] };
-        } else if (serverCfg.type === "sse") {
-          mcpServers[name] = { type: "sse", url: serverCfg.url, tools: ["*"] };
-        } else if (serverCfg.type === "stdio") {
-          mcpServers[name] = {
-            type: "stdio",
-            command: serverCfg.command,
-            args: serverCfg.args ?? [],
-            tools: ["*"],
-            ...(serverCfg.env ? { env: serverCfg.env } : {}),
-          };
-        }
-      }
-      if (Object.keys(mcpServers).length > 0) {
-        opts.mcpServers = mcpServers;
-      }
+    const mcpServers = buildMcpServers(this.config.mcp);
+    if (mcpServers) {
+      opts.mcpServers = mcpServers;
     }
 
-    const session = await (this.client as any).createSession(opts);
-    const sessionId = session.sessionId ?? "context-build";
+    const endTimer = contextBuildDuration.startTimer();
+    let outcome = "error";
+    try {
+      const session = await (this.client as any).createSession(opts);
+      const sessionId = session.sessionId ?? "context-build";
 
-    log.info("Building context", { sessionId, contextFile });
+      log.info("Building context", { sessionId, contextFile });
 
-    const fullPrompt = contextPrompt;
+      const fullPrompt = contextPrompt;
 
-    const response = await session.sendAndWait({ prompt: fullPrompt });
-    const responseText = response?.data?.content ?? "";
+      const response = await session.sendAndWait({ prompt: fullPrompt });
+      const responseText = response?.data?.content ?? "";
 
-    await session.destroy();
+      await session.destroy();
 
-    log.info("Context build complete", { sessionId, responseLen: responseText.length });
-    return responseText;
+      log.info("Context build complete", { sessionId, responseLen: responseText.length });
+      outcome = "success";
+      return responseText;
+    } finally {
+      contextBuilds.inc({ outcome });
+      endTimer({ outcome });
+    }
   }
 
   /**
@@ -192,27 +423,88 @@ export class CopilotExecutor implements AgentExecutor {
 
   // ── Execute ─────────────────────────────────────────────────────────────
 
-  async execute(ctx: RequestContext, bus: ExecutionEventBus): Promise<void> {
+  async execute(ctx: RequestContext, requestBus: ExecutionEventBus): Promise<void> {
     const { taskId, contextId, userMessage, task } = ctx;
-    await this.initialize();
-
-    // Extract trace context from A2A request metadata (injected by orchestrator)
+    // Trace context from the HTTP request (traceparent header) or A2A metadata
     const traceCtx = this.extractTraceContext(ctx);
-    const agentId = this.config.agentCard.name.toLowerCase().replace(/\s+/g, "-");
-    const agentName = this.config.agentCard.name;
+    const requestSpan = this.tracer.active();
+    const remote = traceCtx.parent && !requestSpan?.parentSpanId;
+    const span = this.tracer.startSpan("a2a.execute", {
+      parent: remote ? traceCtx.parent : requestSpan ?? null,
+      kind: remote || !requestSpan ? "server" : "internal",
+      attributes: {
+        "a2a.task.id": taskId,
+        "a2a.context.id": contextId,
+        "a2a.message.id": userMessage.messageId,
+        "a2a.parent_agent.id": traceCtx.parentAgentId,
+      },
+    });
+    const eventBus = observeFinalState(requestBus, (state) => {
+      tasksTotal.inc({ state });
+      span.setAttribute("a2a.task.state", state);
+      if (state === "failed") span.status = { ...span.status, code: "error" };
+    });
+    // Take over the concurrency slot the message was admitted with
+    const lease = this.quotas.claim(userMessage.messageId, taskId);
+    try {
+      await this.initialize();
+    } catch (e) {
+      lease.release();
+      span.fail(e).end();
+      throw e;
+    }
 
-    // Set MCP hooks context → trace artifacts flow via A2A sideband
-    if (this.mcpHooks) {
-      this.mcpHooks.setContext({
-        bus,
-        taskId,
-        contextId,
-        agentId,
-        agentName,
-        traceId: traceCtx.traceId,
-      });
+    // A reply to a task parked in input-required resumes its running turn
+    const pending = this.pendingInputs.get(taskId);
+    if (pending) {
+      lease.release();
+      span.setAttribute("a2a.input.reply", true);
+      try {
+        await this.resumeWithReply(taskId, userMessage, eventBus, pending);
+      } finally {
+        span.end();
+      }
+      return;
     }
 
+    // Register for cancellation. Everything below publishes through `bus`,
+    // which goes silent the moment the task is canceled.
+    const interrupted = createDeferred<void>();
+    const finished = createDeferred<void>();
+    const relay = relayBus(eventBus);
+    const active: ActiveTask = {
+      contextId,
+      selection: {},
+      session: null,
+      forked: false,
+      canceled: false,
+      failure: null,
+      interrupt: () => interrupted.resolve(),
+      relay,
+      timer: null,
+      inputs: Promise.resolve(),
+      turns: 0,
+      tokens: 0,
+      done: finished.promise,
+    };
+    this.activeTasks.set(taskId, active);
+    const bus = gateBus(relay.bus, () => !active.canceled);
+    let turn: TurnOutput = { text: "", timedOut: false, progressed: false };
+    const streamArtifactId = `response-${uuidv4()}`;
+
+    // Sideband artifacts carry the span's trace id when it belongs to a real trace
+    const traced = traceCtx.parent || requestSpan?.parentSpanId || span.context.sampled;
+    const traceId = traced ? span.context.traceId : traceCtx.traceId;
+    const agentId = this.config.agentCard.name.toLowerCase().replace(/\s+/g, "-");
+    const agentName = this.config.agentCard.name;
+    const caller = this.extractCaller(ctx);
+    let boundSessionId: string | null = null;
+    let ticket: QueueTicket | null = null;
+    let slot: TaskSlot | null = null;
+    let forkedSession: any = null;
+    let input: PreparedInput | null = null;
+    let requester: InputRequester | null = null;
+
     try {
       // 1. Submitted
       if (!task) {
@@ -225,216 +517,330 @@ export class CopilotExecutor implements AgentExecutor {
         } as unknown as Task);
       }
 
-      // 2. Working
-      publishStatus(bus, taskId, contextId, "working", "Processing request...");
+      // 2. The model the caller asked for, if allowed
+      const selection = resolveModelSelection(userMessage, task, this.config.copilot);
+      active.selection = selection;
 
-      // 3. Get or create Copilot session
-      const { sessionId, session, isNew } = await this.sessionManager!.getOrCreate(contextId);
-      this.sessionManager!.trackTask(taskId, sessionId);
-
-      // 4. Build prompt
-      let promptText = this.extractText(userMessage);
-
-      log.info("Sending prompt", { taskId, sessionId, len: promptText.length });
-
-      // 5. Execute — streaming or non-streaming
-      const copilotSession = session as any;
-      let accumulatedText = "";
-      let timedOut = false;
-      const streamArtifactId = `response-${uuidv4()}`;
-
-      if (this.config.copilot.streaming) {
-        // Streaming mode: listen for all relevant events
-        const { promise: done, resolve: resolveDone, reject: rejectDone } = createDeferred<void>();
-        const unsubs: (() => void)[] = [];
-
-        // ── Assistant message deltas (main response text) ──
-        unsubs.push(copilotSession.on("assistant.message_delta", (event: any) => {
-          const delta = event?.data?.deltaContent ?? "";
-          if (delta) {
-            accumulatedText += delta;
-            if (this.config.features.streamArtifactChunks) {
-              publishStreamingChunk(bus, taskId, contextId, streamArtifactId, delta);
+      // 3. Wait for our turn on this context's session. This comes before the
+      // global queue so tasks lined up behind a busy context hold no slot.
+      const concurrency = this.config.session.concurrency ?? "queue";
+      let fork = false;
+      if (this.config.session.reuseByContext && contextId) {
+        const runningTaskId = this.contextQueue.runningTask(contextId);
+        if (runningTaskId && concurrency === "reject") {
+          publishStatus(bus, taskId, contextId, "rejected",
+            `Another task (${runningTaskId}) is already running in this context. Retry once it completes.`, true);
+          bus.finished();
+          log.info("Task rejected — context busy", { taskId, contextId, runningTaskId });
+          return;
+        }
+        if (runningTaskId && concurrency === "fork") {
+          fork = true;
+          log.info("Context busy — forking a new session", { taskId, contextId, runningTaskId });
+        } else {
+          const maxDepth = this.config.session.maxQueueDepth ?? 10;
+          ticket = this.contextQueue.enter(contextId, taskId, maxDepth, (position, ahead) => {
+            publishStatus(bus, taskId, contextId, "working",
+              `Waiting for task ${ahead} to finish in this context (position ${position} in queue)...`);
+          });
+          if (ticket.position > 0) {
+            publishStatus(bus, taskId, contextId, "working",
+              `Waiting for task ${runningTaskId} to finish in this context (position ${ticket.position} in queue)...`);
+            await Promise.race([ticket.ready, interrupted.promise]);
+            if (active.canceled) {
+              this.finishInterrupted(active, taskId, contextId, "", streamArtifactId);
+              return;
             }
           }
-        }));
-
-        // ── Thinking / Reasoning deltas → emit as trace.thought sideband artifacts ──
-        let reasoningAccumulator = "";
-        unsubs.push(copilotSession.on("assistant.reasoning_delta", (event: any) => {
-          const delta = event?.data?.deltaContent ?? "";
-          if (delta) {
-            reasoningAccumulator += delta;
-            log.debug("Reasoning delta", { taskId, len: delta.length });
-          }
-        }));
-
-        // ── Final assistant message (safety net if deltas were empty) ──
-        unsubs.push(copilotSession.on("assistant.message", (event: any) => {
-          const content = event?.data?.content ?? "";
-          if (content && !accumulatedText) {
-            // Only use if we didn't get anything from deltas
-            accumulatedText = content;
-          }
-        }));
-
-        // ── Reasoning complete → publish accumulated thought as trace artifact ──
-        unsubs.push(copilotSession.on("assistant.reasoning", (event: any) => {
-          const content = event?.data?.content ?? reasoningAccumulator;
-          if (content) {
-            log.debug("Reasoning complete", { taskId, len: content.length });
-            publishThoughtArtifact(bus, taskId, contextId, "trace.thought", content);
-            reasoningAccumulator = "";
-          }
-        }));
-
-        // ── Intent classification ──
-        unsubs.push(copilotSession.on("assistant.intent", (event: any) => {
-          const intent = event?.data?.intent ?? "";
-          if (intent) {
-            log.debug("Intent", { taskId, intent });
-            publishStatus(bus, taskId, contextId, "working", `Intent: ${intent}`);
+        }
+      }
+
+      // 4. Wait for a free execution slot (global task / session limits)
+      slot = this.taskQueue.enter(taskId, {
+        priority: taskPriority(userMessage, task),
+        needsSession: () =>
+          fork || !this.config.session.reuseByContext || !this.sessionManager!.getSessionForContext(contextId, selection),
+        onAdvance: (position, waiting) => {
+          publishStatus(bus, taskId, contextId, "submitted", queuedMessage(position, waiting));
+        },
+      });
+      if (slot.position > 0) {
+        publishStatus(bus, taskId, contextId, "submitted", queuedMessage(slot.position, this.taskQueue.queued));
+        await Promise.race([slot.ready, interrupted.promise]);
+        if (active.canceled) {
+          this.finishInterrupted(active, taskId, contextId, "", streamArtifactId);
+          return;
+        }
+      }
+      publishStatus(bus, taskId, contextId, "working", "Processing request...");
+
+      // 5. Build prompt + attachments, with instructions for a structured answer
+      const outputSchema = resolveOutputSchema(
+        userMessage,
+        this.config.agentCard.skills ?? [],
+        this.config.structuredOutput,
+      );
+      input = await prepareInput(
+        userMessage,
+        taskId,
+        this.config.attachments,
+        this.config.copilot.workspaceDirectory,
+      );
+      const { attachments } = input;
+      const promptText = outputSchema ? input.prompt + schemaInstructions(outputSchema.schema) : input.prompt;
+      const message = attachments.length > 0 ? { prompt: promptText, attachments } : { prompt: promptText };
+
+      // Baseline for detecting files the turn writes
+      const workspaceBefore = await this.fileArtifacts.snapshot(taskId);
+
+      // 6. Run the turn. Transient Copilot failures are retried with backoff,
+      // then on each fallback model; failed attempts are traced as `trace.retry`.
+      const chain = this.retryPolicy.modelChain(selection, this.config.copilot.model);
+      const attemptLog: AttemptRecord[] = [];
+      const publishAttempts = () => {
+        if (attemptLog.some((a) => a.outcome === "error")) {
+          publishTraceArtifact(bus, taskId, contextId, "trace.retry", { attempts: attemptLog });
+        }
+      };
+      const streamChunks = this.config.features.streamArtifactChunks && !outputSchema;
+      const maxPrompts = outputSchema ? (this.config.structuredOutput.maxRetries ?? 2) + 1 : 1;
+      let answer: StructuredResult | null = null;
+      let prompts = 0;
+      let modelIndex = 0;
+      let modelAttempt = 0;
+
+      for (;;) {
+        const current = chain[modelIndex];
+        const model = current.model ?? this.config.copilot.model ?? "default";
+        const startedAt = Date.now();
+        modelAttempt++;
+
+        try {
+          // A context session past the size threshold is first summarized into a new one
+          if (!fork && this.sessionManager!.needsCompaction(contextId, current)) {
+            publishStatus(bus, taskId, contextId, "working",
+              "The conversation is getting long — summarizing it into a new session...");
+            active.selection = current;
+            const report = await this.sessionManager!.compact(contextId, current, (session, sessionId, prompt, timeoutMs) =>
+              this.summaryTurn(
+                { taskId, contextId, sessionId, session, active, bus, interrupted: interrupted.promise, model, caller, span, timeoutMs },
+                prompt,
+                { bus, taskId, contextId, agentId, agentName, traceId },
+              ),
+            );
+            if (report) publishTraceArtifact(bus, taskId, contextId, "trace.compaction", { ...report });
           }
-        }));
-
-        // ── Tool execution start ──
-        unsubs.push(copilotSession.on("tool.execution_start", (event: any) => {
-          const toolName = event?.data?.toolName ?? event?.data?.mcpToolName ?? "unknown";
-          log.info("Tool execution start", { taskId, toolName });
-          publishStatus(bus, taskId, contextId, "working", `Executing ${toolName}...`);
-        }));
-
-        // ── Tool execution progress ──
-        unsubs.push(copilotSession.on("tool.execution_progress", (event: any) => {
-          const msg = event?.data?.progressMessage ?? "";
-          if (msg) {
-            publishStatus(bus, taskId, contextId, "working", msg);
+
+          // Get or create the Copilot session for this model
+          const { sessionId, session, isNew, resumeError } = fork
+            ? await this.sessionManager!.createDetached(contextId, current)
+            : await this.sessionManager!.getOrCreate(contextId, current);
+          const primer = isNew ? await this.rehydrationTranscript(taskId, contextId) : null;
+          if (resumeError) {
+            publishStatus(bus, taskId, contextId, "working",
+              `The previous session for this context could not be resumed (${resumeError}) — ` +
+              (primer
+                ? "continuing in a new session primed with the earlier conversation."
+                : "continuing in a new session without the earlier conversation."));
+          } else if (primer) {
+            publishStatus(bus, taskId, contextId, "working",
+              `Restored ${primer.messages} earlier message(s) of this context into a new session...`);
           }
-        }));
-
-        // ── Tool execution complete ──
-        unsubs.push(copilotSession.on("tool.execution_complete", (event: any) => {
-          const toolCallId = event?.data?.toolCallId ?? "";
-          const success = event?.data?.success ?? true;
-          if (success) {
-            log.info("Tool execution complete", { taskId, toolCallId });
-            publishStatus(bus, taskId, contextId, "working", `Tool completed`);
-          } else {
-            const errMsg = event?.data?.error?.message ?? "Unknown error";
-            log.warn("Tool execution failed", { taskId, toolCallId, error: errMsg });
-            publishStatus(bus, taskId, contextId, "working", `Tool error: ${errMsg}`);
+          if (fork) forkedSession = session;
+          slot?.sessionOpened();
+          this.sessionManager!.trackTask(taskId, sessionId);
+          active.session = session;
+          active.forked = fork;
+          active.selection = current;
+
+          // Bind MCP hooks to this session → trace artifacts flow via A2A sideband
+          this.mcpHooks?.bindSession(sessionId, {
+            bus,
+            taskId,
+            contextId,
+            agentId,
+            agentName,
+            traceId,
+          });
+          requester = (request) => this.requestInput(taskId, contextId, active, bus, request);
+          this.inputBroker?.bindSession(sessionId, requester);
+          boundSessionId = sessionId;
+
+          if (active.canceled) {
+            this.finishInterrupted(active, taskId, contextId, "", streamArtifactId);
+            return;
           }
-        }));
-
-        // ── Subagent lifecycle ──
-        unsubs.push(copilotSession.on("subagent.started", (event: any) => {
-          const name = event?.data?.agentDisplayName ?? event?.data?.agentName ?? "subagent";
-          publishStatus(bus, taskId, contextId, "working", `Delegating to ${name}...`);
-        }));
-
-        unsubs.push(copilotSession.on("subagent.completed", (event: any) => {
-          const name = event?.data?.agentName ?? "subagent";
-          publishStatus(bus, taskId, contextId, "working", `${name} completed`);
-        }));
-
-        unsubs.push(copilotSession.on("subagent.failed", (event: any) => {
-          const name = event?.data?.agentName ?? "subagent";
-          const err = event?.data?.error ?? "Unknown error";
-          publishStatus(bus, taskId, contextId, "working", `${name} failed: ${err}`);
-        }));
-
-        // ── Session error ──
-        unsubs.push(copilotSession.on("session.error", (event: any) => {
-          const msg = event?.data?.message ?? "Session error";
-          // SDK may emit a timeout error from its internal sendAndWait —
-          // treat as graceful completion if we have any accumulated content
-          if (msg.toLowerCase().includes("timeout")) {
-            log.warn("SDK session timeout (treating as completion)", { taskId, error: msg, hasContent: !!accumulatedText });
-            timedOut = true;
-            resolveDone();
-          } else {
-            log.error("Session error", { taskId, error: msg });
-            rejectDone(new Error(msg));
+
+          log.info("Sending prompt", {
+            taskId,
+            sessionId,
+            caller,
+            len: promptText.length,
+            attachments: attachments.length,
+            ...current,
+            ...(outputSchema ? { outputSchema: outputSchema.source } : {}),
+          });
+
+          // 7. Execute — re-prompting until the answer matches the output schema
+          const run: TurnRun = {
+            taskId,
+            contextId,
+            sessionId,
+            session,
+            active,
+            bus,
+            interrupted: interrupted.promise,
+            model,
+            caller,
+            span,
+          };
+          let nextMessage: Record<string, unknown> = primer
+            ? { ...message, prompt: primer.text + message.prompt }
+            : message;
+          while (prompts < maxPrompts) {
+            prompts++;
+            turn = { text: "", timedOut: false, progressed: turn.progressed };
+            await this.runTurn(run, nextMessage, turn, streamChunks ? streamArtifactId : null);
+            if (active.canceled || !outputSchema || turn.timedOut) break;
+
+            answer = parseStructuredOutput(turn.text, outputSchema.schema);
+            if (answer.ok || prompts === maxPrompts) break;
+            log.info("Structured output invalid — retrying", { taskId, attempt: prompts, errors: answer.errors.length });
+            publishStatus(bus, taskId, contextId, "working",
+              `Response did not match the output schema — retrying (attempt ${prompts + 1} of ${maxPrompts})...`);
+            nextMessage = { prompt: correctionPrompt(answer.errors) };
           }
-        }));
 
-        // ── Session idle (completion signal) ──
-        unsubs.push(copilotSession.on("session.idle", () => {
-          resolveDone();
-        }));
+          attemptLog.push(attemptRecord(attemptLog.length + 1, current, model, startedAt, "success"));
+          break;
+        } catch (error) {
+          // Cancels and interaction timeouts are not Copilot failures
+          if (active.canceled) throw error;
 
-        // Set up timeout
-        const timeoutMs = this.config.timeouts.prompt ?? 600_000;
-        const timer = setTimeout(() => {
-          log.warn("Prompt timeout — resolving with partial content", { taskId, timeoutMs, hasContent: !!accumulatedText });
-          timedOut = true;
-          resolveDone(); // Resolve gracefully — return partial content
-        }, timeoutMs);
+          const failure = classifyFailure(error);
+          const record = attemptRecord(attemptLog.length + 1, current, model, startedAt, "error");
+          record.error = (error as Error).message ?? String(error);
+          record.failure = failure;
+          attemptLog.push(record);
 
-        try {
-          // Use send() (fire-and-forget) in streaming mode — we manage completion
-          // via session.idle event listener. sendAndWait has a 60s default timeout
-          // that's too short for tool-heavy interactions.
-          copilotSession.send({ prompt: promptText }).catch((e: Error) => {
-            // send() itself can fail (connection error etc) — don't reject on timeout
-            if (e.message?.toLowerCase().includes("timeout")) {
-              log.warn("send() timeout — resolving with partial content", { taskId });
-              timedOut = true;
-              resolveDone();
-            } else {
-              rejectDone(e);
-            }
-          });
+          // Once output was produced or tools ran, a retry would repeat work
+          const decision = turn.progressed
+            ? ({ action: "fail" } as const)
+            : this.retryPolicy.decide(failure, modelAttempt, modelIndex + 1 < chain.length);
+          log.warn("Copilot attempt failed", { taskId, model, attempt: record.attempt, failure, action: decision.action });
+          if (decision.action === "fail") {
+            publishAttempts();
+            throw error;
+          }
 
-          await done;
-        } finally {
-          clearTimeout(timer);
-          for (const unsub of unsubs) {
-            if (typeof unsub === "function") unsub();
+          this.releaseSession(taskId, boundSessionId, requester, forkedSession);
+          boundSessionId = null;
+          forkedSession = null;
+          prompts = 0;
+          if (decision.action === "retry") {
+            record.retry_in_ms = decision.delayMs;
+            publishStatus(bus, taskId, contextId, "working",
+              `Copilot request failed (${record.error}) — retrying in ${Math.ceil(decision.delayMs / 1000)}s ` +
+              `(attempt ${modelAttempt + 1} of ${this.retryPolicy.attemptsPerModel} on ${model})...`);
+            await Promise.race([sleep(decision.delayMs), interrupted.promise]);
+            if (active.canceled) {
+              publishAttempts();
+              this.finishInterrupted(active, taskId, contextId, "", streamArtifactId);
+              return;
+            }
+          } else {
+            modelIndex++;
+            modelAttempt = 0;
+            record.next_model = chain[modelIndex].model ?? this.config.copilot.model ?? "default";
+            publishStatus(bus, taskId, contextId, "working",
+              `Model ${model} failed (${record.error}) — falling back to ${record.next_model}...`);
           }
         }
+      }
+      publishAttempts();
 
-        // If we timed out but have content, append a note
-        if (timedOut && accumulatedText) {
-          accumulatedText += "\n\n---\n*Response truncated: processing time limit reached.*";
-        }
-      } else {
-        // Non-streaming: wait for complete response
-        const timeoutMs = this.config.timeouts.prompt ?? 600_000;
-        const timeout = new Promise<never>((_, rej) =>
-          setTimeout(() => rej(new Error(`Prompt timeout after ${timeoutMs}ms`)), timeoutMs),
-        );
+      if (active.canceled) {
+        this.finishInterrupted(active, taskId, contextId, turn.text, streamArtifactId);
+        return;
+      }
 
-        try {
-          const response = await Promise.race([
-            copilotSession.sendAndWait({ prompt: promptText }, timeoutMs),
-            timeout,
-          ]);
-          accumulatedText = (response as any)?.data?.content ?? "";
-        } catch (e) {
-          if (!(e as Error).message.includes("timeout")) throw e;
-          log.warn("Prompt timed out", { taskId, timeoutMs });
+      // 8. Finalize — files written during the turn, then the response
+      const files = await this.fileArtifacts.collect(taskId, workspaceBefore, caller);
+      if (!files) {
+        publishStatus(bus, taskId, contextId, "working",
+          "Workspace files were not published: other tasks changed the workspace at the same time.");
+      }
+      for (const file of files ?? []) {
+        publishFileArtifact(bus, taskId, contextId, file.path, file.part, file.size);
+      }
+
+      if (outputSchema) {
+        if (!answer?.ok) {
+          const reason = answer
+            ? `The response did not match the required output schema after ${prompts} attempt(s):\n` +
+              answer.errors.map((e) => `- ${e}`).join("\n")
+            : "The request timed out before a structured response was produced.";
+          log.warn("Structured output failed", { taskId, source: outputSchema.source, attempts: prompts });
+          publishStatus(bus, taskId, contextId, "failed", reason, true);
+          bus.finished();
+          return;
         }
+        const data = isRecord(answer.value) ? answer.value : { value: answer.value };
+        publishDataArtifact(bus, taskId, contextId, data, { schema: outputSchema.source, attempts: prompts });
+        publishStatus(bus, taskId, contextId, "completed", undefined, true);
+        bus.finished();
+        log.info("Task completed", { taskId, structured: outputSchema.source, attempts: prompts });
+        return;
       }
 
       // Fallback
-      if (!accumulatedText) {
-        accumulatedText = timedOut
+      if (!turn.text) {
+        turn.text = turn.timedOut
           ? "The request timed out before a response was produced."
           : "No text response was returned.";
       }
-
-      // 6. Finalize
       if (this.config.features.streamArtifactChunks) {
-        publishLastChunkMarker(bus, taskId, contextId, streamArtifactId, accumulatedText);
+        publishLastChunkMarker(bus, taskId, contextId, streamArtifactId, turn.text);
       } else {
-        publishFinalArtifact(bus, taskId, contextId, accumulatedText);
+        publishFinalArtifact(bus, taskId, contextId, turn.text);
       }
       publishStatus(bus, taskId, contextId, "completed", undefined, true);
       bus.finished();
-      log.info("Task completed", { taskId, len: accumulatedText.length });
+      log.info("Task completed", { taskId, len: turn.text.length });
 
     } catch (error) {
+      if (error instanceof ContextQueueFullError) {
+        log.warn("Task rejected — context queue full", { taskId, contextId });
+        publishStatus(bus, taskId, contextId, "rejected", error.message, true);
+        bus.finished();
+        return;
+      }
+      if (error instanceof TaskQueueFullError) {
+        log.warn("Task rejected — task queue full", { taskId, depth: error.depth });
+        publishStatus(bus, taskId, contextId, "rejected", error.message, true);
+        bus.finished();
+        return;
+      }
+      if (error instanceof TaskQueueTimeoutError) {
+        publishStatus(bus, taskId, contextId, "failed", `${error.message}. Retry later.`, true);
+        bus.finished();
+        return;
+      }
+      if (
+        error instanceof AttachmentError ||
+        error instanceof OutputSchemaError ||
+        error instanceof ModelSelectionError
+      ) {
+        log.warn("Task rejected — unacceptable input", { taskId, error: error.message });
+        publishStatus(bus, taskId, contextId, "rejected", error.message, true);
+        bus.finished();
+        return;
+      }
+      // Errors raised by the abort itself are expected — report the cancel
+      if (active.canceled) {
+        this.finishInterrupted(active, taskId, contextId, turn.text, streamArtifactId);
+        return;
+      }
       const msg = (error as Error).message ?? String(error);
       const isConnErr = msg.includes("ECONNREFUSED") || msg.includes("ENOTFOUND") || msg.includes("connect") || msg.includes("socket");
       const cliUrl = this.config.copilot.cliUrl;
@@ -442,31 +848,591 @@ export class CopilotExecutor implements AgentExecutor {
         ? `Cannot reach GitHub Copilot CLI server at ${cliUrl}. Is it running?`
         : `Error: ${msg}`;
       log.error("Execution failed", { taskId, error: msg });
+      span.fail(error);
       publishStatus(bus, taskId, contextId, "failed", userMsg, true);
       bus.finished();
     } finally {
+      this.activeTasks.delete(taskId);
+      this.pendingInputs.delete(taskId);
       this.sessionManager!.untrackTask(taskId);
-      this.mcpHooks?.clearContext();
+      this.fileArtifacts.release(taskId);
+      this.releaseSession(taskId, boundSessionId, requester, forkedSession);
+      ticket?.leave();
+      slot?.leave();
+      input?.cleanup();
+      lease.release();
+      span.end();
+      finished.resolve();
     }
   }
-  async cancelTask(taskId: string, bus: ExecutionEventBus): Promise<void> {
+
+  /**
+   * Cancel an in-flight task: abort the running Copilot turn (destroying the
+   * session if abort fails) and wake `execute`, which then publishes the
+   * partial output and the final `canceled` status.
+   */
+  async cancelTask(taskId: string, requestBus: ExecutionEventBus): Promise<void> {
     log.info("Cancel requested", { taskId });
-    // Copilot SDK doesn't expose a direct abort — destroy and recreate session
-    const sessionId = this.sessionManager?.getSessionForTask(taskId);
-    if (sessionId) {
-      log.info("Session will be cleaned up on next use", { taskId, sessionId });
+    const bus = observeFinalState(requestBus, (state) => tasksTotal.inc({ state }));
+    const active = this.activeTasks.get(taskId);
+    if (!active) {
+      // Not running here (already finished or never started) — just record it
+      publishStatus(bus, taskId, "", "canceled", undefined, true);
+      bus.finished();
+      return;
     }
-    publishStatus(bus, taskId, "", "canceled", undefined, true);
+    if (active.canceled) return;
+
+    // Report the outcome on the cancel request's bus
+    await this.interruptTask(taskId, active, new Error("Task canceled by request"), bus);
+  }
+
+  /**
+   * Stop a task parked in `input-required` whose cancel the task store has
+   * already recorded. Its request finished when it paused, so the SDK's
+   * `cancelTask` never reaches `cancelTask` above; the request handler calls
+   * this instead to release the turn, its session and its queue slots.
+   */
+  async cancelParkedTask(taskId: string): Promise<void> {
+    const active = this.activeTasks.get(taskId);
+    if (!active || active.canceled || !this.pendingInputs.has(taskId)) return;
+    log.info("Cancel requested for a task waiting for input", { taskId });
+    await this.interruptTask(taskId, active, new Error("Task canceled by request"));
+  }
+
+  // ── Turn ────────────────────────────────────────────────────────────────
+
+  /**
+   * Run one turn (see `sendTurn`) and account for its token usage, whether
+   * it completes or not: a `trace.usage` artifact, the usage ledger, the
+   * daily quotas, the latency metrics and the turn's spans. A turn that takes the task past
+   * `quotas.maxTaskTokens` is stopped as soon as the usage event arrives.
+   */
+  private async runTurn(
+    run: TurnRun,
+    message: Record<string, unknown>,
+    turn: TurnOutput,
+    streamArtifactId: string | null,
+  ): Promise<void> {
+    const { taskId, contextId, active, caller } = run;
+    const budget = this.quotas.maxTaskTokens;
+    const firstToken = timeToFirstToken.startTimer({ model: run.model });
+    let answered = false;
+    const onText = (event: any) => {
+      if (answered || !(event?.data?.deltaContent || event?.data?.content)) return;
+      answered = true;
+      firstToken();
+    };
+    const unsubs: unknown[] = [
+      run.session.on("assistant.message_delta", onText),
+      run.session.on("assistant.message", onText),
+    ];
+    const tracker = trackTurnUsage(run.session, run.model, (usage) => {
+      const used = active.tokens + tokenCount(usage);
+      if (budget > 0 && used > budget && !active.canceled) {
+        active.failure = `Task stopped: it used ${used} tokens, over its budget of ${budget}.`;
+        log.warn("Task token budget exceeded", { taskId, used, budget });
+        void this.interruptTask(taskId, active, new Error(active.failure));
+      }
+    });
+    const trace = traceTurn(this.tracer, run.session, run.span, {
+      "gen_ai.request.model": run.model,
+      "copilot.session.id": run.sessionId,
+      "copilot.turn.number": active.turns + 1,
+    });
+    let error: unknown;
+
+    try {
+      await this.sendTurn(run, message, turn, streamArtifactId);
+    } catch (e) {
+      error = e;
+      throw e;
+    } finally {
+      const usage = tracker.stop();
+      trace.span.setAttributes({
+        "gen_ai.response.model": usage.model,
+        "gen_ai.usage.input_tokens": usage.inputTokens,
+        "gen_ai.usage.output_tokens": usage.outputTokens,
+        "copilot.turn.timed_out": turn.timedOut,
+      });
+      trace.end(error);
+      for (const unsub of unsubs) {
+        if (typeof unsub === "function") unsub();
+      }
+      promptDuration.observe(usage.durationMs / 1000, { model: run.model });
+      active.tokens += tokenCount(usage);
+      active.turns++;
+      this.quotas.recordTokens(caller, contextId, tokenCount(usage));
+      if (this.config.usage.enabled !== false) {
+        this.usage.record(contextId, caller, usage);
+        // A task stopped over budget still reports what the turn used
+        const bus = active.failure ? active.relay.bus : run.bus;
+        publishTraceArtifact(bus, taskId, contextId, "trace.usage", usageTraceData(usage, caller, active.turns));
+      }
+    }
+  }
+
+  /**
+   * Run a compaction's summary prompt as a turn of the task, on the session
+   * being compacted: it is accounted like any other turn (usage, quotas,
+   * budget, spans), can be canceled, and can ask the caller for input. The
+   * answer is not published. Throws when the turn is stopped or times out.
+   */
+  private async summaryTurn(run: TurnRun, prompt: string, hooks: McpHooksContext): Promise<string> {
+    const { taskId, contextId, sessionId, active, bus } = run;
+    const ask: InputRequester = (request) => this.requestInput(taskId, contextId, active, bus, request);
+    active.session = run.session;
+    this.sessionManager!.trackTask(taskId, sessionId);
+    this.mcpHooks?.bindSession(sessionId, hooks);
+    this.inputBroker?.bindSession(sessionId, ask);
+    const turn: TurnOutput = { text: "", timedOut: false, progressed: false };
+    try {
+      await this.runTurn(run, { prompt }, turn, null);
+    } finally {
+      this.releaseSession(taskId, sessionId, ask, null);
+      active.session = null;
+    }
+    if (active.canceled) throw new Error("The task was stopped while summarizing");
+    if (turn.timedOut) throw new Error(`No summary within ${run.timeoutMs}ms`);
+    return turn.text;
+  }
+
+  /**
+   * Send one prompt on the task's session and wait for the turn to finish,
+   * publishing progress as it goes. Output accumulates in `turn`, so text
+   * produced before a cancel or error is still available to the caller.
+   *
+   * @param streamArtifactId  Publish deltas as chunks of this artifact; null to buffer
+   */
+  private async sendTurn(
+    run: TurnRun,
+    message: Record<string, unknown>,
+    turn: TurnOutput,
+    streamArtifactId: string | null,
+  ): Promise<void> {
+    const { taskId, contextId, sessionId, session: copilotSession, active, bus, interrupted } = run;
+
+    if (this.config.copilot.streaming) {
+      // Streaming mode: listen for all relevant events
+      const { promise: done, resolve: resolveDone, reject: rejectDone } = createDeferred<void>();
+      const unsubs: (() => void)[] = [];
+
+      // ── Assistant message deltas (main response text) ──
+      unsubs.push(copilotSession.on("assistant.message_delta", (event: any) => {
+        const delta = event?.data?.deltaContent ?? "";
+        if (delta) {
+          turn.text += delta;
+          turn.progressed = true;
+          if (streamArtifactId) {
+            publishStreamingChunk(bus, taskId, contextId, streamArtifactId, delta);
+          }
+        }
+      }));
+
+      // ── Thinking / Reasoning deltas → emit as trace.thought sideband artifacts ──
+      let reasoningAccumulator = "";
+      unsubs.push(copilotSession.on("assistant.reasoning_delta", (event: any) => {
+        const delta = event?.data?.deltaContent ?? "";
+        if (delta) {
+          reasoningAccumulator += delta;
+          log.debug("Reasoning delta", { taskId, len: delta.length });
+        }
+      }));
+
+      // ── Final assistant message (safety net if deltas were empty) ──
+      unsubs.push(copilotSession.on("assistant.message", (event: any) => {
+        const content = event?.data?.content ?? "";
+        if (content && !turn.text) {
+          // Only use if we didn't get anything from deltas
+          turn.text = content;
+          turn.progressed = true;
+        }
+      }));
+
+      // ── Reasoning complete → publish accumulated thought as trace artifact ──
+      unsubs.push(copilotSession.on("assistant.reasoning", (event: any) => {
+        const content = event?.data?.content ?? reasoningAccumulator;
+        if (content) {
+          log.debug("Reasoning complete", { taskId, len: content.length });
+          publishThoughtArtifact(bus, taskId, contextId, "trace.thought", content);
+          reasoningAccumulator = "";
+        }
+      }));
+
+      // ── Intent classification ──
+      unsubs.push(copilotSession.on("assistant.intent", (event: any) => {
+        const intent = event?.data?.intent ?? "";
+        if (intent) {
+          log.debug("Intent", { taskId, intent });
+          publishStatus(bus, taskId, contextId, "working", `Intent: ${intent}`);
+        }
+      }));
+
+      // ── Tool execution start ──
+      unsubs.push(copilotSession.on("tool.execution_start", (event: any) => {
+        const toolName = event?.data?.toolName ?? event?.data?.mcpToolName ?? "unknown";
+        log.info("Tool execution start", { taskId, toolName });
+        turn.progressed = true;
+        this.mcpHooks?.noteToolStart(
+          sessionId,
+          event?.data?.toolCallId ?? "",
+          [event?.data?.toolName, event?.data?.mcpToolName].filter(Boolean),
+          event?.data?.arguments,
+        );
+        publishStatus(bus, taskId, contextId, "working", `Executing ${toolName}...`);
+      }));
+
+      // ── Tool execution progress ──
+      unsubs.push(copilotSession.on("tool.execution_progress", (event: any) => {
+        const msg = event?.data?.progressMessage ?? "";
+        if (msg) {
+          publishStatus(bus, taskId, contextId, "working", msg);
+        }
+      }));
+
+      // ── Tool execution complete ──
+      unsubs.push(copilotSession.on("tool.execution_complete", (event: any) => {
+        const toolCallId = event?.data?.toolCallId ?? "";
+        const success = event?.data?.success ?? true;
+        if (success) {
+          log.info("Tool execution complete", { taskId, toolCallId });
+          publishStatus(bus, taskId, contextId, "working", `Tool completed`);
+        } else {
+          const errMsg = event?.data?.error?.message ?? "Unknown error";
+          log.warn("Tool execution failed", { taskId, toolCallId, error: errMsg });
+          publishStatus(bus, taskId, contextId, "working", `Tool error: ${errMsg}`);
+        }
+      }));
+
+      // ── Subagent lifecycle ──
+      unsubs.push(copilotSession.on("subagent.started", (event: any) => {
+        const name = event?.data?.agentDisplayName ?? event?.data?.agentName ?? "subagent";
+        publishStatus(bus, taskId, contextId, "working", `Delegating to ${name}...`);
+      }));
+
+      unsubs.push(copilotSession.on("subagent.completed", (event: any) => {
+        const name = event?.data?.agentName ?? "subagent";
+        publishStatus(bus, taskId, contextId, "working", `${name} completed`);
+      }));
+
+      unsubs.push(copilotSession.on("subagent.failed", (event: any) => {
+        const name = event?.data?.agentName ?? "subagent";
+        const err = event?.data?.error ?? "Unknown error";
+        publishStatus(bus, taskId, contextId, "working", `${name} failed: ${err}`);
+      }));
+
+      // ── Session error ──
+      unsubs.push(copilotSession.on("session.error", (event: any) => {
+        const msg = event?.data?.message ?? "Session error";
+        // SDK may emit a timeout error from its internal sendAndWait —
+        // treat as graceful completion if we have any accumulated content
+        if (msg.toLowerCase().includes("timeout")) {
+          log.warn("SDK session timeout (treating as completion)", { taskId, error: msg, hasContent: !!turn.text });
+          turn.timedOut = true;
+          resolveDone();
+        } else {
+          log.error("Session error", { taskId, error: msg });
+          rejectDone(new Error(msg));
+        }
+      }));
+
+      // ── Session idle (completion signal) ──
+      unsubs.push(copilotSession.on("session.idle", () => {
+        resolveDone();
+      }));
+
+      // Set up timeout (paused while waiting for the caller)
+      const timeoutMs = run.timeoutMs ?? this.config.timeouts.prompt ?? 600_000;
+      const timer = createPausableTimer(timeoutMs, () => {
+        log.warn("Prompt timeout — resolving with partial content", { taskId, timeoutMs, hasContent: !!turn.text });
+        turn.timedOut = true;
+        resolveDone(); // Resolve gracefully — return partial content
+      });
+      active.timer = timer;
+
+      try {
+        // Use send() (fire-and-forget) in streaming mode — we manage completion
+        // via session.idle event listener. sendAndWait has a 60s default timeout
+        // that's too short for tool-heavy interactions.
+        copilotSession.send(message).catch((e: Error) => {
+          // send() itself can fail (connection error etc) — don't reject on timeout
+          if (e.message?.toLowerCase().includes("timeout")) {
+            log.warn("send() timeout — resolving with partial content", { taskId });
+            turn.timedOut = true;
+            resolveDone();
+          } else {
+            rejectDone(e);
+          }
+        });
+
+        await Promise.race([done, interrupted]);
+      } finally {
+        timer.clear();
+        for (const unsub of unsubs) {
+          if (typeof unsub === "function") unsub();
+        }
+      }
+
+      // If we timed out but have content, append a note
+      if (turn.timedOut && turn.text) {
+        turn.text += "\n\n---\n*Response truncated: processing time limit reached.*";
+      }
+    } else {
+      // Non-streaming: wait for complete response
+      // (paused while waiting for the caller, so the SDK's own timeout is disabled)
+      const timeoutMs = run.timeoutMs ?? this.config.timeouts.prompt ?? 600_000;
+      let expire!: () => void;
+      const timeout = new Promise<never>((_, rej) => {
+        expire = () => rej(new Error(`Prompt timeout after ${timeoutMs}ms`));
+      });
+      const timer = createPausableTimer(timeoutMs, () => expire());
+      active.timer = timer;
+      const unsubTools = copilotSession.on("tool.execution_start", () => {
+        turn.progressed = true;
+      });
+
+      try {
+        const response = await Promise.race([
+          copilotSession.sendAndWait(message, MAX_TIMER_MS),
+          timeout,
+          interrupted,
+        ]);
+        turn.text = (response as any)?.data?.content ?? "";
+      } catch (e) {
+        if (!(e as Error).message.includes("timeout")) throw e;
+        log.warn("Prompt timed out", { taskId, timeoutMs });
+        turn.timedOut = true;
+      } finally {
+        timer.clear();
+        if (typeof unsubTools === "function") unsubTools();
+      }
+    }
+  }
+
+  // ── Caller Input ────────────────────────────────────────────────────────
+
+  /**
+   * Ask the caller, once earlier requests of the task are answered. The
+   * task has one `input-required` state and one reply at a time, so
+   * parallel tool approvals (or a question during one) are asked in turn.
+   */
+  private requestInput(
+    taskId: string,
+    contextId: string,
+    active: ActiveTask,
+    bus: ExecutionEventBus,
+    request: InputRequest,
+  ): Promise<A2AMessage> {
+    const asked = active.inputs.then(() => this.askCaller(taskId, contextId, active, bus, request));
+    active.inputs = asked.catch(() => {});
+    return asked;
+  }
+
+  /**
+   * Park the task in `input-required` and wait for the caller's reply, which
+   * arrives as a new message on the same taskId (see `resumeWithReply`).
+   * The prompt timeout is paused meanwhile. If no reply arrives within
+   * `interaction.timeout`, the turn is abandoned and the task fails.
+   */
+  private async askCaller(
+    taskId: string,
+    contextId: string,
+    active: ActiveTask,
+    bus: ExecutionEventBus,
+    request: InputRequest,
+  ): Promise<A2AMessage> {
+    if (active.canceled) throw new Error("Task was canceled");
+    const { text, data } = describeInputRequest(request);
+    const waitMs = this.config.interaction.timeout ?? 1_800_000;
+
+    active.timer?.pause();
+    publishInputRequired(bus, taskId, contextId, text, data);
     bus.finished();
+    log.info("Task waiting for caller input", { taskId, kind: request.kind });
+
+    try {
+      return await new Promise<A2AMessage>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          log.warn("Caller input timed out — abandoning turn", { taskId, waitMs });
+          // Fails the pending request, and records the outcome in the task store
+          active.failure = `Task stopped: no reply from the caller within ${Math.round(waitMs / 1000)}s.`;
+          void this.interruptTask(taskId, active, new Error(`No reply from the caller within ${waitMs}ms`));
+        }, waitMs);
+        this.pendingInputs.set(taskId, {
+          resolve: (reply) => {
+            clearTimeout(timer);
+            resolve(reply);
+          },
+          reject: (err) => {
+            clearTimeout(timer);
+            reject(err);
+          },
+        });
+      });
+    } finally {
+      active.timer?.resume();
+    }
+  }
+
+  /** Attach the reply's request to the parked turn and let it continue. */
+  private async resumeWithReply(
+    taskId: string,
+    reply: A2AMessage,
+    eventBus: ExecutionEventBus,
+    pending: PendingInput,
+  ): Promise<void> {
+    const active = this.activeTasks.get(taskId)!;
+    this.pendingInputs.delete(taskId);
+    active.relay.redirect(eventBus);
+    publishStatus(eventBus, taskId, active.contextId, "working", "Resuming with the caller's reply...");
+    log.info("Task resumed with caller input", { taskId });
+    pending.resolve(reply);
+    await active.done;
+  }
+
+  /**
+   * Stop a running turn: gate further output, wake `execute`, fail any
+   * pending input request, and abort the Copilot turn (destroying the
+   * session if abort fails). The outcome goes to `bus` when given, else to
+   * the task's current request — or, for a task parked in `input-required`,
+   * whose request has finished, straight to the task store.
+   */
+  private async interruptTask(
+    taskId: string,
+    active: ActiveTask,
+    reason: Error,
+    bus?: ExecutionEventBus,
+  ): Promise<void> {
+    if (active.canceled) return;
+    active.canceled = true;
+    const pending = this.pendingInputs.get(taskId);
+    if (bus) active.relay.redirect(bus);
+    else if (pending) active.relay.redirect(this.parkedTaskBus(taskId));
+    active.interrupt();
+
+    if (pending) {
+      this.pendingInputs.delete(taskId);
+      pending.reject(reason);
+    }
+
+    if (active.session) {
+      try {
+        await active.session.abort();
+        log.info("Copilot turn aborted", { taskId, contextId: active.contextId });
+      } catch (e) {
+        log.warn("Abort failed — destroying session", {
+          taskId,
+          contextId: active.contextId,
+          forked: active.forked,
+          error: (e as Error).message,
+        });
+        // A forked task must not take down the context session another task is using
+        if (active.forked) await this.sessionManager?.destroyDetached(active.session);
+        else await this.sessionManager?.destroySession(active.contextId, active.selection);
+      }
+    }
   }
 
   // ── Helpers ─────────────────────────────────────────────────────────────
 
-  private extractText(message: A2AMessage): string {
-    return message.parts
-      .filter((p) => p.kind === "text")
-      .map((p) => (p as { kind: "text"; text: string }).text)
-      .join("\n");
+  /** Bus for the outcome of a task stopped while parked: the task store. */
+  private parkedTaskBus(taskId: string): ExecutionEventBus {
+    const bus = this.taskStore
+      ? storeBus(this.taskStore, (e) => log.warn("Could not record task outcome", { taskId, error: e.message }))
+      : new DefaultExecutionEventBus();
+    return observeFinalState(bus, (state) => tasksTotal.inc({ state }));
+  }
+
+  /** Whether a task of `contextId` is running or waiting here. */
+  private hasActiveTask(contextId: string): boolean {
+    for (const active of this.activeTasks.values()) {
+      if (active.contextId === contextId) return true;
+    }
+    return false;
+  }
+
+  /**
+   * The context's earlier conversation as a prompt prefix for a new
+   * session, when `session.rehydrate` is enabled and the task store holds
+   * earlier tasks. A history that cannot be read is logged and skipped.
+   */
+  private async rehydrationTranscript(taskId: string, contextId: string): Promise<Transcript | null> {
+    const config = this.config.session.rehydrate ?? {};
+    if (!config.enabled || !this.taskStore || !contextId) return null;
+    try {
+      const earlier = (await this.taskStore.listByContext(contextId)).filter((t) => t.id !== taskId);
+      const transcript = buildTranscript(transcriptEntries(earlier), config);
+      if (transcript) {
+        sessionsRehydrated.inc();
+        log.info("Rehydrating session", {
+          taskId,
+          contextId,
+          tasks: earlier.length,
+          messages: transcript.messages,
+          omitted: transcript.omitted,
+          chars: transcript.text.length,
+        });
+      }
+      return transcript;
+    } catch (e) {
+      log.warn("Could not read context history — continuing without it", { contextId, error: (e as Error).message });
+      return null;
+    }
+  }
+
+  /** Detach the task from its session: unbind hooks, drop a forked session. */
+  private releaseSession(
+    taskId: string,
+    sessionId: string | null,
+    requester: InputRequester | null,
+    forkedSession: any,
+  ): void {
+    if (sessionId) {
+      this.mcpHooks?.unbindSession(sessionId, taskId);
+      if (requester) this.inputBroker?.unbindSession(sessionId, requester);
+    }
+    if (forkedSession) {
+      void this.sessionManager?.destroyDetached(forkedSession);
+    }
+  }
+
+  /**
+   * Publish whatever was produced before the interruption, then the final
+   * state: `canceled`, or `failed` when the task was stopped (`failure`).
+   */
+  private finishInterrupted(
+    active: ActiveTask,
+    taskId: string,
+    contextId: string,
+    partialText: string,
+    streamArtifactId: string,
+  ): void {
+    const bus = active.relay.bus;
+    if (partialText) {
+      if (this.config.features.streamArtifactChunks) {
+        publishLastChunkMarker(bus, taskId, contextId, streamArtifactId, partialText);
+      } else {
+        publishFinalArtifact(bus, taskId, contextId, partialText);
+      }
+    }
+    if (active.failure) {
+      publishStatus(bus, taskId, contextId, "failed", active.failure, true);
+      bus.finished();
+      log.info("Task stopped", { taskId, reason: active.failure, partialLen: partialText.length });
+      return;
+    }
+    publishStatus(bus, taskId, contextId, "canceled", "Task canceled by request.", true);
+    bus.finished();
+    log.info("Task canceled", { taskId, partialLen: partialText.length });
+  }
+
+  /**
+   * Identity of the authenticated caller, as populated by the server's
+   * UserBuilder. Returns null when authentication is disabled.
+   */
+  private extractCaller(ctx: RequestContext): string | null {
+    const user = ctx.context?.user;
+    return user?.isAuthenticated ? user.userName : null;
   }
 
   /**
@@ -474,10 +1440,12 @@ export class CopilotExecutor implements AgentExecutor {
    *
    * The orchestrator injects { trace_id, parent_agent_id, propagated_metadata }
    * into the A2A request configuration dict. The A2A JS SDK exposes these
-   * through the RequestContext or the Task object.
+   * through the RequestContext or the Task object. A W3C `traceparent` /
+   * `tracestate` pair in the message (or task) metadata is returned as `parent`.
    */
   private extractTraceContext(ctx: RequestContext): {
     traceId: string;
+    parent: SpanContext | null;
     parentAgentId: string | null;
     metadata: Record<string, unknown>;
   } {
@@ -488,8 +1456,10 @@ export class CopilotExecutor implements AgentExecutor {
       ((raw.task as Record<string, unknown>)?.metadata as Record<string, unknown>) ||
       ((raw.task as Record<string, unknown>)?.configuration as Record<string, unknown>) ||
       {};
+    const carrier = [ctx.userMessage.metadata, ctx.task?.metadata, meta].find((m) => m?.traceparent);
 
     return {
+      parent: parseTraceparent(carrier?.traceparent, carrier?.tracestate),
       traceId:
         (meta.trace_id as string) ||
         (meta.traceId as string) ||
@@ -506,3 +1476,39 @@ export class CopilotExecutor implements AgentExecutor {
     };
   }
 }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Numeric `priority` from message metadata, then task metadata (default 0). */
+function taskPriority(message: A2AMessage, task: Task | undefined): number {
+  const value = message.metadata?.priority ?? task?.metadata?.priority;
+  const priority = typeof value === "string" ? Number(value) : value;
+  return typeof priority === "number" && Number.isFinite(priority) ? priority : 0;
+}
+
+function queuedMessage(position: number, waiting: number): string {
+  return `Queued — position ${position} of ${waiting}, waiting for a free execution slot...`;
+}
+
+function tokenCount(usage: TurnUsage): number {
+  return usage.inputTokens + usage.outputTokens;
+}
+
+function attemptRecord(
+  attempt: number,
+  selection: ModelSelection,
+  model: string,
+  startedAt: number,
+  outcome: AttemptRecord["outcome"],
+): AttemptRecord {
+  return {
+    attempt,
+    model,
+    ...(selection.reasoningEffort ? { reasoning_effort: selection.reasoningEffort } : {}),
+    started_at: new Date(startedAt).toISOString(),
+    duration_ms: Date.now() - startedAt,
+    outcome,
+  };
+}
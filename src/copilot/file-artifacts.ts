@@ -0,0 +1,293 @@
+/**
+ * File Artifacts — Workspace Files Written During a Task
+ *
+ * Snapshots the workspace (path → mtime/size) before a turn and again after
+ * it, and turns every file created or modified in between into an A2A
+ * `FilePart` artifact:
+ *  - files up to `inlineMaxSize` are sent inline as base64 bytes
+ *  - larger files are copied into the artifact directory and referenced by
+ *    a URI served from `GET /artifacts/:taskId/:fileId/:name`
+ *
+ * Copies are taken when the task finishes, so the download always returns
+ * what the task produced even if the workspace file changes later. Each
+ * task's copies record the caller that owns them, and only that caller can
+ * download them. A task's copies are deleted `maxAge` ms after they were
+ * stored.
+ *
+ * Every task shares the one workspace, so a change cannot be told apart
+ * from one made by another task running at the same time. When tasks
+ * overlap, none of them publishes workspace files.
+ */
+
+import { copyFile, mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { basename, extname, join, relative, resolve, sep } from "node:path";
+import type { FilePart } from "@a2a-js/sdk";
+import { v4 as uuidv4 } from "uuid";
+
+import type { FileArtifactConfig, ServerConfig } from "../config/types.js";
+import { WORKSPACE_ATTACHMENT_DIR } from "./attachments.js";
+import { matchesGlob } from "../utils/glob.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child("file-artifacts");
+
+/** Stop walking after this many files — keeps huge workspaces cheap. */
+const MAX_SCAN_FILES = 20_000;
+
+/** Route prefix the server mounts the download handler on. */
+export const ARTIFACT_ROUTE = "/artifacts";
+
+/** Per-task file recording who may download the task's stored copies. */
+const OWNER_FILE = "owner.json";
+
+/** path (relative, forward slashes) → change fingerprint */
+export type WorkspaceSnapshot = Map<string, string>;
+
+/** A changed workspace file, ready to publish. */
+export interface FileArtifact {
+  /** Path relative to the workspace, forward slashes */
+  path: string;
+  size: number;
+  part: FilePart;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".html": "text/html",
+  ".xml": "application/xml",
+  ".json": "application/json",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+  ".zip": "application/zip",
+};
+
+export class WorkspaceFileArtifacts {
+  private readonly config: FileArtifactConfig;
+  private readonly workspace: string | null;
+  private readonly directory: string;
+  private readonly baseUrl: string;
+  private readonly exclude: string[];
+  /** taskId → whether another task ran while it did (its changes are not its own) */
+  private readonly running = new Map<string, { shared: boolean }>();
+  private pruneTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(config: FileArtifactConfig, workspaceDirectory: string | undefined, server: ServerConfig) {
+    this.config = config;
+    this.workspace = workspaceDirectory ? resolve(workspaceDirectory) : null;
+    this.directory = resolve(config.directory || ".a2a-copilot/artifacts");
+    this.baseUrl = (config.baseUrl ?? defaultBaseUrl(server)).replace(/\/+$/, "");
+    // Never report the agent's own bookkeeping as task output
+    this.exclude = [...(config.exclude ?? []), `${WORKSPACE_ATTACHMENT_DIR}/**`];
+    const inside = this.workspace ? relative(this.workspace, this.directory) : "..";
+    if (!inside.startsWith("..")) this.exclude.push(`${inside.split(sep).join("/")}/**`);
+  }
+
+  /** True when changes should be detected at all. */
+  get enabled(): boolean {
+    return this.config.enabled !== false && this.workspace !== null;
+  }
+
+  /**
+   * Record the current state of the workspace as the task's baseline. The
+   * task counts as running until `collect` or `release`.
+   */
+  async snapshot(taskId: string): Promise<WorkspaceSnapshot> {
+    if (!this.enabled) return new Map();
+    const shared = this.running.size > 0;
+    for (const other of this.running.values()) other.shared = true;
+    this.running.set(taskId, { shared });
+    return this.scan();
+  }
+
+  /**
+   * Diff against `before` and build artifacts for created / modified files
+   * that pass the include/exclude filters, in path order. Stored copies are
+   * owned by `caller`. Returns null when another task ran in the workspace
+   * meanwhile, since the changes cannot be attributed.
+   */
+  async collect(taskId: string, before: WorkspaceSnapshot, caller: string | null): Promise<FileArtifact[] | null> {
+    if (!this.enabled) return [];
+    // Still running while scanning, so a task starting meanwhile counts as overlap
+    const after = await this.scan();
+    const shared = this.running.get(taskId)?.shared ?? false;
+    this.release(taskId);
+    if (shared) {
+      log.warn("Other tasks ran in the workspace meanwhile — not publishing changed files", { taskId });
+      return null;
+    }
+    const include = this.config.include?.length ? this.config.include : ["**"];
+    const changed = [...after.keys()].filter(
+      (p) => before.get(p) !== after.get(p) && matchesGlob(p, include),
+    );
+    if (changed.length === 0) return [];
+
+    const maxFiles = this.config.maxFiles ?? 20;
+    if (changed.length > maxFiles) {
+      log.warn("Too many changed files — publishing the first ones only", {
+        taskId,
+        changed: changed.length,
+        maxFiles,
+      });
+    }
+
+    const artifacts: FileArtifact[] = [];
+    for (const path of changed.sort().slice(0, maxFiles)) {
+      try {
+        artifacts.push(await this.toArtifact(taskId, path, caller));
+      } catch (e) {
+        // Deleted or unreadable between the walk and now
+        log.warn("Skipping changed file", { taskId, path, error: (e as Error).message });
+      }
+    }
+    log.info("Workspace files collected", { taskId, files: artifacts.map((a) => a.path) });
+    return artifacts;
+  }
+
+  /** Stop counting the task as running (it ended without `collect`). */
+  release(taskId: string): void {
+    this.running.delete(taskId);
+  }
+
+  /** Delete expired copies now and then every `pruneInterval` ms. */
+  startPruning(): void {
+    const maxAge = this.config.maxAge ?? 604_800_000;
+    const interval = this.config.pruneInterval ?? 3_600_000;
+    if (maxAge <= 0) return;
+    const prune = () => {
+      this.prune().catch((e) => log.warn("Artifact prune failed", { error: (e as Error).message }));
+    };
+    prune();
+    if (interval <= 0) return;
+    this.pruneTimer = setInterval(prune, interval);
+    this.pruneTimer.unref();
+  }
+
+  stopPruning(): void {
+    if (this.pruneTimer) clearInterval(this.pruneTimer);
+    this.pruneTimer = null;
+  }
+
+  /**
+   * Delete the stored copies of tasks whose files were stored more than
+   * `maxAge` ms before `now`. Returns how many tasks' copies were removed.
+   */
+  async prune(now = Date.now()): Promise<number> {
+    const maxAge = this.config.maxAge ?? 604_800_000;
+    if (maxAge <= 0) return 0;
+    let entries: string[];
+    try {
+      entries = await readdir(this.directory);
+    } catch {
+      return 0;
+    }
+    let removed = 0;
+    for (const entry of entries) {
+      const taskDir = join(this.directory, entry);
+      try {
+        const { mtimeMs } = await stat(join(taskDir, OWNER_FILE));
+        if (now - mtimeMs <= maxAge) continue;
+      } catch {
+        // No owner record: a copy interrupted mid-way, or not ours — judge by the directory
+        const st = await stat(taskDir).catch(() => null);
+        if (!st?.isDirectory() || now - st.mtimeMs <= maxAge) continue;
+      }
+      await rm(taskDir, { recursive: true, force: true });
+      removed++;
+    }
+    if (removed > 0) log.info("Pruned expired artifact copies", { tasks: removed });
+    return removed;
+  }
+
+  /**
+   * Absolute path of a stored artifact copy, or null when it does not exist,
+   * belongs to another caller, or the parameters try to escape the artifact
+   * directory.
+   */
+  async resolveDownload(taskId: string, fileId: string, name: string, caller: string | null): Promise<string | null> {
+    const taskDir = resolve(this.directory, safeSegment(taskId));
+    const path = resolve(taskDir, safeSegment(fileId), basename(name));
+    if (!path.startsWith(this.directory + sep)) return null;
+    try {
+      const owner = JSON.parse(await readFile(join(taskDir, OWNER_FILE), "utf-8")) as { caller: string | null };
+      if (owner.caller !== caller) {
+        log.warn("Refused artifact download by another caller", { taskId, fileId, caller });
+        return null;
+      }
+      return (await stat(path)).isFile() ? path : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // ── Internals ───────────────────────────────────────────────────────────
+
+  private async scan(): Promise<WorkspaceSnapshot> {
+    const snap: WorkspaceSnapshot = new Map();
+    await this.walk(this.workspace!, "", snap);
+    return snap;
+  }
+
+  private async walk(dir: string, rel: string, snap: WorkspaceSnapshot): Promise<void> {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (snap.size >= MAX_SCAN_FILES) return;
+      const relPath = rel ? `${rel}/${entry.name}` : entry.name;
+      if (matchesGlob(relPath, this.exclude)) continue;
+      const abs = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await this.walk(abs, relPath, snap);
+      } else if (entry.isFile()) {
+        try {
+          const st = await stat(abs);
+          snap.set(relPath, `${st.mtimeMs}:${st.size}`);
+        } catch {
+          // Vanished mid-walk
+        }
+      }
+    }
+  }
+
+  private async toArtifact(taskId: string, path: string, caller: string | null): Promise<FileArtifact> {
+    const abs = join(this.workspace!, ...path.split("/"));
+    const { size } = await stat(abs);
+    const name = basename(path);
+    const mimeType = MIME_TYPES[extname(name).toLowerCase()] ?? "application/octet-stream";
+
+    if (size <= (this.config.inlineMaxSize ?? 262_144)) {
+      const bytes = (await readFile(abs)).toString("base64");
+      return { path, size, part: { kind: "file", file: { bytes, name, mimeType } } };
+    }
+
+    const fileId = uuidv4();
+    const taskDir = join(this.directory, safeSegment(taskId));
+    const dir = join(taskDir, fileId);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(taskDir, OWNER_FILE), JSON.stringify({ caller }));
+    await copyFile(abs, join(dir, name));
+    const uri = `${this.baseUrl}${ARTIFACT_ROUTE}/${encodeURIComponent(taskId)}/${fileId}/${encodeURIComponent(name)}`;
+    return { path, size, part: { kind: "file", file: { uri, name, mimeType } } };
+  }
+}
+
+function defaultBaseUrl(server: ServerConfig): string {
+  const host = server.advertiseHost ?? server.hostname ?? "localhost";
+  return `http://${host}:${server.port ?? 3000}`;
+}
+
+function safeSegment(value: string): string {
+  return value.replace(/[^\w.-]/g, "_").replace(/^\.+/, "_");
+}
@@ -0,0 +1,139 @@
+/**
+ * Health — Readiness Probes for the Agent's Dependencies
+ *
+ * Each probe reports pass/fail with a short detail and its duration:
+ *  - copilot:    the Copilot client is connected and answers a ping
+ *  - auth:       the Copilot CLI is signed in
+ *  - mcp:<name>: each enabled MCP server — http/sse servers answer an HTTP
+ *                request; a stdio server's command resolves to an executable
+ *                (the Copilot CLI owns the process, starting it per session)
+ *  - workspace:  the workspace directory accepts a write
+ *
+ * The agent is ready when every critical check passes. MCP servers are
+ * critical only when configured with `critical: true`; a failing optional
+ * server leaves the agent `degraded` but ready.
+ */
+
+import { access, constants, unlink, writeFile } from "node:fs/promises";
+import { delimiter, isAbsolute, join, resolve } from "node:path";
+import { v4 as uuidv4 } from "uuid";
+
+import type { AgentConfig, McpServerConfig } from "../config/types.js";
+import { mcpServerEntries } from "./mcp-servers.js";
+
+export interface HealthCheck {
+  status: "pass" | "fail";
+  /** A failing critical check makes the agent unready */
+  critical: boolean;
+  durationMs: number;
+  detail: string;
+}
+
+export interface HealthReport {
+  /** "degraded": ready, but a non-critical check failed */
+  status: "ready" | "degraded" | "unready";
+  checkedAt: string;
+  checks: Record<string, HealthCheck>;
+}
+
+/** Run every readiness check in parallel, each bounded by `timeoutMs`. */
+export async function checkReadiness(
+  client: any | null,
+  config: Required<AgentConfig>,
+  timeoutMs: number,
+): Promise<HealthReport> {
+  const probes: [string, boolean, () => Promise<string>][] = [
+    ["copilot", true, () => probeCopilot(client)],
+    ["auth", true, () => probeAuth(client)],
+    ["workspace", true, () => probeWorkspace(config.copilot.workspaceDirectory)],
+  ];
+  for (const [name, cfg] of mcpServerEntries(config.mcp)) {
+    if (cfg.enabled === false) continue;
+    probes.push([`mcp:${name}`, cfg.critical === true, () => probeMcpServer(cfg, config.copilot.workspaceDirectory, timeoutMs)]);
+  }
+
+  const results = await Promise.all(
+    probes.map(async ([name, critical, probe]) => [name, await runCheck(critical, probe, timeoutMs)] as const),
+  );
+  const checks = Object.fromEntries(results);
+  const failed = results.filter(([, check]) => check.status === "fail");
+  return {
+    status: failed.some(([, check]) => check.critical) ? "unready" : failed.length > 0 ? "degraded" : "ready",
+    checkedAt: new Date().toISOString(),
+    checks,
+  };
+}
+
+async function runCheck(critical: boolean, probe: () => Promise<string>, timeoutMs: number): Promise<HealthCheck> {
+  const startedAt = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`No answer within ${timeoutMs}ms`)), timeoutMs);
+  });
+  try {
+    const detail = await Promise.race([probe(), timeout]);
+    return { status: "pass", critical, durationMs: Date.now() - startedAt, detail };
+  } catch (e) {
+    return { status: "fail", critical, durationMs: Date.now() - startedAt, detail: (e as Error).message ?? String(e) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ─── Probes ─────────────────────────────────────────────────────────────────
+
+async function probeCopilot(client: any | null): Promise<string> {
+  if (!client) throw new Error("Copilot client is not started");
+  const state = client.getState();
+  if (state !== "connected") throw new Error(`Copilot client is ${state}`);
+  await client.ping("health");
+  return "connected";
+}
+
+async function probeAuth(client: any | null): Promise<string> {
+  if (!client || client.getState() !== "connected") throw new Error("Copilot client is not connected");
+  const auth = await client.getAuthStatus();
+  if (!auth?.isAuthenticated) throw new Error(auth?.statusMessage || "Copilot CLI is not authenticated");
+  return auth.login ? `signed in as ${auth.login}` : "authenticated";
+}
+
+async function probeWorkspace(dir: string | undefined): Promise<string> {
+  if (!dir) return "no workspace directory configured";
+  const probe = join(dir, `.a2a-health-${uuidv4()}`);
+  await writeFile(probe, "");
+  await unlink(probe);
+  return `${dir} is writable`;
+}
+
+async function probeMcpServer(cfg: McpServerConfig, cwd: string | undefined, timeoutMs: number): Promise<string> {
+  if (cfg.type === "stdio") {
+    const path = await findExecutable(cfg.command, cfg.env?.PATH ?? process.env.PATH ?? "", cwd);
+    if (!path) throw new Error(`Command "${cfg.command}" not found or not executable`);
+    return `command ${path} is executable`;
+  }
+
+  // Any HTTP answer short of a server error means the server is up
+  const res = await fetch(cfg.url, {
+    headers: { accept: "application/json, text/event-stream", ...(cfg.headers ?? {}) },
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  await res.body?.cancel();
+  if (res.status >= 500) throw new Error(`${cfg.url} answered ${res.status}`);
+  return `${cfg.url} answered ${res.status}`;
+}
+
+/** Resolve `command` as the CLI would spawn it: a path, or a name on PATH. */
+async function findExecutable(command: string, searchPath: string, cwd: string | undefined): Promise<string | null> {
+  const candidates = command.includes("/") || command.includes("\\")
+    ? [isAbsolute(command) ? command : resolve(cwd ?? process.cwd(), command)]
+    : searchPath.split(delimiter).filter(Boolean).map((dir) => join(dir, command));
+  for (const candidate of candidates) {
+    try {
+      await access(candidate, constants.X_OK);
+      return candidate;
+    } catch {
+      // try the next one
+    }
+  }
+  return null;
+}
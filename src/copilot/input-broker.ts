@@ -0,0 +1,165 @@
+/**
+ * Input Broker — Caller Input for Clarifications and Tool Approvals
+ *
+ * Bridges the two places a Copilot turn can need the caller mid-flight:
+ *  - the model asks a clarifying question (SDK `onUserInputRequest`)
+ *  - a tool call matches `interaction.approveTools` (from `onPreToolUse`)
+ *
+ * Like the MCP hooks, handlers are shared by every session and routed by
+ * `invocation.sessionId` to the task currently bound to that session. The
+ * executor supplies the requester, which parks the task in `input-required`
+ * and resolves with the caller's reply message.
+ */
+
+import type { Message as A2AMessage } from "@a2a-js/sdk";
+
+import type { InteractionConfig } from "../config/types.js";
+import { matchesGlob } from "../utils/glob.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child("input-broker");
+
+/** What the turn needs from the caller. */
+export type InputRequest =
+  | { kind: "question"; question: string; choices?: string[]; allowFreeform?: boolean }
+  | { kind: "approval"; toolName: string; args: unknown };
+
+/** Asks the caller and resolves with their reply. */
+export type InputRequester = (request: InputRequest) => Promise<A2AMessage>;
+
+/** Outcome of a tool approval request. */
+export interface ApprovalDecision {
+  approved: boolean;
+  reason?: string;
+}
+
+/** The whole reply must be one of these — "ok, but no" is not an approval. */
+const APPROVE_WORDS = /^\s*(y|yes|approve|approved|allow|allowed|ok|okay)\s*[.!]?\s*$/i;
+
+export class InputBroker {
+  private readonly config: InteractionConfig;
+  /** Copilot sessionId → requester of the task running on it */
+  private readonly sessions = new Map<string, InputRequester>();
+
+  constructor(config: InteractionConfig = {}) {
+    this.config = config;
+  }
+
+  /** True when the model may ask the caller questions. */
+  get userInputEnabled(): boolean {
+    return this.config.userInput !== false;
+  }
+
+  bindSession(sessionId: string, requester: InputRequester): void {
+    this.sessions.set(sessionId, requester);
+  }
+
+  /** Release a binding. No-op if the session was rebound to another requester. */
+  unbindSession(sessionId: string, requester: InputRequester): void {
+    if (this.sessions.get(sessionId) === requester) this.sessions.delete(sessionId);
+  }
+
+  /** SDK `onUserInputRequest` handler. */
+  onUserInputRequest = async (
+    request: { question: string; choices?: string[]; allowFreeform?: boolean },
+    invocation: { sessionId: string },
+  ): Promise<{ answer: string; wasFreeform: boolean }> => {
+    const requester = this.sessions.get(invocation.sessionId);
+    if (!requester) {
+      throw new Error("No caller is available to answer questions in this session");
+    }
+    log.info("Model requested caller input", { sessionId: invocation.sessionId });
+    const reply = await requester({ kind: "question", ...request });
+    return parseAnswer(reply, request.choices);
+  };
+
+  /**
+   * Ask the caller to approve a tool call when it matches `approveTools`.
+   * Returns null when no approval is needed.
+   */
+  async approveTool(sessionId: string, toolName: string, args: unknown): Promise<ApprovalDecision | null> {
+    const patterns = this.config.approveTools ?? [];
+    if (patterns.length === 0 || !matchesGlob(toolName, patterns)) return null;
+
+    const requester = this.sessions.get(sessionId);
+    if (!requester) {
+      return { approved: false, reason: "Tool requires approval, but no caller is available to approve it" };
+    }
+    log.info("Tool call awaiting caller approval", { sessionId, toolName });
+    try {
+      return parseApproval(await requester({ kind: "approval", toolName, args }));
+    } catch (e) {
+      return { approved: false, reason: (e as Error).message };
+    }
+  }
+}
+
+// ─── Status Payload ─────────────────────────────────────────────────────────
+
+/** Text and structured payload of the `input-required` status for `request`. */
+export function describeInputRequest(request: InputRequest): { text: string; data: Record<string, unknown> } {
+  if (request.kind === "question") {
+    const options = request.choices?.length
+      ? `\n\nOptions:\n${request.choices.map((c) => `- ${c}`).join("\n")}`
+      : "";
+    return {
+      text: request.question + options,
+      data: {
+        type: "user_input",
+        question: request.question,
+        ...(request.choices?.length ? { choices: request.choices } : {}),
+        allow_freeform: request.allowFreeform ?? true,
+      },
+    };
+  }
+  return {
+    text:
+      `Approval required: the agent wants to run \`${request.toolName}\` with these arguments:\n` +
+      "```json\n" + JSON.stringify(request.args ?? {}, null, 2) + "\n```\n" +
+      'Reply "approve" to allow it, or "deny" with an optional reason.',
+    data: { type: "tool_approval", tool: request.toolName, arguments: request.args ?? {} },
+  };
+}
+
+// ─── Reply Parsing ──────────────────────────────────────────────────────────
+
+/**
+ * Answer to a question: a DataPart `{ answer }` if present, else the text.
+ * `wasFreeform` is false only when the answer matches one of `choices`.
+ */
+export function parseAnswer(reply: A2AMessage, choices?: string[]): { answer: string; wasFreeform: boolean } {
+  const data = dataOf(reply);
+  const answer = typeof data?.answer === "string" ? data.answer : textOf(reply);
+  const choice = choices?.find((c) => c.toLowerCase() === answer.trim().toLowerCase());
+  return choice ? { answer: choice, wasFreeform: false } : { answer, wasFreeform: true };
+}
+
+/**
+ * Approval decision: a DataPart `{ approved, reason? }` if present, else a
+ * reply that is just "yes" / "approve" / "allow" / "ok". Any other text is
+ * a denial, with the text as the reason.
+ */
+export function parseApproval(reply: A2AMessage): ApprovalDecision {
+  const data = dataOf(reply);
+  if (typeof data?.approved === "boolean") {
+    return {
+      approved: data.approved,
+      ...(typeof data.reason === "string" ? { reason: data.reason } : {}),
+    };
+  }
+  const text = textOf(reply).trim();
+  if (APPROVE_WORDS.test(text)) return { approved: true };
+  return { approved: false, reason: text || "Denied by the caller" };
+}
+
+function textOf(message: A2AMessage): string {
+  return message.parts
+    .filter((p) => p.kind === "text")
+    .map((p) => (p as { text: string }).text)
+    .join("\n");
+}
+
+function dataOf(message: A2AMessage): Record<string, unknown> | undefined {
+  const part = message.parts.find((p) => p.kind === "data");
+  return part ? (part as { data: Record<string, unknown> }).data : undefined;
+}
@@ -22,10 +22,15 @@
 import { randomUUID } from "node:crypto";
 import type { ExecutionEventBus } from "@a2a-js/sdk/server";
 import { publishTraceArtifact } from "./event-publisher.js";
+import type { ToolPolicy } from "./tool-policy.js";
 import { logger } from "../utils/logger.js";
+import { metrics } from "../utils/metrics.js";
 
 const log = logger.child("mcp-hooks");
 
+const toolCalls = metrics.counter("a2a_copilot_tool_calls_total", "Tool calls by tool name and outcome (success, error, denied)");
+const toolDuration = metrics.histogram("a2a_copilot_tool_call_duration_seconds", "Duration of tool calls that ran");
+
 /** Maximum serialized size (chars) for args/results stored in artifacts. */
 const MAX_DATA_SIZE = 100_000;
 
@@ -57,28 +62,108 @@ export interface McpHooksContext {
   traceId: string;
 }
 
+/**
+ * Decides whether a tool call may run. Returns null when it has no opinion
+ * (the call is allowed); may suspend while the caller is asked.
+ */
+export type ToolApprover = (
+  sessionId: string,
+  toolName: string,
+  args: unknown,
+) => Promise<{ approved: boolean; reason?: string } | null>;
+
+/** Optional gates applied in onPreToolUse, in order. */
+export interface McpHooksOptions {
+  /** Static allow/deny rules */
+  policy?: ToolPolicy;
+  /** Interactive approval (may suspend while the caller is asked) */
+  approver?: ToolApprover;
+}
+
+// ─── Per-session state ──────────────────────────────────────────────────────
+
+/** One tool call between onPreToolUse and onPostToolUse. */
+interface ToolCallRecord {
+  /** SDK toolCallId when known (from tool.execution_start), else a generated id */
+  toolCallId: string;
+  /** True once the SDK toolCallId has been attached */
+  hasSdkId: boolean;
+  toolName: string;
+  /** Stable fingerprint of the raw args — pairs pre/post hooks of the same call */
+  argsKey: string;
+  args: unknown;
+  startTime: number;
+}
+
+/** A tool.execution_start seen before its onPreToolUse hook fired. */
+interface AnnouncedCall {
+  toolCallId: string;
+  toolNames: string[];
+  argsKey: string;
+}
+
+interface SessionHookState {
+  context: McpHooksContext;
+  /** Calls in flight, oldest first */
+  calls: ToolCallRecord[];
+  announced: AnnouncedCall[];
+}
+
 // ─── Hooks class ────────────────────────────────────────────────────────────
 
+/**
+ * Session hooks shared by every Copilot session. All mutable state is keyed
+ * by the SDK `invocation.sessionId`, so concurrent tasks on different
+ * sessions never see each other's bus or tool calls.
+ */
 export class McpEvidenceHooks {
-  private context: McpHooksContext | null = null;
-  /** Correlate start/end by session+toolName → { toolCallId, args, startTime }. */
-  private activeToolCalls = new Map<
-    string,
-    { toolCallId: string; args: unknown; startTime: number }
-  >();
+  /** Copilot sessionId → task binding and in-flight tool calls. */
+  private readonly sessions = new Map<string, SessionHookState>();
+  private readonly policy: ToolPolicy | null;
+  private readonly approver: ToolApprover | null;
+
+  constructor(options: McpHooksOptions = {}) {
+    this.policy = options.policy ?? null;
+    this.approver = options.approver ?? null;
+  }
 
   /**
-   * Bind the A2A bus and task context for the current execution.
-   * Must be called before each prompt so trace artifacts carry the right IDs.
+   * Bind the A2A bus and task context to a Copilot session for the current
+   * execution. Trace artifacts from tool calls in that session are published
+   * to this task only.
    */
-  setContext(ctx: McpHooksContext): void {
-    this.context = ctx;
+  bindSession(sessionId: string, ctx: McpHooksContext): void {
+    this.sessions.set(sessionId, { context: ctx, calls: [], announced: [] });
   }
 
-  /** Clear context after execution completes. */
-  clearContext(): void {
-    this.context = null;
-    this.activeToolCalls.clear();
+  /**
+   * Release a session binding after execution completes. No-op if the
+   * session has since been bound to a different task.
+   */
+  unbindSession(sessionId: string, taskId: string): void {
+    if (this.sessions.get(sessionId)?.context.taskId === taskId) {
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  /**
+   * Attach the SDK's toolCallId (from a `tool.execution_start` event) to the
+   * matching in-flight call so trace artifacts carry the same id as the
+   * executor's status updates.
+   */
+  noteToolStart(sessionId: string, toolCallId: string, toolNames: string[], args: unknown): void {
+    const state = this.sessions.get(sessionId);
+    if (!state || !toolCallId) return;
+    const argsKey = fingerprint(args);
+    const call = state.calls.find(
+      (c) => !c.hasSdkId && c.argsKey === argsKey && toolNames.includes(c.toolName),
+    );
+    if (call) {
+      call.toolCallId = toolCallId;
+      call.hasSdkId = true;
+    } else {
+      state.announced.push({ toolCallId, toolNames, argsKey });
+    }
   }
 
   /**
@@ -96,19 +181,62 @@ export class McpEvidenceHooks {
         const inp = input as Record<string, unknown>;
         const toolName = (inp.toolName as string) || "unknown";
         const toolArgs = (inp.toolArgs as Record<string, unknown>) || {};
-        const toolCallId = randomUUID();
-        const startTime = Date.now();
-
-        // Track for correlation with onPostToolUse
         const sessionId =
           ((invocation as Record<string, unknown>)?.sessionId as string) || "";
-        this.activeToolCalls.set(sessionId + ":" + toolName, {
-          toolCallId,
-          args: sanitize(toolArgs),
-          startTime,
-        });
+        const state = this.sessions.get(sessionId);
+
+        // Track for correlation with onPostToolUse
+        const argsKey = fingerprint(toolArgs);
+        let toolCallId: string = randomUUID();
+        let hasSdkId = false;
+        if (state) {
+          const idx = state.announced.findIndex(
+            (a) => a.argsKey === argsKey && a.toolNames.includes(toolName),
+          );
+          if (idx >= 0) {
+            toolCallId = state.announced[idx].toolCallId;
+            hasSdkId = true;
+            state.announced.splice(idx, 1);
+          }
+          state.calls.push({
+            toolCallId,
+            hasSdkId,
+            toolName,
+            argsKey,
+            args: sanitize(toolArgs),
+            startTime: Date.now(),
+          });
+        }
+
+        // Policy first (no point asking the caller about a forbidden call)
+        const verdict = this.policy?.evaluate(toolName, toolArgs);
+        let denial: { reason: string; deniedBy: "policy" | "caller"; rule?: number } | null = null;
+        if (verdict && !verdict.allowed) {
+          denial = { reason: verdict.reason ?? "Denied by policy", deniedBy: "policy", rule: verdict.rule };
+        } else if (this.approver) {
+          const decision = await this.approver(sessionId, toolName, toolArgs);
+          if (decision && !decision.approved) {
+            denial = { reason: decision.reason ?? "Denied by the caller", deniedBy: "caller" };
+          }
+        }
+
+        if (denial) {
+          // Denied calls never reach onPostToolUse — report them here
+          if (state) {
+            state.calls = state.calls.filter((c) => c.toolCallId !== toolCallId);
+            this.publishCall(state, toolCallId, toolName, toolArgs, { error: denial.reason }, true, 0, {
+              decision: "deny",
+              denied_by: denial.deniedBy,
+              reason: denial.reason,
+              ...(denial.rule !== undefined ? { rule: denial.rule } : {}),
+            });
+          }
+          log.info("MCP tool call denied", { toolName, toolCallId, sessionId, ...denial });
+          toolCalls.inc({ tool: toolName, outcome: "denied" });
+          return { permissionDecision: "deny", permissionDecisionReason: denial.reason };
+        }
 
-        log.info("MCP tool call start", { toolName, toolCallId });
+        log.info("MCP tool call start", { toolName, toolCallId, sessionId });
 
         // IMPORTANT: return permissionDecision to allow execution
         return { permissionDecision: "allow" };
@@ -122,16 +250,19 @@ export class McpEvidenceHooks {
         const toolName = (inp.toolName as string) || "unknown";
         const toolArgs = (inp.toolArgs as Record<string, unknown>) || {};
         const toolResult = inp.toolResult;
-
-        // Recover tracked data from activeToolCalls
         const sessionId =
           ((invocation as Record<string, unknown>)?.sessionId as string) || "";
-        const key = sessionId + ":" + toolName;
-        const tracked = this.activeToolCalls.get(key);
+        const state = this.sessions.get(sessionId);
+
+        // Recover the matching call: same tool, same args, oldest first
+        const argsKey = fingerprint(toolArgs);
+        const idx = state
+          ? state.calls.findIndex((c) => c.toolName === toolName && c.argsKey === argsKey)
+          : -1;
+        const tracked = idx >= 0 ? state!.calls.splice(idx, 1)[0] : undefined;
         const toolCallId = tracked?.toolCallId || randomUUID();
         const startTime = tracked?.startTime || Date.now();
         const durationMs = Date.now() - startTime;
-        this.activeToolCalls.delete(key);
 
         const isError =
           toolResult instanceof Error ||
@@ -139,36 +270,15 @@ export class McpEvidenceHooks {
             toolResult !== null &&
             "error" in (toolResult as Record<string, unknown>));
 
-        log.info("MCP tool call end", { toolName, toolCallId, isError, durationMs });
+        log.info("MCP tool call end", { toolName, toolCallId, sessionId, isError, durationMs });
+        toolCalls.inc({ tool: toolName, outcome: isError ? "error" : "success" });
+        toolDuration.observe(durationMs / 1000, { tool: toolName });
 
         // Emit the complete MCP call as a sideband trace artifact via A2A
-        if (this.context) {
-          const { bus, taskId, contextId, agentId, agentName, traceId } =
-            this.context;
-
-          publishTraceArtifact(bus, taskId, contextId, "trace.mcp", {
-            tool_call_id: toolCallId,
-            tool: toolName,
-            agent_id: agentId,
-            agent_name: agentName,
-            trace_id: traceId,
-            request: {
-              method: "tools/call",
-              params: {
-                name: toolName,
-                arguments: truncate(sanitize(toolArgs)),
-              },
-            },
-            response: {
-              result: truncate(sanitize(toolResult)),
-              is_error: isError,
-            },
-            metadata: {
-              duration_ms: durationMs,
-              timestamp: new Date().toISOString(),
-              source: "mcp",
-            },
-          });
+        if (state) {
+          this.publishCall(state, toolCallId, toolName, toolArgs, toolResult, isError, durationMs);
+        } else {
+          log.debug("No task bound to session — trace artifact dropped", { sessionId, toolName });
         }
 
         // Return null to pass through unchanged
@@ -176,6 +286,45 @@ export class McpEvidenceHooks {
       },
     };
   }
+
+  /** Publish one tool call as a `trace.mcp` artifact to the session's task. */
+  private publishCall(
+    state: SessionHookState,
+    toolCallId: string,
+    toolName: string,
+    toolArgs: unknown,
+    toolResult: unknown,
+    isError: boolean,
+    durationMs: number,
+    policy?: Record<string, unknown>,
+  ): void {
+    const { bus, taskId, contextId, agentId, agentName, traceId } = state.context;
+
+    publishTraceArtifact(bus, taskId, contextId, "trace.mcp", {
+      tool_call_id: toolCallId,
+      tool: toolName,
+      agent_id: agentId,
+      agent_name: agentName,
+      trace_id: traceId,
+      request: {
+        method: "tools/call",
+        params: {
+          name: toolName,
+          arguments: truncate(sanitize(toolArgs)),
+        },
+      },
+      response: {
+        result: truncate(sanitize(toolResult)),
+        is_error: isError,
+      },
+      metadata: {
+        duration_ms: durationMs,
+        timestamp: new Date().toISOString(),
+        source: "mcp",
+        ...(policy ? { policy } : {}),
+      },
+    });
+  }
 }
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
@@ -217,6 +366,20 @@ function truncate(data: unknown): unknown {
   return data;
 }
 
+/** Order-insensitive JSON fingerprint of tool args for pre/post correlation. */
+function fingerprint(value: unknown): string {
+  const normalize = (v: unknown): unknown => {
+    if (v === null || typeof v !== "object") return v;
+    if (Array.isArray(v)) return v.map(normalize);
+    return Object.fromEntries(
+      Object.keys(v as Record<string, unknown>)
+        .sort()
+        .map((k) => [k, normalize((v as Record<string, unknown>)[k])]),
+    );
+  };
+  return safeJson(normalize(value ?? {}));
+}
+
 function safeJson(value: unknown): string {
   try {
     return JSON.stringify(value);
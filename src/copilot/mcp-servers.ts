@@ -0,0 +1,51 @@
+/**
+ * MCP Servers — Config → Copilot SDK `mcpServers`
+ *
+ * Single translation used by both chat sessions and context builds, so a
+ * server's tool allowlist, headers and timeout apply the same way
+ * everywhere. Disabled servers are skipped, and so are `$`-prefixed keys
+ * such as `"$comment"`, which document the config rather than name a server.
+ */
+
+import type { McpServerConfig } from "../config/types.js";
+
+/** Build the SDK `mcpServers` option; undefined when no server is enabled. */
+export function buildMcpServers(
+  mcp: Record<string, McpServerConfig> | undefined,
+): Record<string, unknown> | undefined {
+  if (!mcp) return undefined;
+
+  const mcpServers: Record<string, unknown> = {};
+  for (const [name, cfg] of mcpServerEntries(mcp)) {
+    if (cfg.enabled === false) continue;
+
+    const common = {
+      tools: cfg.tools ?? ["*"],
+      ...(cfg.timeout ? { timeout: cfg.timeout } : {}),
+    };
+    if (cfg.type === "http" || cfg.type === "sse") {
+      mcpServers[name] = {
+        type: cfg.type,
+        url: cfg.url,
+        ...common,
+        ...(cfg.headers && Object.keys(cfg.headers).length > 0 ? { headers: cfg.headers } : {}),
+      };
+    } else if (cfg.type === "stdio") {
+      mcpServers[name] = {
+        type: "stdio",
+        command: cfg.command,
+        args: cfg.args ?? [],
+        ...common,
+        ...(cfg.env ? { env: cfg.env } : {}),
+      };
+    }
+  }
+  return Object.keys(mcpServers).length > 0 ? mcpServers : undefined;
+}
+
+/** The configured servers: object entries whose name does not start with `$`. */
+export function mcpServerEntries<T>(mcp: Record<string, T> | undefined): [string, T][] {
+  return Object.entries(mcp ?? {}).filter(
+    ([name, cfg]) => !name.startsWith("$") && typeof cfg === "object" && cfg !== null && !Array.isArray(cfg),
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * Model Selection — Per-Request Model and Reasoning Overrides
+ *
+ * Callers pick the model for a task through metadata on the message, or on
+ * the task for every turn of it (the message wins):
+ *
+ *   { "model": "gpt-4.1", "reasoningEffort": "low" }   — or `reasoning_effort`
+ *
+ * A model override is only accepted if it matches `copilot.allowedModels`.
+ * Overrides that equal the configured defaults are dropped, so such
+ * requests share the context's default session.
+ */
+
+import type { Message as A2AMessage, Task } from "@a2a-js/sdk";
+
+import type { CopilotConfig, ReasoningEffort } from "../config/types.js";
+import { matchesGlob } from "../utils/glob.js";
+
+export const REASONING_EFFORTS: readonly ReasoningEffort[] = ["low", "medium", "high", "xhigh"];
+
+/** Raised for an override the deployment does not permit — the task is rejected. */
+export class ModelSelectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelSelectionError";
+  }
+}
+
+/** Overrides for one task; empty when the defaults apply. */
+export interface ModelSelection {
+  model?: string;
+  reasoningEffort?: ReasoningEffort;
+}
+
+/**
+ * Read and check the overrides requested for a task.
+ *
+ * @throws ModelSelectionError for a model outside `allowedModels` or an
+ *         unknown reasoning effort
+ */
+export function resolveModelSelection(
+  message: A2AMessage,
+  task: Task | undefined,
+  config: CopilotConfig,
+): ModelSelection {
+  const messageMeta = (message.metadata ?? {}) as Record<string, unknown>;
+  const taskMeta = (task?.metadata ?? {}) as Record<string, unknown>;
+  const pick = (...keys: string[]) => {
+    for (const meta of [messageMeta, taskMeta]) {
+      for (const key of keys) {
+        if (meta[key] !== undefined && meta[key] !== null && meta[key] !== "") return meta[key];
+      }
+    }
+    return undefined;
+  };
+
+  const selection: ModelSelection = {};
+
+  const model = pick("model");
+  if (model !== undefined && model !== config.model) {
+    if (typeof model !== "string") throw new ModelSelectionError("Metadata `model` must be a string");
+    const allowed = config.allowedModels ?? [];
+    if (!matchesGlob(model, allowed)) {
+      throw new ModelSelectionError(
+        allowed.length > 0
+          ? `Model "${model}" is not allowed. Allowed models: ${allowed.join(", ")}`
+          : "This agent does not accept model overrides",
+      );
+    }
+    selection.model = model;
+  }
+
+  const effort = pick("reasoningEffort", "reasoning_effort");
+  if (effort !== undefined && effort !== config.reasoningEffort) {
+    if (!REASONING_EFFORTS.includes(effort as ReasoningEffort)) {
+      throw new ModelSelectionError(
+        `Unknown reasoning effort ${JSON.stringify(effort)}. Use one of: ${REASONING_EFFORTS.join(", ")}`,
+      );
+    }
+    selection.reasoningEffort = effort as ReasoningEffort;
+  }
+
+  return selection;
+}
+
+/**
+ * Key of the session a task runs on. The default model keeps the plain
+ * contextId; each override gets its own session, since a session's model
+ * and reasoning effort are fixed when it is created.
+ */
+export function sessionKey(contextId: string, selection: ModelSelection = {}): string {
+  if (!selection.model && !selection.reasoningEffort) return contextId;
+  return `${contextId}::${selection.model ?? ""}::${selection.reasoningEffort ?? ""}`;
+}
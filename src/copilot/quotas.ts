@@ -0,0 +1,258 @@
+/**
+ * Quotas — Request Rate, Concurrency and Daily Tokens per Caller / Context
+ *
+ * The server's request handler calls `admit` for every inbound message,
+ * before a task is created; a message over any limit is refused with a
+ * `QuotaExceededError` (turned into an A2A error by the handler). Admission
+ * takes a concurrency slot, which the executor claims by messageId when the
+ * task starts and releases when it ends. A messageId can therefore be in
+ * flight only once: a copy sent before the first has settled is refused.
+ *
+ * Token use is reported by the executor after each turn. The per-task budget
+ * (`maxTaskTokens`) is enforced by the executor itself, mid-turn.
+ */
+
+import type { QuotaConfig, QuotaLimits } from "../config/types.js";
+import { ANONYMOUS_CALLER } from "./usage.js";
+
+const MINUTE_MS = 60_000;
+
+export type QuotaScope = "caller" | "context";
+
+/** Raised when a message would exceed a caller or context limit. */
+export class QuotaExceededError extends Error {
+  constructor(
+    message: string,
+    readonly scope: QuotaScope,
+    readonly limit: keyof QuotaLimits,
+    /** When the limit frees up again, if known */
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+/** Raised when a message arrives while one with the same messageId is still being handled. */
+export class DuplicateMessageError extends Error {
+  constructor(readonly messageId: string) {
+    super(`Message ${messageId} is already being processed`);
+    this.name = "DuplicateMessageError";
+  }
+}
+
+/** A concurrency slot taken by an admitted message. */
+export interface QuotaLease {
+  release(): void;
+}
+
+const NO_LEASE: QuotaLease = { release() {} };
+
+/** Daily token counter; reset when the UTC day changes. */
+interface DailyTokens {
+  day: string;
+  tokens: number;
+}
+
+export class QuotaManager {
+  private readonly config: QuotaConfig;
+  /** Accepted-message timestamps within the last minute, per scope key */
+  private readonly recent = new Map<string, number[]>();
+  /** Running tasks per scope key */
+  private readonly running = new Map<string, number>();
+  private readonly tokens = new Map<string, DailyTokens>();
+  /** Leases of admitted messages not yet claimed by the executor */
+  private readonly pending = new Map<string, QuotaLease>();
+  /** Tasks holding a lease — replies to them take no extra slot */
+  private readonly leasedTasks = new Set<string>();
+  /** Admitted messageIds whose request has not settled (see `abandon`) */
+  private readonly inFlight = new Set<string>();
+  /** When `recent` was last cleared of keys idle for a minute */
+  private lastSweep = 0;
+
+  constructor(config: QuotaConfig = {}) {
+    this.config = config;
+  }
+
+  /** Input + output tokens one task may use; 0 when unlimited. */
+  get maxTaskTokens(): number {
+    return this.config.maxTaskTokens ?? 0;
+  }
+
+  /**
+   * Check a message against its caller's and context's limits and count it.
+   * Throws `QuotaExceededError` without counting anything when over a limit,
+   * and `DuplicateMessageError` when `messageId` is already in flight.
+   *
+   * @param messageId  Used by the executor to `claim` the lease
+   * @param taskId     Set when the message continues an existing task
+   */
+  admit(messageId: string, caller: string | null, contextId?: string, taskId?: string): void {
+    const scopes = this.scopes(caller, contextId);
+    if (scopes.length === 0) return;
+
+    // Leases are found by messageId — two copies in flight would share one
+    if (this.inFlight.has(messageId)) throw new DuplicateMessageError(messageId);
+
+    const now = Date.now();
+    this.sweep(now);
+    // A reply to a running task (e.g. input-required) shares its slot
+    const takesSlot = !(taskId && this.leasedTasks.has(taskId));
+    for (const { scope, key, name, limits } of scopes) {
+      this.check(scope, key, name, limits, now, takesSlot);
+    }
+
+    this.inFlight.add(messageId);
+    for (const { key, limits } of scopes) {
+      if (limits.requestsPerMinute) {
+        const recent = this.recent.get(key) ?? [];
+        recent.push(now);
+        this.recent.set(key, recent);
+      }
+    }
+    if (!takesSlot) return;
+
+    const slotted = scopes.filter((s) => s.limits.concurrentTasks);
+    if (slotted.length === 0) return;
+    for (const { key } of slotted) this.running.set(key, (this.running.get(key) ?? 0) + 1);
+
+    let released = false;
+    this.pending.set(messageId, {
+      release: () => {
+        if (released) return;
+        released = true;
+        for (const { key } of slotted) {
+          const count = (this.running.get(key) ?? 1) - 1;
+          if (count > 0) this.running.set(key, count);
+          else this.running.delete(key);
+        }
+      },
+    });
+  }
+
+  /**
+   * Take over the lease of an admitted message, binding it to its task.
+   * Returns a no-op lease for messages that took no slot.
+   */
+  claim(messageId: string, taskId: string): QuotaLease {
+    const lease = this.pending.get(messageId);
+    if (!lease) return NO_LEASE;
+    this.pending.delete(messageId);
+    this.leasedTasks.add(taskId);
+    return {
+      release: () => {
+        this.leasedTasks.delete(taskId);
+        lease.release();
+      },
+    };
+  }
+
+  /**
+   * The message's request has settled: release its lease if it never
+   * reached the executor, and accept its messageId again.
+   */
+  abandon(messageId: string): void {
+    this.pending.get(messageId)?.release();
+    this.pending.delete(messageId);
+    this.inFlight.delete(messageId);
+  }
+
+  /** Count tokens used by a turn against the daily limits. */
+  recordTokens(caller: string | null, contextId: string, tokens: number): void {
+    if (tokens <= 0) return;
+    const day = utcDay(Date.now());
+    // Yesterday's counters are dead weight once the day rolls over
+    for (const [key, entry] of this.tokens) {
+      if (entry.day !== day) this.tokens.delete(key);
+    }
+    for (const { key, limits } of this.scopes(caller, contextId)) {
+      if (!limits.tokensPerDay) continue;
+      const entry = this.tokens.get(key);
+      if (entry?.day === day) entry.tokens += tokens;
+      else this.tokens.set(key, { day, tokens });
+    }
+  }
+
+  // ── Internals ───────────────────────────────────────────────────────────
+
+  /** Drop request timestamps of scopes idle for a minute, at most once a minute. */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < MINUTE_MS) return;
+    this.lastSweep = now;
+    for (const [key, times] of this.recent) {
+      if (now - times[times.length - 1] >= MINUTE_MS) this.recent.delete(key);
+    }
+  }
+
+  private scopes(caller: string | null, contextId?: string) {
+    const name = caller ?? ANONYMOUS_CALLER;
+    const callerLimits = { ...this.config.perCaller, ...this.config.callers?.[name] };
+    const scopes: { scope: QuotaScope; key: string; name: string; limits: QuotaLimits }[] = [];
+    if (hasLimits(callerLimits)) {
+      scopes.push({ scope: "caller", key: `caller:${name}`, name, limits: callerLimits });
+    }
+    if (contextId && hasLimits(this.config.perContext)) {
+      scopes.push({ scope: "context", key: `context:${contextId}`, name: contextId, limits: this.config.perContext! });
+    }
+    return scopes;
+  }
+
+  private check(
+    scope: QuotaScope,
+    key: string,
+    name: string,
+    limits: QuotaLimits,
+    now: number,
+    takesSlot: boolean,
+  ): void {
+    const subject = scope === "caller" ? `Caller "${name}"` : `Context ${name}`;
+
+    if (limits.requestsPerMinute) {
+      const recent = (this.recent.get(key) ?? []).filter((t) => now - t < MINUTE_MS);
+      if (recent.length > 0) this.recent.set(key, recent);
+      else this.recent.delete(key);
+      if (recent.length >= limits.requestsPerMinute) {
+        throw new QuotaExceededError(
+          `${subject} exceeded ${limits.requestsPerMinute} requests per minute`,
+          scope,
+          "requestsPerMinute",
+          recent[0] + MINUTE_MS - now,
+        );
+      }
+    }
+
+    if (takesSlot && limits.concurrentTasks && (this.running.get(key) ?? 0) >= limits.concurrentTasks) {
+      throw new QuotaExceededError(
+        `${subject} already has ${limits.concurrentTasks} task(s) running`,
+        scope,
+        "concurrentTasks",
+      );
+    }
+
+    if (limits.tokensPerDay) {
+      const entry = this.tokens.get(key);
+      if (entry?.day === utcDay(now) && entry.tokens >= limits.tokensPerDay) {
+        throw new QuotaExceededError(
+          `${subject} used its ${limits.tokensPerDay} tokens for today`,
+          scope,
+          "tokensPerDay",
+          msUntilNextUtcDay(now),
+        );
+      }
+    }
+  }
+}
+
+function hasLimits(limits: QuotaLimits | undefined): boolean {
+  return !!(limits && (limits.requestsPerMinute || limits.concurrentTasks || limits.tokensPerDay));
+}
+
+function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function msUntilNextUtcDay(time: number): number {
+  const next = new Date(time);
+  next.setUTCHours(24, 0, 0, 0);
+  return next.getTime() - time;
+}
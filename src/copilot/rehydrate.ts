@@ -0,0 +1,120 @@
+/**
+ * Rehydrate — Prime a New Session with the Context's Earlier Conversation
+ *
+ * When a context loses its Copilot session (TTL expiry, a failed resume, a
+ * fallback model) the model starts over, although the A2A task store still
+ * holds every earlier exchange. With `session.rehydrate` enabled, the
+ * executor rebuilds a compact transcript from those tasks — the caller's
+ * messages, input requests and the agent's `response` artifacts — and
+ * prepends it to the first prompt of the new session.
+ *
+ * Compaction: whitespace is collapsed, each message is cut to
+ * `maxMessageChars`, and the newest messages are kept until the character
+ * (or approximate token) budget runs out.
+ */
+
+import type { Message, Part, Task } from "@a2a-js/sdk";
+
+import type { RehydrateConfig } from "../config/types.js";
+
+/** Rough characters per token, for the token budget. */
+const CHARS_PER_TOKEN = 4;
+
+/** Earlier tasks of a context — implemented by the task stores. */
+export interface ContextHistory {
+  /** Tasks recorded for `contextId`, oldest first. */
+  listByContext(contextId: string): Promise<Task[]>;
+}
+
+export interface TranscriptEntry {
+  role: "user" | "agent";
+  text: string;
+}
+
+export interface Transcript {
+  /** Prompt prefix carrying the transcript */
+  text: string;
+  /** Messages included */
+  messages: number;
+  /** Older messages dropped to stay within the budget */
+  omitted: number;
+}
+
+/** Characters the transcript may use: the smaller of the two budgets. */
+export function rehydrateBudget(config: RehydrateConfig): number {
+  const maxChars = config.maxChars ?? 8_000;
+  return config.maxTokens ? Math.min(maxChars, config.maxTokens * CHARS_PER_TOKEN) : maxChars;
+}
+
+/**
+ * The conversation recorded in `tasks`, in order. Per task: the caller's
+ * messages and the agent's input requests from the history, then the
+ * final `response` artifact.
+ */
+export function transcriptEntries(tasks: Task[]): TranscriptEntry[] {
+  const entries: TranscriptEntry[] = [];
+  for (const task of tasks) {
+    for (const message of task.history ?? []) {
+      const entry = historyEntry(message);
+      if (entry) entries.push(entry);
+    }
+    const response = (task.artifacts ?? []).filter((a) => a.name === "response").pop();
+    // Streamed responses end with a part holding the full text
+    const text = response ? partText(response.parts[response.parts.length - 1]) : "";
+    if (text) entries.push({ role: "agent", text });
+  }
+  return entries;
+}
+
+/**
+ * Compact `entries` into a prompt prefix within `config`'s budget, or null
+ * when there is nothing to replay.
+ */
+export function buildTranscript(entries: TranscriptEntry[], config: RehydrateConfig): Transcript | null {
+  const budget = rehydrateBudget(config);
+  const maxMessageChars = config.maxMessageChars ?? 1_000;
+
+  const lines: string[] = [];
+  let used = 0;
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const line = `${entries[i].role === "user" ? "User" : "Assistant"}: ${compact(entries[i].text, maxMessageChars)}`;
+    if (used + line.length + 1 > budget) break;
+    lines.unshift(line);
+    used += line.length + 1;
+  }
+  if (lines.length === 0) return null;
+
+  const omitted = entries.length - lines.length;
+  const text =
+    "The conversation below took place earlier in this context, in a previous session. " +
+    "Treat it as prior context; respond only to the new message that follows it.\n\n" +
+    "<earlier-conversation>\n" +
+    (omitted > 0 ? `[${omitted} earlier message(s) omitted]\n` : "") +
+    lines.join("\n") +
+    "\n</earlier-conversation>\n\n";
+  return { text, messages: lines.length, omitted };
+}
+
+// ─── Internals ──────────────────────────────────────────────────────────────
+
+/** Caller messages, and agent messages that asked the caller for input. */
+function historyEntry(message: Message): TranscriptEntry | null {
+  // Agent status messages are progress notes, except input requests (text + data)
+  if (message.role === "agent" && !message.parts.some((p) => p.kind === "data")) return null;
+  const text = message.parts
+    .filter((p) => p.kind === "text")
+    .map(partText)
+    .join("\n");
+  return text ? { role: message.role, text } : null;
+}
+
+function partText(part: Part | undefined): string {
+  if (part?.kind === "text") return part.text;
+  if (part?.kind === "data") return JSON.stringify(part.data);
+  return "";
+}
+
+function compact(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
@@ -0,0 +1,116 @@
+/**
+ * Retry Policy — Transient Copilot Failures and Model Fallback
+ *
+ * When creating a session or running a turn fails, the error is classified:
+ *  - transient  rate limits, 5xx, overload, dropped connections — retried on
+ *               the same model with exponential backoff + jitter
+ *  - model      the model itself is unknown or unavailable, or the account's
+ *               quota for it is used up — skip straight to the next model in
+ *               `copilot.fallbackModels` (waiting would not help)
+ *  - fatal      anything else — the task fails
+ *
+ * A model that keeps failing transiently past `retry.maxAttempts` also
+ * falls back to the next model. Only turns that have produced no output
+ * and run no tools are retried (see the executor), so a retry never
+ * repeats visible work.
+ */
+
+import type { RetryConfig } from "../config/types.js";
+import type { ModelSelection } from "./model-selection.js";
+
+export type FailureKind = "transient" | "model" | "fatal";
+
+/** What to do after a failed attempt. */
+export type RetryDecision =
+  | { action: "retry"; delayMs: number }
+  | { action: "fallback" }
+  | { action: "fail" };
+
+/** One attempt, as recorded in the `trace.retry` artifact. */
+export interface AttemptRecord {
+  attempt: number;
+  model: string;
+  reasoning_effort?: string;
+  started_at: string;
+  duration_ms: number;
+  outcome: "success" | "error";
+  error?: string;
+  failure?: FailureKind;
+  retry_in_ms?: number;
+  next_model?: string;
+}
+
+const MODEL_ERROR =
+  /model[^.]*\b(not (found|available|supported)|unavailable|unknown|does not exist|is not enabled)|(unknown|unsupported|invalid) model|model_not_found/i;
+/** Used-up account quota: no backoff will bring it back within the task. */
+const QUOTA_ERROR = /quota|usage limit|premium requests?\b[^.]*\b(exhausted|exceeded|used up|limit)/i;
+const TRANSIENT_ERROR =
+  /rate.?limit|too many requests|overloaded|capacity|temporar|try again|unavailable|bad gateway|gateway timeout|timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE|EAI_AGAIN|socket hang up|network/i;
+
+/** An explicit status in the message ("HTTP 503", "status: 429"), not just any number. */
+const STATUS_IN_MESSAGE = /\b(?:HTTP(?:\/[\d.]+)?|status(?: code)?)[\s:=]*([1-5]\d\d)\b/i;
+
+/** Classify a Copilot SDK / CLI error. */
+export function classifyFailure(error: unknown): FailureKind {
+  const err = error as { message?: string; status?: number; statusCode?: number; code?: string };
+  const message = `${err?.message ?? String(error)} ${err?.code ?? ""}`;
+  const status = err?.status ?? err?.statusCode ?? Number(STATUS_IN_MESSAGE.exec(message)?.[1] ?? NaN);
+
+  if (MODEL_ERROR.test(message)) return "model";
+  if (QUOTA_ERROR.test(message)) return "model";
+  if (status === 408 || status === 429 || status >= 500) return "transient";
+  if (TRANSIENT_ERROR.test(message)) return "transient";
+  return "fatal";
+}
+
+export class RetryPolicy {
+  private readonly maxAttempts: number;
+  private readonly initialBackoff: number;
+  private readonly maxBackoff: number;
+  private readonly fallbackModels: string[];
+
+  constructor(config: RetryConfig = {}, fallbackModels: string[] = []) {
+    this.maxAttempts = Math.max(1, config.maxAttempts ?? 3);
+    this.initialBackoff = config.initialBackoff ?? 1_000;
+    this.maxBackoff = config.maxBackoff ?? 30_000;
+    this.fallbackModels = fallbackModels;
+  }
+
+  /** Attempts allowed on each model, including the first. */
+  get attemptsPerModel(): number {
+    return this.maxAttempts;
+  }
+
+  /**
+   * The task's model followed by the fallback models not already in the
+   * chain. A fallback equal to the default model uses the default session.
+   */
+  modelChain(selection: ModelSelection, defaultModel?: string): ModelSelection[] {
+    const chain = [selection];
+    const seen = new Set([selection.model ?? defaultModel]);
+    for (const model of this.fallbackModels) {
+      if (seen.has(model)) continue;
+      seen.add(model);
+      chain.push({ ...selection, model: model === defaultModel ? undefined : model });
+    }
+    return chain;
+  }
+
+  /**
+   * @param attemptOnModel  Attempts made so far on the current model (1-based)
+   * @param hasFallback     Another model is left in the chain
+   */
+  decide(failure: FailureKind, attemptOnModel: number, hasFallback: boolean): RetryDecision {
+    if (failure === "transient" && attemptOnModel < this.maxAttempts) {
+      return { action: "retry", delayMs: this.backoff(attemptOnModel) };
+    }
+    if (failure !== "fatal" && hasFallback) return { action: "fallback" };
+    return { action: "fail" };
+  }
+
+  private backoff(attempt: number): number {
+    const base = Math.min(this.maxBackoff, this.initialBackoff * 2 ** (attempt - 1));
+    // Equal jitter: uniform in [base/2, base]
+    return Math.round(base / 2 + Math.random() * (base / 2));
+  }
+}
@@ -3,49 +3,205 @@
  *
  * Maps A2A contextId → Copilot session for multi-turn conversations.
  * Handles session creation, reuse, TTL-based cleanup, and task tracking.
+ * Requests that override the model get a separate session per context and
+ * model (see `sessionKey`), so a context's default session is never reused
+ * with a different model. `openSessions` counts mapped and detached sessions
+ * for the task queue's `maxSessions` limit.
+ *
+ * With a file `session.store`, the context → session map survives restarts:
+ * a context with no open session resumes its previous Copilot session by id
+ * (`client.resumeSession`) before a new one is created.
+ *
+ * Each entry tracks its approximate conversation size. With
+ * `session.compaction` enabled, `compact` replaces a session that grew past
+ * the threshold with a new one seeded with the model's summary of it.
+ *
+ * `list`, `transcript`, `destroyById` and `flush` back the admin API.
+ *
+ * Lifetime: a session expires once idle for `idleTtl` or `maxLifetime`
+ * after creation — the same rule on reuse, in the cleanup sweep and for
+ * persisted records. Under `queue.maxSessions`, `evictIdle` closes the
+ * least recently used session that no task is using to make room.
+ * Lifecycle events (created, reused, resumed, evicted, expired) are logged
+ * and counted.
  */
 
 import type { CopilotClient } from "@github/copilot-sdk";
-import type { AgentConfig, McpServerConfig } from "../config/types.js";
+import type { AgentConfig } from "../config/types.js";
 import type { McpEvidenceHooks } from "./mcp-hooks.js";
+import type { InputBroker } from "./input-broker.js";
+import { buildMcpServers } from "./mcp-servers.js";
+import {
+  DEFAULT_SUMMARY_PROMPT,
+  approxTokens,
+  seedInstructions,
+  trackConversationSize,
+  type CompactionReport,
+} from "./compaction.js";
+import { createSessionStore, type SessionStore } from "./session-store.js";
+import { sessionKey, type ModelSelection } from "./model-selection.js";
 import { logger } from "../utils/logger.js";
+import { metrics } from "../utils/metrics.js";
 
 const log = logger.child("session-manager");
 
+const sessionsActive = metrics.gauge("a2a_copilot_sessions_active", "Copilot sessions currently open");
+const sessionsCreated = metrics.counter("a2a_copilot_sessions_created_total", "Copilot sessions created");
+const sessionsReused = metrics.counter("a2a_copilot_sessions_reused_total", "Turns that reused an open Copilot session");
+const sessionsExpired = metrics.counter(
+  "a2a_copilot_sessions_expired_total",
+  "Copilot sessions closed for being idle too long or reaching their max lifetime, by reason",
+);
+const sessionsEvicted = metrics.counter(
+  "a2a_copilot_sessions_evicted_total",
+  "Idle Copilot sessions closed to make room under maxSessions",
+);
+const sessionsResumed = metrics.counter(
+  "a2a_copilot_sessions_resumed_total",
+  "Attempts to resume a persisted Copilot session, by outcome",
+);
+const sessionsCompacted = metrics.counter(
+  "a2a_copilot_session_compactions_total",
+  "Context sessions summarized into a new session, by outcome",
+);
+
 interface SessionEntry {
+  contextId: string;
   sessionId: string;
+  /** Model overrides the session was created with */
+  selection: ModelSelection;
   /** The underlying Copilot SDK session object */
   session: unknown;
   createdAt: number;
   lastUsed: number;
+  /** Approximate conversation size in tokens, kept current from session events */
+  approxTokens: number;
+  /** Stops keeping `approxTokens` current — called when the session is dropped */
+  untrack: () => void;
+  /** Summary the session was seeded with, when it replaced a compacted one */
+  seed?: string;
+  /** Size at which to compact, raised after a failed attempt (default: the threshold) */
+  compactAt?: number;
+}
+
+/** A context session as reported by the admin API. */
+export interface SessionInfo {
+  contextId: string;
+  sessionId: string;
+  model: string;
+  reasoningEffort?: string;
+  createdAt: string;
+  lastUsed: string;
+  ageMs: number;
+  approxTokens: number;
+  /** Tasks currently running on (or waiting for input in) the session */
+  taskIds: string[];
+}
+
+/** One message of a session's conversation. */
+export interface TranscriptMessage {
+  timestamp: string;
+  role: "user" | "assistant";
+  content: string;
+  /** Tools the assistant called */
+  tools?: string[];
+}
+
+/** Why a session expired. */
+type ExpiryReason = "idle" | "lifetime";
+
+/** A session handed to a task. */
+export interface AcquiredSession {
+  sessionId: string;
+  session: unknown;
+  isNew: boolean;
+  /** Why the context's previous session could not be resumed (a new one was created) */
+  resumeError?: string;
 }
 
+/**
+ * Runs the summary prompt of a compaction on the session being compacted
+ * and returns the model's answer. Throws when no usable answer arrives.
+ */
+export type Summarizer = (session: unknown, sessionId: string, prompt: string, timeoutMs: number) => Promise<string>;
+
+/** Ask for the summary directly, outside any task. */
+const sendSummaryPrompt: Summarizer = async (session, _sessionId, prompt, timeoutMs) => {
+  const response = await (session as any).sendAndWait({ prompt }, timeoutMs);
+  return response?.data?.content ?? "";
+};
+
 export class SessionManager {
   private readonly client: CopilotClient;
   private readonly config: Required<AgentConfig>;
   private readonly mcpHooks: McpEvidenceHooks | null;
-  /** A2A contextId → session entry */
+  private readonly inputBroker: InputBroker | null;
+  /** Session key (contextId, plus model overrides) → session entry */
   private readonly contextSessions = new Map<string, SessionEntry>();
   /** taskId → sessionId for cancel support */
   private readonly taskSessions = new Map<string, string>();
+  /** Forked sessions not mapped to a context, until destroyed */
+  private readonly detachedSessions = new Set<unknown>();
+  /** Persisted context → session map (null: memory only) */
+  private readonly store: SessionStore | null;
+  /** Called whenever a session is destroyed */
+  private onSessionClosed: (() => void) | null = null;
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
+  /** Ms without a turn before a session expires (0 = never) */
+  private readonly idleTtl: number;
+  /** Ms after creation before a session expires (0 = never) */
+  private readonly maxLifetime: number;
 
-  constructor(client: CopilotClient, config: Required<AgentConfig>, mcpHooks?: McpEvidenceHooks) {
+  constructor(
+    client: CopilotClient,
+    config: Required<AgentConfig>,
+    mcpHooks?: McpEvidenceHooks,
+    inputBroker?: InputBroker,
+  ) {
     this.client = client;
     this.config = config;
     this.mcpHooks = mcpHooks || null;
+    this.inputBroker = inputBroker || null;
+    this.store = createSessionStore(config.session.store);
+    this.idleTtl = config.session.idleTtl ?? config.session.ttl ?? 3_600_000;
+    this.maxLifetime = config.session.maxLifetime ?? 0;
+    sessionsActive.collect(() => this.openSessions);
+  }
+
+  /** Load the persisted context → session map, dropping expired records. */
+  async restore(): Promise<void> {
+    if (!this.store) return;
+    await this.store.init();
+    const now = Date.now();
+    const pruned = this.store.prune((record) => this.expiry(record, now) !== null);
+    if (pruned > 0) log.info("Dropped expired persisted sessions", { pruned });
+  }
+
+  /** Sessions currently open, mapped or detached. */
+  get openSessions(): number {
+    return this.contextSessions.size + this.detachedSessions.size;
+  }
+
+  /** Register a callback run whenever a session closes (frees room). */
+  onClose(listener: () => void): void {
+    this.onSessionClosed = listener;
   }
 
   /**
-   * Build the session creation options from config.
+   * Build the session creation options from config and the task's overrides.
    * Includes model, streaming, MCP servers, system message, and custom agents.
    */
-  private buildSessionOptions(): Record<string, unknown> {
+  private buildSessionOptions(selection: ModelSelection = {}, seed?: string): Record<string, unknown> {
     const copilotCfg = this.config.copilot;
     const opts: Record<string, unknown> = {};
 
-    if (copilotCfg.model) {
-      opts.model = copilotCfg.model;
+    const model = selection.model ?? copilotCfg.model;
+    if (model) {
+      opts.model = model;
+    }
+    const reasoningEffort = selection.reasoningEffort ?? copilotCfg.reasoningEffort;
+    if (reasoningEffort) {
+      opts.reasoningEffort = reasoningEffort;
     }
 
     if (copilotCfg.streaming !== undefined) {
@@ -53,30 +209,9 @@ export class SessionManager {
     }
 
     // MCP servers
-    const mcpCfg = this.config.mcp;
-    if (mcpCfg && Object.keys(mcpCfg).length > 0) {
-      const mcpServers: Record<string, unknown> = {};
-      for (const [name, serverCfg] of Object.entries(mcpCfg)) {
-        const cfg = serverCfg as McpServerConfig;
-        if ("enabled" in cfg && cfg.enabled === false) continue;
-
-        if (cfg.type === "http") {
-          mcpServers[name] = { type: "http", url: cfg.url, tools: ["*"] };
-        } else if (cfg.type === "sse") {
-          mcpServers[name] = { type: "sse", url: cfg.url, tools: ["*"] };
-        } else if (cfg.type === "stdio") {
-          mcpServers[name] = {
-            type: "stdio",
-            command: cfg.command,
-            args: cfg.args ?? [],
-            tools: ["*"],
-            ...(cfg.env ? { env: cfg.env } : {}),
-          };
-        }
-      }
-      if (Object.keys(mcpServers).length > 0) {
-        opts.mcpServers = mcpServers;
-      }
+    const mcpServers = buildMcpServers(this.config.mcp);
+    if (mcpServers) {
+      opts.mcpServers = mcpServers;
     }
 
     // Working directory for tool operations
@@ -114,11 +249,24 @@ export class SessionManager {
       }
     }
 
+    // Summary of a compacted session's conversation
+    if (seed) {
+      const current = opts.systemMessage as { mode: string; content: string } | undefined;
+      opts.systemMessage = current
+        ? { ...current, content: `${current.content}\n\n${seedInstructions(seed)}` }
+        : { mode: "append", content: seedInstructions(seed) };
+    }
+
     // MCP evidence hooks — capture tool args and results as events
     if (this.mcpHooks) {
       opts.hooks = this.mcpHooks.getHooks();
     }
 
+    // Clarifying questions → A2A input-required
+    if (this.inputBroker?.userInputEnabled) {
+      opts.onUserInputRequest = this.inputBroker.onUserInputRequest;
+    }
+
     // Custom agents
     const customAgents = this.config.customAgents;
     if (customAgents && customAgents.length > 0) {
@@ -134,48 +282,118 @@ export class SessionManager {
   }
 
   /**
-   * Get an existing session for the given contextId, or create a new one.
-   * Returns the Copilot SDK session object.
+   * Get an existing session for the given contextId (and model overrides),
+   * or create a new one. Returns the Copilot SDK session object.
    */
-  async getOrCreate(contextId: string): Promise<{ sessionId: string; session: unknown; isNew: boolean }> {
+  async getOrCreate(contextId: string, selection: ModelSelection = {}): Promise<AcquiredSession> {
     const session = this.config.session;
+    const key = sessionKey(contextId, selection);
+    let resumeError: string | undefined;
 
     // Try reuse
     if (session.reuseByContext && contextId) {
-      const existing = this.contextSessions.get(contextId);
+      const existing = this.contextSessions.get(key);
       if (existing) {
-        const age = Date.now() - existing.createdAt;
-        if (age < (session.ttl ?? 3_600_000)) {
+        const expired = this.expiry(existing, Date.now());
+        if (!expired) {
           existing.lastUsed = Date.now();
-          log.debug("Reusing session", { contextId, sessionId: existing.sessionId });
+          this.persist(key, existing);
+          sessionsReused.inc();
+          log.info("Session reused", { contextId, sessionId: existing.sessionId });
           return { sessionId: existing.sessionId, session: existing.session, isNew: false };
         }
         // Expired — destroy and create new
-        log.info("Session expired, creating new", { contextId, age });
-        await this.destroySession(contextId);
+        this.countExpired(existing, expired);
+        await this.destroySession(contextId, selection);
+      } else {
+        // Not open in this process — resume the context's previous session
+        const stored = this.store?.get(key);
+        if (stored && !this.expiry(stored, Date.now())) {
+          try {
+            const resumed = await (this.client as any).resumeSession(
+              stored.sessionId,
+              this.buildSessionOptions(selection, stored.seed),
+            );
+            const entry: SessionEntry = {
+              ...stored,
+              selection,
+              session: resumed,
+              lastUsed: Date.now(),
+              approxTokens: stored.approxTokens ?? 0,
+              untrack: () => {},
+            };
+            entry.untrack = trackConversationSize(resumed, entry);
+            this.contextSessions.set(key, entry);
+            this.persist(key, entry);
+            sessionsResumed.inc({ outcome: "success" });
+            log.info("Session resumed", { contextId, sessionId: stored.sessionId });
+            return { sessionId: stored.sessionId, session: resumed, isNew: false };
+          } catch (e) {
+            resumeError = (e as Error).message ?? String(e);
+            sessionsResumed.inc({ outcome: "failure" });
+            log.warn("Session resume failed, creating new", { contextId, sessionId: stored.sessionId, error: resumeError });
+          }
+        }
+        if (stored) this.store!.delete(key);
       }
     }
 
     // Create new session
-    const opts = this.buildSessionOptions();
-    log.info("Creating Copilot session", { contextId, model: opts.model, mcpServers: Object.keys((opts.mcpServers ?? {}) as Record<string, unknown>) });
-
-    const copilotSession = await (this.client as any).createSession(opts);
-    const sessionId = copilotSession.sessionId ?? `session-${Date.now()}`;
+    const { sessionId, session: copilotSession } = await this.createSession(contextId, selection);
 
     const entry: SessionEntry = {
+      contextId,
       sessionId,
+      selection,
       session: copilotSession,
       createdAt: Date.now(),
       lastUsed: Date.now(),
+      approxTokens: 0,
+      untrack: () => {},
     };
+    entry.untrack = trackConversationSize(copilotSession, entry);
 
     if (contextId) {
-      this.contextSessions.set(contextId, entry);
+      this.contextSessions.set(key, entry);
+      if (session.reuseByContext) this.persist(key, entry);
     }
 
     log.info("Session created", { contextId, sessionId });
-    return { sessionId, session: copilotSession, isNew: true };
+    return { sessionId, session: copilotSession, isNew: true, ...(resumeError ? { resumeError } : {}) };
+  }
+
+  /**
+   * Create a throwaway session for `contextId` that is not mapped to the
+   * context (used to fork a busy context). The caller must destroy it.
+   */
+  async createDetached(contextId: string, selection: ModelSelection = {}): Promise<AcquiredSession> {
+    const { sessionId, session } = await this.createSession(contextId, selection);
+    this.detachedSessions.add(session);
+    log.info("Detached session created", { contextId, sessionId });
+    return { sessionId, session, isNew: true };
+  }
+
+  /** Destroy a session from `createDetached`. */
+  async destroyDetached(session: unknown): Promise<void> {
+    if (!this.detachedSessions.delete(session)) return;
+    try {
+      await (session as any).destroy();
+    } catch { /* best effort */ }
+    this.onSessionClosed?.();
+  }
+
+  private async createSession(
+    contextId: string,
+    selection: ModelSelection,
+    seed?: string,
+  ): Promise<{ sessionId: string; session: unknown }> {
+    const opts = this.buildSessionOptions(selection, seed);
+    log.info("Creating Copilot session", { contextId, model: opts.model, reasoningEffort: opts.reasoningEffort, mcpServers: Object.keys((opts.mcpServers ?? {}) as Record<string, unknown>) });
+
+    const copilotSession = await (this.client as any).createSession(opts);
+    sessionsCreated.inc();
+    const sessionId = copilotSession.sessionId ?? `session-${Date.now()}`;
+    return { sessionId, session: copilotSession };
   }
 
   /** Track a task → session mapping for cancel support. */
@@ -183,9 +401,15 @@ export class SessionManager {
     this.taskSessions.set(taskId, sessionId);
   }
 
-  /** Remove task tracking. */
+  /** Remove task tracking. The session's idle time starts now, when the task ends. */
   untrackTask(taskId: string): void {
+    const sessionId = this.taskSessions.get(taskId);
     this.taskSessions.delete(taskId);
+    const found = sessionId ? this.findEntry(sessionId) : undefined;
+    if (found) {
+      found[1].lastUsed = Date.now();
+      this.persist(...found);
+    }
   }
 
   /** Get the sessionId for a tracked task. */
@@ -193,21 +417,113 @@ export class SessionManager {
     return this.taskSessions.get(taskId);
   }
 
-  /** Get the Copilot session object for a context. */
-  getSessionForContext(contextId: string): unknown | undefined {
-    return this.contextSessions.get(contextId)?.session;
+  /** Get the Copilot session object for a context (and model overrides). */
+  getSessionForContext(contextId: string, selection: ModelSelection = {}): unknown | undefined {
+    return this.contextSessions.get(sessionKey(contextId, selection))?.session;
   }
 
-  /** Destroy a session by contextId. */
-  async destroySession(contextId: string): Promise<void> {
-    const entry = this.contextSessions.get(contextId);
+  /** Destroy a context's session (for the given model overrides). */
+  async destroySession(contextId: string, selection: ModelSelection = {}): Promise<void> {
+    await this.destroyEntry(sessionKey(contextId, selection));
+  }
+
+  private async destroyEntry(key: string): Promise<void> {
+    const entry = this.contextSessions.get(key);
     if (!entry) return;
+    entry.untrack();
     try {
       await (entry.session as any).destroy();
     } catch (e) {
       log.warn("Session destroy failed", { sessionId: entry.sessionId, error: (e as Error).message });
     }
-    this.contextSessions.delete(contextId);
+    this.contextSessions.delete(key);
+    this.store?.delete(key);
+    this.onSessionClosed?.();
+  }
+
+  // ── Admin ───────────────────────────────────────────────────────────────
+
+  /** Every open context session, oldest first. */
+  list(): SessionInfo[] {
+    const now = Date.now();
+    const tasksBySession = new Map<string, string[]>();
+    for (const [taskId, sessionId] of this.taskSessions) {
+      tasksBySession.set(sessionId, [...(tasksBySession.get(sessionId) ?? []), taskId]);
+    }
+    return [...this.contextSessions.values()]
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((entry) => {
+        const reasoningEffort = entry.selection.reasoningEffort ?? this.config.copilot.reasoningEffort;
+        return {
+          contextId: entry.contextId,
+          sessionId: entry.sessionId,
+          model: entry.selection.model ?? this.config.copilot.model ?? "default",
+          ...(reasoningEffort ? { reasoningEffort } : {}),
+          createdAt: new Date(entry.createdAt).toISOString(),
+          lastUsed: new Date(entry.lastUsed).toISOString(),
+          ageMs: now - entry.createdAt,
+          approxTokens: entry.approxTokens,
+          taskIds: tasksBySession.get(entry.sessionId) ?? [],
+        };
+      });
+  }
+
+  /** Forked sessions currently open (not listed: they belong to one task). */
+  get detachedCount(): number {
+    return this.detachedSessions.size;
+  }
+
+  /**
+   * The user and assistant messages of an open context session, from the
+   * CLI's event log; with `raw`, every event as recorded (tool calls,
+   * usage, ...). Null when no such session is open.
+   */
+  async transcript(sessionId: string, raw = false): Promise<TranscriptMessage[] | unknown[] | null> {
+    const entry = this.findEntry(sessionId)?.[1];
+    if (!entry) return null;
+    const events: any[] = await (entry.session as any).getMessages();
+    if (raw) return events;
+
+    const messages: TranscriptMessage[] = [];
+    for (const event of events) {
+      if (event.type === "user.message") {
+        messages.push({ timestamp: event.timestamp, role: "user", content: event.data.content ?? "" });
+      } else if (event.type === "assistant.message") {
+        const tools = (event.data.toolRequests ?? []).map((t: { name: string }) => t.name);
+        messages.push({
+          timestamp: event.timestamp,
+          role: "assistant",
+          content: event.data.content ?? "",
+          ...(tools.length > 0 ? { tools } : {}),
+        });
+      }
+    }
+    return messages;
+  }
+
+  /** Destroy an open context session by id. Returns false when none is open. */
+  async destroyById(sessionId: string): Promise<boolean> {
+    const found = this.findEntry(sessionId);
+    if (!found) return false;
+    log.info("Destroying session on request", { contextId: found[1].contextId, sessionId });
+    await this.destroyEntry(found[0]);
+    return true;
+  }
+
+  /** Destroy every open context session and forget persisted ones. Returns how many were open. */
+  async flush(): Promise<number> {
+    const keys = [...this.contextSessions.keys()];
+    for (const key of keys) await this.destroyEntry(key);
+    this.store?.prune(() => true);
+    log.info("Flushed all sessions", { destroyed: keys.length });
+    return keys.length;
+  }
+
+  private findEntry(sessionId: string): [string, SessionEntry] | undefined {
+    for (const item of this.contextSessions) {
+      if (item[1].sessionId === sessionId) return item;
+    }
+    return undefined;
   }
 
   /** Start periodic cleanup of expired sessions. */
@@ -216,30 +532,186 @@ export class SessionManager {
     if (interval <= 0) return;
 
     this.cleanupTimer = setInterval(() => {
-      const ttl = this.config.session.ttl ?? 3_600_000;
       const now = Date.now();
-      for (const [contextId, entry] of this.contextSessions.entries()) {
-        if (now - entry.lastUsed > ttl) {
-          log.info("Cleaning up expired session", { contextId, sessionId: entry.sessionId });
-          (entry.session as any).destroy().catch(() => {});
-          this.contextSessions.delete(contextId);
-        }
+      const busy = new Set(this.taskSessions.values());
+      let closed = false;
+      for (const [key, entry] of this.contextSessions.entries()) {
+        const expired = this.expiry(entry, now);
+        // A session with a running task expires once the task is done
+        if (!expired || busy.has(entry.sessionId)) continue;
+        this.countExpired(entry, expired);
+        entry.untrack();
+        (entry.session as any).destroy().catch(() => {});
+        this.contextSessions.delete(key);
+        this.store?.delete(key);
+        closed = true;
       }
+      this.store?.prune((record) => this.expiry(record, now) !== null);
+      if (closed) this.onSessionClosed?.();
     }, interval);
   }
 
-  /** Shutdown: destroy all sessions and stop cleanup. */
+  /**
+   * Close the least recently used context session that no task is using,
+   * to make room under `queue.maxSessions`. Sessions with a tracked task,
+   * or whose context `inUse` reports busy, are never evicted. The session
+   * stays in the store, so the context can resume it later. Synchronous,
+   * so the caller can count the room at once; the destroy runs behind.
+   */
+  evictIdle(inUse: (contextId: string) => boolean = () => false): boolean {
+    const busy = new Set(this.taskSessions.values());
+    let victim: [string, SessionEntry] | undefined;
+    for (const item of this.contextSessions) {
+      const [, entry] = item;
+      if (busy.has(entry.sessionId) || inUse(entry.contextId)) continue;
+      if (!victim || entry.lastUsed < victim[1].lastUsed) victim = item;
+    }
+    if (!victim) return false;
+
+    const [key, entry] = victim;
+    this.contextSessions.delete(key);
+    entry.untrack();
+    (entry.session as any).destroy().catch(() => {});
+    sessionsEvicted.inc();
+    log.info("Session evicted", {
+      contextId: entry.contextId,
+      sessionId: entry.sessionId,
+      idleMs: Date.now() - entry.lastUsed,
+      open: this.openSessions,
+    });
+    return true;
+  }
+
+  /** Why a session (or persisted record) has expired, or null while it is live. */
+  private expiry(record: { createdAt: number; lastUsed: number }, now: number): ExpiryReason | null {
+    if (this.maxLifetime > 0 && now - record.createdAt >= this.maxLifetime) return "lifetime";
+    if (this.idleTtl > 0 && now - record.lastUsed >= this.idleTtl) return "idle";
+    return null;
+  }
+
+  private countExpired(entry: SessionEntry, reason: ExpiryReason): void {
+    sessionsExpired.inc({ reason });
+    log.info("Session expired", {
+      contextId: entry.contextId,
+      sessionId: entry.sessionId,
+      reason,
+      ageMs: Date.now() - entry.createdAt,
+      idleMs: Date.now() - entry.lastUsed,
+    });
+  }
+
+  // ── Compaction ──────────────────────────────────────────────────────────
+
+  /** Whether the context's session has grown past the compaction threshold. */
+  needsCompaction(contextId: string, selection: ModelSelection = {}): boolean {
+    const compaction = this.config.session.compaction ?? {};
+    if (!compaction.enabled || !this.config.session.reuseByContext) return false;
+    const entry = this.contextSessions.get(sessionKey(contextId, selection));
+    return !!entry && entry.approxTokens >= (entry.compactAt ?? compaction.threshold ?? 100_000);
+  }
+
+  /**
+   * Summarize the context's session with the model, open a new session
+   * seeded with the summary and swap it in under the same key. The old
+   * session is kept when summarizing or creating the new one fails. Must
+   * only be called while no turn is running on the session. The executor
+   * passes `summarize` to run the summary as a turn of the current task.
+   */
+  async compact(
+    contextId: string,
+    selection: ModelSelection = {},
+    summarize: Summarizer = sendSummaryPrompt,
+  ): Promise<CompactionReport | null> {
+    const compaction = this.config.session.compaction ?? {};
+    const key = sessionKey(contextId, selection);
+    const entry = this.contextSessions.get(key);
+    if (!entry) return null;
+
+    const startedAt = Date.now();
+    const report: CompactionReport = {
+      contextId,
+      outcome: "failed",
+      previousSessionId: entry.sessionId,
+      sessionId: entry.sessionId,
+      tokensBefore: entry.approxTokens,
+      summaryTokens: 0,
+      threshold: compaction.threshold ?? 100_000,
+      durationMs: 0,
+    };
+    log.info("Compacting session", { contextId, sessionId: entry.sessionId, approxTokens: entry.approxTokens });
+
+    try {
+      const summary = (
+        await summarize(
+          entry.session,
+          entry.sessionId,
+          compaction.prompt || DEFAULT_SUMMARY_PROMPT,
+          compaction.timeout ?? 120_000,
+        )
+      ).trim();
+      if (!summary) throw new Error("The model returned an empty summary");
+
+      const { sessionId, session } = await this.createSession(contextId, selection, summary);
+      const replacement: SessionEntry = {
+        contextId,
+        sessionId,
+        selection,
+        session,
+        createdAt: Date.now(),
+        lastUsed: Date.now(),
+        approxTokens: approxTokens(seedInstructions(summary)),
+        seed: summary,
+        untrack: () => {},
+      };
+      replacement.untrack = trackConversationSize(session, replacement);
+      this.contextSessions.set(key, replacement);
+      this.persist(key, replacement);
+      entry.untrack();
+      (entry.session as any).destroy().catch(() => {});
+
+      Object.assign(report, { outcome: "compacted", sessionId, summaryTokens: approxTokens(summary) });
+      log.info("Session compacted", { contextId, previousSessionId: entry.sessionId, sessionId, summaryTokens: report.summaryTokens });
+    } catch (e) {
+      report.error = (e as Error).message ?? String(e);
+      // Stop a summary that is still running, and retry only after more growth
+      (entry.session as any).abort?.().catch(() => {});
+      entry.compactAt = entry.approxTokens + Math.ceil(report.threshold / 10);
+      log.warn("Session compaction failed — keeping the current session", { contextId, sessionId: entry.sessionId, error: report.error });
+    }
+    report.durationMs = Date.now() - startedAt;
+    sessionsCompacted.inc({ outcome: report.outcome });
+    return report;
+  }
+
+  /** Record a context's session in the store, if persistent. */
+  private persist(key: string, entry: SessionEntry): void {
+    this.store?.set(key, {
+      contextId: entry.contextId,
+      sessionId: entry.sessionId,
+      createdAt: entry.createdAt,
+      lastUsed: entry.lastUsed,
+      approxTokens: entry.approxTokens,
+      ...(entry.seed ? { seed: entry.seed } : {}),
+    });
+  }
+
+  /**
+   * Shutdown: destroy all sessions and stop cleanup. Persisted records are
+   * kept, so the next process resumes these sessions.
+   */
   async shutdown(): Promise<void> {
     if (this.cleanupTimer) {
       clearInterval(this.cleanupTimer);
       this.cleanupTimer = null;
     }
-    for (const [contextId, entry] of this.contextSessions.entries()) {
+    for (const [key, entry] of this.contextSessions.entries()) {
+      entry.untrack();
       try {
         await (entry.session as any).destroy();
       } catch { /* best effort */ }
-      this.contextSessions.delete(contextId);
+      this.contextSessions.delete(key);
     }
+    await this.store?.flush();
     log.info("Session manager shut down");
   }
 }
@@ -0,0 +1,131 @@
+/**
+ * Session Store — Persistent contextId → Copilot Session Map
+ *
+ * Records which Copilot session serves each session key (contextId, plus
+ * model overrides) so a restarted agent can resume the conversation with
+ * `client.resumeSession` instead of starting over. The file store keeps
+ * every record in memory and rewrites one JSON file atomically (temp +
+ * rename) after changes; bursts of changes are coalesced into one write.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+
+import type { SessionStoreConfig } from "../config/types.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child("session-store");
+
+export interface StoredSession {
+  contextId: string;
+  sessionId: string;
+  createdAt: number;
+  lastUsed: number;
+  /** Approximate conversation size in tokens (see `compaction.ts`) */
+  approxTokens?: number;
+  /** Summary a compacted session was seeded with, re-applied on resume */
+  seed?: string;
+}
+
+export interface SessionStore {
+  /** Load persisted records. Must be awaited before the store is used. */
+  init(): Promise<void>;
+  get(key: string): StoredSession | undefined;
+  set(key: string, record: StoredSession): void;
+  delete(key: string): void;
+  /** Drop the records `expired` selects; returns how many. */
+  prune(expired: (record: StoredSession) => boolean): number;
+  /** Wait for pending writes. */
+  flush(): Promise<void>;
+}
+
+// ─── File Store ─────────────────────────────────────────────────────────────
+
+export class FileSessionStore implements SessionStore {
+  private readonly path: string;
+  private readonly records = new Map<string, StoredSession>();
+  private writing: Promise<void> = Promise.resolve();
+  private writePending = false;
+
+  constructor(path: string) {
+    this.path = resolve(path);
+  }
+
+  async init(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf-8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw e;
+    }
+    try {
+      const sessions = (JSON.parse(raw) as { sessions?: Record<string, StoredSession> }).sessions ?? {};
+      for (const [key, record] of Object.entries(sessions)) {
+        if (typeof record?.sessionId === "string") this.records.set(key, record);
+      }
+    } catch (e) {
+      log.warn("Ignoring unreadable session store", { path: this.path, error: (e as Error).message });
+    }
+    log.info("Session store loaded", { path: this.path, sessions: this.records.size });
+  }
+
+  get(key: string): StoredSession | undefined {
+    const record = this.records.get(key);
+    return record ? { ...record } : undefined;
+  }
+
+  set(key: string, record: StoredSession): void {
+    this.records.set(key, { ...record });
+    this.scheduleWrite();
+  }
+
+  delete(key: string): void {
+    if (this.records.delete(key)) this.scheduleWrite();
+  }
+
+  prune(expired: (record: StoredSession) => boolean): number {
+    let pruned = 0;
+    for (const [key, record] of this.records) {
+      if (expired(record)) {
+        this.records.delete(key);
+        pruned++;
+      }
+    }
+    if (pruned > 0) this.scheduleWrite();
+    return pruned;
+  }
+
+  flush(): Promise<void> {
+    return this.writing;
+  }
+
+  /** Queue one write of the whole map, unless one is already waiting. */
+  private scheduleWrite(): void {
+    if (this.writePending) return;
+    this.writePending = true;
+    this.writing = this.writing
+      .then(() => {
+        this.writePending = false;
+        return this.write();
+      })
+      .catch((e) => {
+        log.warn("Session store write failed", { path: this.path, error: (e as Error).message });
+      });
+  }
+
+  private async write(): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify({ sessions: Object.fromEntries(this.records) }), "utf-8");
+    await rename(tmp, this.path);
+  }
+}
+
+// ─── Factory ────────────────────────────────────────────────────────────────
+
+/** The configured store, or null for "memory" (nothing survives a restart). */
+export function createSessionStore(config: SessionStoreConfig = {}): SessionStore | null {
+  if (config.type !== "file") return null;
+  return new FileSessionStore(config.path || ".a2a-copilot/sessions.json");
+}
@@ -0,0 +1,137 @@
+/**
+ * Structured Output — JSON Answers Validated Against a Schema
+ *
+ * A request asks for structured output by naming a skill that declares an
+ * `outputSchema`, or by carrying a schema itself, in message metadata:
+ *
+ *   { "skillId": "triage" }                      — or `skill_id`
+ *   { "outputSchema": { "type": "object", ... } } — or `output_schema`
+ *
+ * The executor appends `schemaInstructions` to the prompt, checks the final
+ * message with `parseStructuredOutput`, and re-prompts with
+ * `correctionPrompt` until the JSON validates or retries run out.
+ */
+
+import type { Message as A2AMessage } from "@a2a-js/sdk";
+
+import type { SkillConfig, StructuredOutputConfig } from "../config/types.js";
+import { assertValidSchema, validateJsonSchema, type JsonSchema, type SchemaCheckOptions } from "../utils/json-schema.js";
+
+/** Raised for a request whose schema cannot be used — the task is rejected. */
+export class OutputSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OutputSchemaError";
+  }
+}
+
+/** The schema a task's answer must satisfy, and where it came from. */
+export interface OutputSchema {
+  schema: JsonSchema;
+  /** `skill:<id>` or `request` */
+  source: string;
+}
+
+export type StructuredResult =
+  | { ok: true; value: unknown }
+  | { ok: false; errors: string[] };
+
+/**
+ * Find the output schema for a request. A schema in the message wins over
+ * the skill's; returns null when the request wants free text.
+ *
+ * @throws OutputSchemaError for an unusable schema, an unknown skill, or a
+ *         request schema when `allowRequestSchema` is off
+ */
+export function resolveOutputSchema(
+  message: A2AMessage,
+  skills: SkillConfig[],
+  config: StructuredOutputConfig = {},
+): OutputSchema | null {
+  const meta = (message.metadata ?? {}) as Record<string, unknown>;
+
+  const requested = meta.outputSchema ?? meta.output_schema;
+  if (requested !== undefined) {
+    if (config.allowRequestSchema === false) {
+      throw new OutputSchemaError("This agent does not accept output schemas in requests");
+    }
+    // Callers' regexes would run against the model's answer here — not accepted
+    return { schema: checked(requested, "outputSchema", { patterns: false }), source: "request" };
+  }
+
+  const skillId = meta.skillId ?? meta.skill_id;
+  if (typeof skillId !== "string") return null;
+  const skill = skills.find((s) => s.id === skillId);
+  if (!skill) throw new OutputSchemaError(`Unknown skill "${skillId}"`);
+  if (skill.outputSchema === undefined) return null;
+  return { schema: checked(skill.outputSchema, `skill "${skillId}" outputSchema`), source: `skill:${skillId}` };
+}
+
+function checked(schema: unknown, where: string, options?: SchemaCheckOptions): JsonSchema {
+  try {
+    assertValidSchema(schema, options);
+    return schema;
+  } catch (e) {
+    throw new OutputSchemaError(`Invalid ${where}: ${(e as Error).message}`);
+  }
+}
+
+// ─── Prompts ────────────────────────────────────────────────────────────────
+
+/** Appended to the caller's prompt when structured output is required. */
+export function schemaInstructions(schema: JsonSchema): string {
+  return (
+    "\n\n---\n" +
+    "Respond with a single JSON value that conforms to this JSON Schema. " +
+    "Output only the JSON — no explanation before or after it.\n" +
+    "```json\n" + JSON.stringify(schema, null, 2) + "\n```"
+  );
+}
+
+/** Follow-up prompt after a response failed to parse or validate. */
+export function correctionPrompt(errors: string[]): string {
+  return (
+    "Your previous response did not match the required JSON Schema:\n" +
+    errors.map((e) => `- ${e}`).join("\n") +
+    "\n\nReply again with only the corrected JSON."
+  );
+}
+
+// ─── Extraction ─────────────────────────────────────────────────────────────
+
+/** Extract the JSON answer from `text` and validate it against `schema`. */
+export function parseStructuredOutput(text: string, schema: JsonSchema): StructuredResult {
+  const extracted = extractJson(text);
+  if (!extracted.ok) return extracted;
+  const errors = validateJsonSchema(extracted.value, schema);
+  return errors.length === 0 ? extracted : { ok: false, errors };
+}
+
+/**
+ * Find the JSON in a model response: the whole text, else the last fenced
+ * code block that parses, else the outermost `{...}` / `[...]` span.
+ */
+export function extractJson(text: string): StructuredResult {
+  const candidates = [text.trim()];
+  const fences = [...text.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/gi)].map((m) => m[1].trim());
+  candidates.push(...fences.reverse());
+  for (const [open, close] of [["{", "}"], ["[", "]"]]) {
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    if (start !== -1 && end > start) candidates.push(text.slice(start, end + 1));
+  }
+
+  let firstError = "";
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return { ok: true, value: JSON.parse(candidate) };
+    } catch (e) {
+      firstError ||= (e as Error).message;
+    }
+  }
+  return {
+    ok: false,
+    errors: [text.trim() ? `$: response is not valid JSON (${firstError})` : "$: response was empty"],
+  };
+}
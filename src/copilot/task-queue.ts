@@ -0,0 +1,216 @@
+/**
+ * Task Queue — Global Concurrency and Session Limits
+ *
+ * Every task takes a slot here before it runs. At most `maxConcurrentTasks`
+ * tasks run at once; the rest wait in FIFO order, or by `priority` metadata
+ * (highest first, FIFO within a priority) when `order` is "priority".
+ *
+ * A task that will open a new Copilot session also needs room under
+ * `maxSessions`. A waiter blocked only on sessions is passed over by later
+ * tasks that reuse an existing session, so a full session table does not
+ * stall the whole queue. When the table is full, an idle session is evicted
+ * (least recently used first) to make room; a task waits only while every
+ * open session is in use. Waiters give up after `timeout` ms.
+ */
+
+import type { QueueConfig } from "../config/types.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child("task-queue");
+
+/** Raised when `maxDepth` tasks are already waiting. */
+export class TaskQueueFullError extends Error {
+  constructor(readonly depth: number) {
+    super(`The agent is at capacity with ${depth} task(s) already waiting; retry later`);
+    this.name = "TaskQueueFullError";
+  }
+}
+
+/** Rejects a waiter's `ready` when it waited longer than `timeout`. */
+export class TaskQueueTimeoutError extends Error {
+  constructor(readonly waitedMs: number) {
+    super(`Timed out after ${Math.round(waitedMs / 1000)}s waiting for a free execution slot`);
+    this.name = "TaskQueueTimeoutError";
+  }
+}
+
+export interface TaskSlotOptions {
+  /** Larger runs first in "priority" order (default: 0) */
+  priority?: number;
+  /** Whether the task will open a new session — checked when it would start */
+  needsSession?: () => boolean;
+  /** Called with the task's new position whenever the queue moves */
+  onAdvance?: (position: number, waiting: number) => void;
+}
+
+/** A task's claim on a running slot. */
+export interface TaskSlot {
+  /** Tasks ahead of this one when it entered (0 = runs immediately) */
+  readonly position: number;
+  /** Resolves once the task may run; rejects with `TaskQueueTimeoutError` */
+  readonly ready: Promise<void>;
+  /** The task's new session now exists (and is counted as open) */
+  sessionOpened(): void;
+  /** Release the slot (or withdraw from the queue). Idempotent. */
+  leave(): void;
+}
+
+interface Waiter {
+  taskId: string;
+  priority: number;
+  needsSession: () => boolean;
+  onAdvance?: (position: number, waiting: number) => void;
+  start: () => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export class TaskQueue {
+  private readonly maxConcurrent: number;
+  private readonly maxSessions: number;
+  private readonly byPriority: boolean;
+  private readonly timeout: number;
+  private readonly maxDepth: number;
+  private readonly openSessions: () => number;
+  private readonly evictIdle: () => boolean;
+  private readonly waiting: Waiter[] = [];
+  private readonly runningTasks = new Set<string>();
+  /** Running tasks that have yet to open their session */
+  private readonly pendingSessions = new Set<string>();
+
+  /**
+   * @param openSessions  Sessions currently open (see `SessionManager.openSessions`)
+   * @param evictIdle     Close one idle session; false when none can be closed
+   *                      (see `SessionManager.evictIdle`)
+   */
+  constructor(config: QueueConfig, openSessions: () => number, evictIdle: () => boolean = () => false) {
+    this.maxConcurrent = config.maxConcurrentTasks || Infinity;
+    this.maxSessions = config.maxSessions || Infinity;
+    this.byPriority = config.order === "priority";
+    this.timeout = config.timeout ?? 300_000;
+    this.maxDepth = config.maxDepth ?? 100;
+    this.openSessions = openSessions;
+    this.evictIdle = evictIdle;
+  }
+
+  /** Tasks holding a running slot. */
+  get running(): number {
+    return this.runningTasks.size;
+  }
+
+  /** Tasks waiting for a slot. */
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * Take a slot for `taskId`, immediately if one is free. Throws
+   * `TaskQueueFullError` when `maxDepth` tasks are already waiting.
+   */
+  enter(taskId: string, options: TaskSlotOptions = {}): TaskSlot {
+    let start!: () => void;
+    let fail!: (error: Error) => void;
+    const ready = new Promise<void>((resolve, reject) => {
+      start = resolve;
+      fail = reject;
+    });
+    const waiter: Waiter = {
+      taskId,
+      priority: this.byPriority ? (options.priority ?? 0) : 0,
+      needsSession: options.needsSession ?? (() => false),
+      onAdvance: options.onAdvance,
+      start,
+      timer: null,
+    };
+
+    // Behind every waiter of the same or higher priority
+    let index = this.waiting.length;
+    while (index > 0 && this.waiting[index - 1].priority < waiter.priority) index--;
+    this.waiting.splice(index, 0, waiter);
+    this.pump();
+    if (this.runningTasks.has(taskId)) return this.slot(taskId, 0, ready);
+
+    if (this.waiting.length > this.maxDepth) {
+      this.withdraw(taskId);
+      throw new TaskQueueFullError(this.maxDepth);
+    }
+
+    const enteredAt = Date.now();
+    if (this.timeout > 0) {
+      waiter.timer = setTimeout(() => {
+        this.withdraw(taskId);
+        log.warn("Task timed out in queue", { taskId, waitedMs: Date.now() - enteredAt });
+        fail(new TaskQueueTimeoutError(Date.now() - enteredAt));
+      }, this.timeout);
+    }
+
+    const position = this.waiting.indexOf(waiter) + 1;
+    log.info("Task queued", { taskId, position, waiting: this.waiting.length, running: this.running });
+    this.notifyPositions(position + 1);
+    return this.slot(taskId, position, ready);
+  }
+
+  /** Start waiters that fit now — call when sessions close. */
+  pump(): void {
+    let started = false;
+    for (let i = 0; i < this.waiting.length && this.running < this.maxConcurrent; ) {
+      const waiter = this.waiting[i];
+      if (!this.canStart(waiter.needsSession)) {
+        i++;
+        continue;
+      }
+      this.waiting.splice(i, 1);
+      if (waiter.timer) clearTimeout(waiter.timer);
+      this.begin(waiter.taskId, waiter.needsSession);
+      log.debug("Task dequeued", { taskId: waiter.taskId, running: this.running });
+      waiter.start();
+      started = true;
+    }
+    if (started) this.notifyPositions();
+  }
+
+  // ── Internals ───────────────────────────────────────────────────────────
+
+  private canStart(needsSession: () => boolean): boolean {
+    if (this.running >= this.maxConcurrent) return false;
+    if (this.maxSessions === Infinity || !needsSession()) return true;
+    return this.openSessions() + this.pendingSessions.size < this.maxSessions || this.evictIdle();
+  }
+
+  private begin(taskId: string, needsSession: () => boolean): void {
+    this.runningTasks.add(taskId);
+    if (this.maxSessions !== Infinity && needsSession()) this.pendingSessions.add(taskId);
+  }
+
+  private slot(taskId: string, position: number, ready: Promise<void>): TaskSlot {
+    let left = false;
+    return {
+      position,
+      ready,
+      sessionOpened: () => {
+        this.pendingSessions.delete(taskId);
+      },
+      leave: () => {
+        if (left) return;
+        left = true;
+        this.pendingSessions.delete(taskId);
+        if (this.runningTasks.delete(taskId)) this.pump();
+        else this.withdraw(taskId);
+      },
+    };
+  }
+
+  private withdraw(taskId: string): void {
+    const index = this.waiting.findIndex((w) => w.taskId === taskId);
+    if (index < 0) return;
+    const [waiter] = this.waiting.splice(index, 1);
+    if (waiter.timer) clearTimeout(waiter.timer);
+    this.notifyPositions(index + 1);
+  }
+
+  /** Tell waiters from `from` (1-based) onwards where they now stand. */
+  private notifyPositions(from = 1): void {
+    for (let i = from - 1; i < this.waiting.length; i++) {
+      this.waiting[i].onAdvance?.(i + 1, this.waiting.length);
+    }
+  }
+}
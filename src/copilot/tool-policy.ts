@@ -0,0 +1,142 @@
+/**
+ * Tool Policy — Allow/Deny Rules for Tool Calls
+ *
+ * Evaluated in `onPreToolUse` before any tool (MCP or built-in) runs.
+ * Rules are checked in order and the first match decides; calls no rule
+ * matches get `toolPolicy.default`.
+ *
+ * MCP tools reach the hooks as `<server>-<tool>`; the server part is
+ * recognised from the configured MCP server names, so rules can target a
+ * server and/or the bare tool name.
+ */
+
+import { posix } from "node:path";
+
+import type { ToolPolicyConfig, ToolPolicyRule } from "../config/types.js";
+import { matchesGlob } from "../utils/glob.js";
+
+/** Outcome of evaluating one call. */
+export interface PolicyDecision {
+  allowed: boolean;
+  /** Reason for a denial (returned to the model) */
+  reason?: string;
+  /** Index of the matching rule; undefined when the default applied */
+  rule?: number;
+  /** MCP server the tool belongs to, if recognised */
+  server?: string;
+}
+
+interface CompiledMatcher {
+  pattern?: RegExp;
+  notPattern?: RegExp;
+  prefix?: string;
+  notPrefix?: string;
+}
+
+interface CompiledRule {
+  rule: ToolPolicyRule;
+  args: Array<[string, CompiledMatcher]>;
+}
+
+export class ToolPolicy {
+  private readonly defaultAllow: boolean;
+  private readonly rules: CompiledRule[];
+  /** Longest first, so `github-enterprise` wins over `github` */
+  private readonly serverNames: string[];
+  /** Base for relative path arguments in prefix checks */
+  private readonly workspace: string | undefined;
+
+  /**
+   * @param serverNames         Configured MCP server names
+   * @param workspaceDirectory  Relative paths are resolved against it for prefix checks
+   * @throws Error when a rule is malformed (unknown action, bad regex)
+   */
+  constructor(config: ToolPolicyConfig = {}, serverNames: string[] = [], workspaceDirectory?: string) {
+    const fallback = config.default ?? "allow";
+    if (fallback !== "allow" && fallback !== "deny") {
+      throw new Error(`toolPolicy.default must be "allow" or "deny", got "${fallback as string}"`);
+    }
+    this.defaultAllow = fallback === "allow";
+    this.rules = (config.rules ?? []).map((rule, i) => compileRule(rule, i));
+    this.serverNames = [...serverNames].sort((a, b) => b.length - a.length);
+    this.workspace = workspaceDirectory?.replace(/\\/g, "/");
+  }
+
+  evaluate(toolName: string, args: unknown): PolicyDecision {
+    const server = this.serverNames.find((s) => toolName.startsWith(`${s}-`));
+    const bareName = server ? toolName.slice(server.length + 1) : toolName;
+    const argMap = (args && typeof args === "object" ? args : {}) as Record<string, unknown>;
+
+    for (let i = 0; i < this.rules.length; i++) {
+      const { rule, args: matchers } = this.rules[i];
+      if (rule.server !== undefined && (!server || !matchesGlob(server, [rule.server]))) continue;
+      if (rule.tools?.length && !matchesGlob(bareName, rule.tools) && !matchesGlob(toolName, rule.tools)) {
+        continue;
+      }
+      if (!matchers.every(([name, m]) => matchArgument(argMap[name], m, this.workspace))) continue;
+
+      return rule.action === "allow"
+        ? { allowed: true, rule: i, server }
+        : { allowed: false, rule: i, server, reason: rule.reason ?? `Tool ${toolName} is not allowed by policy` };
+    }
+
+    return this.defaultAllow
+      ? { allowed: true, server }
+      : { allowed: false, server, reason: `Tool ${toolName} is not in the list of allowed tools` };
+  }
+}
+
+// ─── Rule Compilation ───────────────────────────────────────────────────────
+
+function compileRule(rule: ToolPolicyRule, index: number): CompiledRule {
+  const where = `toolPolicy.rules[${index}]`;
+  if (rule.action !== "allow" && rule.action !== "deny") {
+    throw new Error(`${where}.action must be "allow" or "deny", got "${rule.action as string}"`);
+  }
+  const args = Object.entries(rule.args ?? {}).map(([name, m]): [string, CompiledMatcher] => [
+    name,
+    {
+      pattern: compileRegex(m.pattern, `${where}.args.${name}.pattern`),
+      notPattern: compileRegex(m.notPattern, `${where}.args.${name}.notPattern`),
+      prefix: m.prefix !== undefined ? posix.normalize(m.prefix) : undefined,
+      notPrefix: m.notPrefix !== undefined ? posix.normalize(m.notPrefix) : undefined,
+    },
+  ]);
+  return { rule, args };
+}
+
+function compileRegex(source: string | undefined, where: string): RegExp | undefined {
+  if (source === undefined) return undefined;
+  try {
+    return new RegExp(source);
+  } catch (e) {
+    throw new Error(`${where} is not a valid regular expression: ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Check one argument. A missing argument only satisfies negative conditions
+ * (`notPattern` / `notPrefix`), so "deny writes outside X" also denies a
+ * call that omits the path.
+ */
+function matchArgument(value: unknown, m: CompiledMatcher, workspace?: string): boolean {
+  if (value === undefined || value === null) {
+    return !m.pattern && !m.prefix;
+  }
+  const str = typeof value === "string" ? value : JSON.stringify(value);
+  if (m.pattern && !m.pattern.test(str)) return false;
+  if (m.notPattern && m.notPattern.test(str)) return false;
+  if (m.prefix !== undefined || m.notPrefix !== undefined) {
+    const raw = str.replace(/\\/g, "/");
+    const path = workspace && !posix.isAbsolute(raw) ? posix.join(workspace, raw) : posix.normalize(raw);
+    if (m.prefix !== undefined && !hasPrefix(path, m.prefix)) return false;
+    if (m.notPrefix !== undefined && hasPrefix(path, m.notPrefix)) return false;
+  }
+  return true;
+}
+
+/** Path-aware prefix check: `/data` covers `/data/x` but not `/database`. */
+function hasPrefix(path: string, prefix: string): boolean {
+  if (prefix.endsWith("/")) return path.startsWith(prefix) || path === prefix.slice(0, -1);
+  return path === prefix || path.startsWith(`${prefix}/`);
+}
@@ -0,0 +1,91 @@
+/**
+ * Turn Tracing — Spans for a Copilot Turn, its Tool Calls and Subagents
+ *
+ * Listens to the session's tool and subagent events for the length of one
+ * turn. Tool spans nest under the subagent (or tool call) that made them,
+ * using the SDK's `parentToolCallId`; a subagent nests under the tool call
+ * that launched it. Spans still open when the turn ends are closed with it.
+ */
+
+import type { AttributeValue, Span, Tracer } from "../utils/tracing.js";
+
+export interface TurnTrace {
+  /** The `copilot.turn` span */
+  readonly span: Span;
+  /** Stop listening and end every span, failing the turn span with `error` if given. */
+  end(error?: unknown): void;
+}
+
+/**
+ * Start a `copilot.turn` span under `parent` and trace the session's tool
+ * calls and subagents until `end()` is called.
+ */
+export function traceTurn(
+  tracer: Tracer,
+  session: any,
+  parent: Span,
+  attributes: Record<string, AttributeValue | null | undefined>,
+): TurnTrace {
+  const span = tracer.startSpan("copilot.turn", { parent, attributes });
+  /** toolCallId → span of the tool call / of the subagent it launched */
+  const tools = new Map<string, Span>();
+  const agents = new Map<string, Span>();
+  const parentOf = (toolCallId: string | undefined): Span =>
+    (toolCallId && (agents.get(toolCallId) ?? tools.get(toolCallId))) || span;
+
+  const unsubs: unknown[] = [
+    session.on("tool.execution_start", (event: any) => {
+      const data = event?.data ?? {};
+      const name = data.toolName ?? data.mcpToolName ?? "unknown";
+      tools.set(
+        data.toolCallId ?? "",
+        tracer.startSpan(`execute_tool ${name}`, {
+          parent: parentOf(data.parentToolCallId),
+          attributes: {
+            "gen_ai.tool.name": name,
+            "gen_ai.tool.call.id": data.toolCallId,
+            "mcp.server.name": data.mcpServerName,
+          },
+        }),
+      );
+    }),
+    session.on("tool.execution_complete", (event: any) => {
+      const data = event?.data ?? {};
+      const tool = tools.get(data.toolCallId ?? "");
+      if (!tool) return;
+      if (data.success === false) tool.fail(data.error?.message ?? "Tool call failed");
+      tool.end();
+    }),
+    session.on("subagent.started", (event: any) => {
+      const data = event?.data ?? {};
+      const name = data.agentName ?? "subagent";
+      agents.set(
+        data.toolCallId ?? "",
+        tracer.startSpan(`invoke_agent ${name}`, {
+          parent: tools.get(data.toolCallId ?? "") ?? span,
+          attributes: { "gen_ai.agent.name": name, "gen_ai.tool.call.id": data.toolCallId },
+        }),
+      );
+    }),
+    session.on("subagent.completed", (event: any) => {
+      agents.get(event?.data?.toolCallId ?? "")?.end();
+    }),
+    session.on("subagent.failed", (event: any) => {
+      agents.get(event?.data?.toolCallId ?? "")?.fail(event?.data?.error ?? "Subagent failed").end();
+    }),
+  ];
+
+  return {
+    span,
+    end(error?: unknown) {
+      for (const unsub of unsubs) {
+        if (typeof unsub === "function") unsub();
+      }
+      for (const open of [...agents.values(), ...tools.values()]) {
+        if (!open.ended) open.setAttribute("copilot.interrupted", true).end();
+      }
+      if (error !== undefined) span.fail(error);
+      span.end();
+    },
+  };
+}
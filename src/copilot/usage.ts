@@ -0,0 +1,225 @@
+/**
+ * Usage Accounting — Tokens, Premium Requests and Tool Calls
+ *
+ * `trackTurnUsage` listens to a Copilot session for the length of one turn
+ * and sums its `assistant.usage` events (one per model API call) and tool
+ * executions. The executor publishes each turn's usage as a `trace.usage`
+ * artifact and records it in the `UsageLedger`, which keeps running totals
+ * per contextId and per authenticated caller for the `/usage` API. The
+ * ledger lives in memory only; totals start from zero after a restart.
+ */
+
+import type { UsageConfig } from "../config/types.js";
+
+/** Caller name recorded for unauthenticated requests. */
+export const ANONYMOUS_CALLER = "anonymous";
+
+/** Usage of one turn (one prompt sent to a session). */
+export interface TurnUsage {
+  /** Model the session ran on */
+  model: string;
+  /** Model API calls made during the turn */
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  /** Premium requests charged (the SDK's `cost`) */
+  premiumRequests: number;
+  /** Time spent in model API calls, ms */
+  apiDurationMs: number;
+  /** Wall-clock duration of the turn, ms */
+  durationMs: number;
+  toolCalls: number;
+}
+
+/** Running totals for a context or caller. */
+export interface UsageTotals {
+  turns: number;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  premiumRequests: number;
+  apiDurationMs: number;
+  durationMs: number;
+  toolCalls: number;
+  /** Per-model breakdown */
+  models: Record<string, { turns: number; requests: number; inputTokens: number; outputTokens: number; premiumRequests: number }>;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+/** A turn being tracked; `stop()` detaches and returns the usage. */
+export interface TurnUsageTracker {
+  stop(): TurnUsage;
+}
+
+// ─── Per-Turn Collection ────────────────────────────────────────────────────
+
+/**
+ * Start counting usage on `session` until `stop()` is called.
+ *
+ * @param model    Model the session was created with; usage events may
+ *                 override it with the model actually used
+ * @param onUsage  Called with the running totals after each model API call
+ */
+export function trackTurnUsage(
+  session: any,
+  model: string,
+  onUsage?: (usage: TurnUsage) => void,
+): TurnUsageTracker {
+  const startedAt = Date.now();
+  const usage: TurnUsage = {
+    model,
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    premiumRequests: 0,
+    apiDurationMs: 0,
+    durationMs: 0,
+    toolCalls: 0,
+  };
+
+  const unsubs: unknown[] = [
+    session.on("assistant.usage", (event: any) => {
+      const data = event?.data ?? {};
+      usage.requests++;
+      usage.inputTokens += data.inputTokens ?? 0;
+      usage.outputTokens += data.outputTokens ?? 0;
+      usage.cacheReadTokens += data.cacheReadTokens ?? 0;
+      usage.cacheWriteTokens += data.cacheWriteTokens ?? 0;
+      usage.premiumRequests += data.cost ?? 0;
+      usage.apiDurationMs += data.duration ?? 0;
+      if (data.model) usage.model = data.model;
+      onUsage?.(usage);
+    }),
+    session.on("tool.execution_start", () => {
+      usage.toolCalls++;
+    }),
+  ];
+
+  return {
+    stop() {
+      for (const unsub of unsubs) {
+        if (typeof unsub === "function") unsub();
+      }
+      usage.durationMs = Date.now() - startedAt;
+      return { ...usage };
+    },
+  };
+}
+
+/** `trace.usage` artifact payload for a turn. */
+export function usageTraceData(usage: TurnUsage, caller: string | null, turn: number): Record<string, unknown> {
+  return {
+    model: usage.model,
+    caller: caller ?? ANONYMOUS_CALLER,
+    turn,
+    requests: usage.requests,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    cache_read_tokens: usage.cacheReadTokens,
+    cache_write_tokens: usage.cacheWriteTokens,
+    premium_requests: usage.premiumRequests,
+    api_duration_ms: usage.apiDurationMs,
+    duration_ms: usage.durationMs,
+    tool_calls: usage.toolCalls,
+  };
+}
+
+// ─── Ledger ─────────────────────────────────────────────────────────────────
+
+export class UsageLedger {
+  private readonly byContext = new Map<string, UsageTotals>();
+  private readonly byCaller = new Map<string, UsageTotals>();
+  private readonly maxContexts: number;
+
+  constructor(config: UsageConfig = {}) {
+    this.maxContexts = config.maxContexts ?? 10_000;
+  }
+
+  /** Add a turn's usage to its context's and caller's totals. */
+  record(contextId: string, caller: string | null, usage: TurnUsage): void {
+    const name = caller ?? ANONYMOUS_CALLER;
+    accumulate(this.byCaller, name, usage);
+    if (contextId) {
+      accumulate(this.byContext, contextId, usage);
+      // Oldest-updated contexts go first; insertion order tracks recency
+      while (this.byContext.size > this.maxContexts) {
+        this.byContext.delete(this.byContext.keys().next().value as string);
+      }
+    }
+  }
+
+  /** Totals for a context, or undefined if it has no recorded usage. */
+  context(contextId: string): UsageTotals | undefined {
+    return this.byContext.get(contextId);
+  }
+
+  /** Totals for a caller (`anonymous` for unauthenticated requests). */
+  caller(name: string): UsageTotals | undefined {
+    return this.byCaller.get(name);
+  }
+
+  /** Totals per caller and per context. */
+  summary(): { callers: Record<string, UsageTotals>; contexts: Record<string, UsageTotals> } {
+    return {
+      callers: Object.fromEntries(this.byCaller),
+      contexts: Object.fromEntries(this.byContext),
+    };
+  }
+}
+
+function accumulate(map: Map<string, UsageTotals>, key: string, usage: TurnUsage): void {
+  const now = new Date().toISOString();
+  const totals = map.get(key) ?? emptyTotals(now);
+  map.delete(key);
+  map.set(key, totals);
+
+  totals.turns++;
+  totals.requests += usage.requests;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.cacheReadTokens += usage.cacheReadTokens;
+  totals.cacheWriteTokens += usage.cacheWriteTokens;
+  totals.premiumRequests += usage.premiumRequests;
+  totals.apiDurationMs += usage.apiDurationMs;
+  totals.durationMs += usage.durationMs;
+  totals.toolCalls += usage.toolCalls;
+  totals.lastSeen = now;
+
+  const model = (totals.models[usage.model] ??= {
+    turns: 0,
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    premiumRequests: 0,
+  });
+  model.turns++;
+  model.requests += usage.requests;
+  model.inputTokens += usage.inputTokens;
+  model.outputTokens += usage.outputTokens;
+  model.premiumRequests += usage.premiumRequests;
+}
+
+function emptyTotals(now: string): UsageTotals {
+  return {
+    turns: 0,
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    premiumRequests: 0,
+    apiDurationMs: 0,
+    durationMs: 0,
+    toolCalls: 0,
+    models: {},
+    firstSeen: now,
+    lastSeen: now,
+  };
+}
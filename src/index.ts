@@ -17,19 +17,45 @@ export {
   publishLastChunkMarker,
 } from "./copilot/event-publisher.js";
 
-export { resolveConfig, loadConfigFile, loadEnvOverrides } from "./config/loader.js";
+export { resolveConfig, loadConfigFile, loadEnvOverrides, validateMcpServers } from "./config/loader.js";
 export type {
   AgentConfig,
   AgentCardConfig,
   ServerConfig,
+  AuthConfig,
+  ApiKeyConfig,
+  JwtAuthConfig,
   CopilotConfig,
+  ReasoningEffort,
   SessionConfig,
+  SessionStoreConfig,
+  RehydrateConfig,
+  CompactionConfig,
+  QueueConfig,
+  TaskStoreConfig,
+  PushNotificationSettings,
+  AttachmentConfig,
+  FileArtifactConfig,
+  InteractionConfig,
+  ToolArgumentMatcher,
+  ToolPolicyRule,
+  ToolPolicyConfig,
+  RetryConfig,
+  UsageConfig,
+  QuotaConfig,
+  QuotaLimits,
+  MetricsConfig,
+  HealthConfig,
+  TracingConfig,
+  StructuredOutputConfig,
   FeatureFlags,
   TimeoutConfig,
   LoggingConfig,
   SkillConfig,
   McpServerConfig,
+  McpServerCommonConfig,
   McpHttpServerConfig,
+  McpSseServerConfig,
   McpStdioServerConfig,
   CustomAgentConfig,
 } from "./config/types.js";
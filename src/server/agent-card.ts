@@ -6,6 +6,8 @@
 
 import type { AgentCard } from "@a2a-js/sdk";
 import type { AgentConfig, SkillConfig } from "../config/types.js";
+import { buildSecurity } from "./auth.js";
+import { acceptedInputModes } from "../copilot/attachments.js";
 import { logger } from "../utils/logger.js";
 
 const log = logger.child("agent-card");
@@ -17,11 +19,13 @@ function mapSkill(skill: SkillConfig) {
     description: skill.description,
     tags: skill.tags ?? [],
     ...(skill.examples?.length ? { examples: skill.examples } : {}),
+    // Answers to a skill with an output schema arrive as a JSON DataPart
+    ...(skill.outputSchema ? { outputModes: ["application/json"] } : {}),
   };
 }
 
 export function buildAgentCard(config: Required<AgentConfig>): AgentCard {
-  const { agentCard, server } = config;
+  const { agentCard, server, auth, attachments } = config;
   const host = server.advertiseHost ?? server.hostname ?? "localhost";
   const port = server.port ?? 3000;
   const baseUrl = `http://${host}:${port}`;
@@ -41,8 +45,9 @@ export function buildAgentCard(config: Required<AgentConfig>): AgentCard {
     },
     protocolVersion: agentCard.protocolVersion ?? "0.3.0",
     skills: (agentCard.skills ?? []).map(mapSkill),
-    defaultInputModes: agentCard.defaultInputModes ?? ["text"],
+    defaultInputModes: acceptedInputModes(agentCard.defaultInputModes ?? ["text"], attachments),
     defaultOutputModes: agentCard.defaultOutputModes ?? ["text"],
+    ...buildSecurity(auth ?? {}),
   };
 
   log.info("Agent card built", { name: card.name, url: baseUrl, skills: card.skills.length });
@@ -0,0 +1,308 @@
+/**
+ * Inbound Authentication
+ *
+ * Verifies callers of the A2A, context and operator endpoints using static API keys
+ * and/or JWT bearer tokens (shared secret or local JWKS file). Produces:
+ *  - an Express middleware that rejects unauthenticated requests with 401
+ *  - an A2A `UserBuilder` that hands the verified caller to the executor
+ *  - `securitySchemes` / `security` entries for the Agent Card
+ *
+ * JWTs are verified with node:crypto — no external JOSE dependency.
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import {
+  constants as cryptoConstants,
+  createHmac,
+  createPublicKey,
+  timingSafeEqual,
+  verify as cryptoVerify,
+  type KeyObject,
+  type JsonWebKey,
+} from "node:crypto";
+import type { Request, RequestHandler } from "express";
+import type { AgentCard } from "@a2a-js/sdk";
+import type { User } from "@a2a-js/sdk/server";
+import { UserBuilder } from "@a2a-js/sdk/server/express";
+
+import type { AuthConfig, JwtAuthConfig } from "../config/types.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child("auth");
+
+/** Agent Card security scheme names. */
+const API_KEY_SCHEME = "apiKey";
+const BEARER_SCHEME = "bearer";
+
+// ─── Authenticated User ─────────────────────────────────────────────────────
+
+/** A caller that passed API key or JWT verification. */
+export class AuthenticatedUser implements User {
+  constructor(
+    private readonly name: string,
+    /** How the caller authenticated */
+    readonly method: "apiKey" | "jwt",
+    /** Verified JWT claims (empty for API keys) */
+    readonly claims: Record<string, unknown> = {},
+  ) {}
+
+  get isAuthenticated(): boolean {
+    return true;
+  }
+
+  get userName(): string {
+    return this.name;
+  }
+}
+
+/** Raised when a request's credentials are missing or invalid. */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+// ─── JWT Verification ───────────────────────────────────────────────────────
+
+const HMAC_ALGS: Record<string, string> = { HS256: "sha256", HS384: "sha384", HS512: "sha512" };
+const ASYMMETRIC_ALGS: Record<string, string | null> = {
+  RS256: "sha256", RS384: "sha384", RS512: "sha512",
+  PS256: "sha256", PS384: "sha384", PS512: "sha512",
+  ES256: "sha256", ES384: "sha384", ES512: "sha512",
+  EdDSA: null,
+};
+
+interface JwksKey {
+  kid?: string;
+  alg?: string;
+  key: KeyObject;
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf-8")) as Record<string, unknown>;
+  } catch {
+    throw new AuthError("Malformed token");
+  }
+}
+
+/** Load and parse a local JWKS file into KeyObjects. */
+export function loadJwks(filePath: string): JwksKey[] {
+  const absPath = resolve(filePath);
+  let raw: { keys?: JsonWebKey[] };
+  try {
+    raw = JSON.parse(readFileSync(absPath, "utf-8")) as { keys?: JsonWebKey[] };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Failed to load JWKS file "${absPath}": ${msg}`);
+  }
+  return (raw.keys ?? []).map((jwk) => ({
+    kid: jwk.kid as string | undefined,
+    alg: jwk.alg as string | undefined,
+    key: createPublicKey({ key: jwk, format: "jwk" }),
+  }));
+}
+
+/**
+ * Verify a compact JWT against the configured secret / JWKS keys and claim
+ * constraints. Returns the verified claims or throws `AuthError`.
+ */
+export function verifyJwt(
+  token: string,
+  cfg: JwtAuthConfig,
+  jwks: JwksKey[] = [],
+): Record<string, unknown> {
+  const segments = token.split(".");
+  if (segments.length !== 3) throw new AuthError("Malformed token");
+  const [headerB64, payloadB64, signatureB64] = segments;
+  const header = decodeSegment(headerB64);
+  const claims = decodeSegment(payloadB64);
+  const alg = header.alg as string;
+  const signingInput = Buffer.from(`${headerB64}.${payloadB64}`);
+  const signature = Buffer.from(signatureB64, "base64url");
+
+  if (Object.hasOwn(HMAC_ALGS, alg)) {
+    if (!cfg.secret) throw new AuthError(`Unsupported token algorithm: ${alg}`);
+    const expected = createHmac(HMAC_ALGS[alg], cfg.secret).update(signingInput).digest();
+    if (expected.length !== signature.length || !timingSafeEqual(expected, signature)) {
+      throw new AuthError("Invalid token signature");
+    }
+  } else if (Object.hasOwn(ASYMMETRIC_ALGS, alg)) {
+    const kid = header.kid as string | undefined;
+    const candidates = jwks.filter((k) => (!kid || !k.kid || k.kid === kid) && (!k.alg || k.alg === alg));
+    if (candidates.length === 0) throw new AuthError("No matching signing key");
+    const valid = candidates.some((k) =>
+      cryptoVerify(
+        ASYMMETRIC_ALGS[alg],
+        signingInput,
+        {
+          key: k.key,
+          ...(alg.startsWith("ES") ? { dsaEncoding: "ieee-p1363" as const } : {}),
+          ...(alg.startsWith("PS") ? {
+            padding: cryptoConstants.RSA_PKCS1_PSS_PADDING,
+            saltLength: cryptoConstants.RSA_PSS_SALTLEN_AUTO,
+          } : {}),
+        },
+        signature,
+      ),
+    );
+    if (!valid) throw new AuthError("Invalid token signature");
+  } else {
+    throw new AuthError(`Unsupported token algorithm: ${alg}`);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const skew = cfg.clockTolerance ?? 30;
+  if (typeof claims.exp === "number" && now - skew >= claims.exp) {
+    throw new AuthError("Token expired");
+  }
+  if (typeof claims.nbf === "number" && now + skew < claims.nbf) {
+    throw new AuthError("Token not yet valid");
+  }
+  if (cfg.issuer && claims.iss !== cfg.issuer) {
+    throw new AuthError("Invalid token issuer");
+  }
+  if (cfg.audience) {
+    const accepted = Array.isArray(cfg.audience) ? cfg.audience : [cfg.audience];
+    const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!aud.some((a) => accepted.includes(a as string))) {
+      throw new AuthError("Invalid token audience");
+    }
+  }
+  return claims;
+}
+
+// ─── Authenticator ──────────────────────────────────────────────────────────
+
+export interface Authenticator {
+  /** True when at least one auth method is configured. */
+  readonly enabled: boolean;
+  /** True when auth is enabled and `admins` names at least one caller. */
+  readonly hasAdmins: boolean;
+  /** Express middleware — 401s unauthenticated requests, no-op when disabled. */
+  readonly middleware: RequestHandler;
+  /** A2A UserBuilder — returns the caller verified by `middleware`. */
+  readonly userBuilder: UserBuilder;
+  /** Verify a request directly. Throws `AuthError` on failure. */
+  authenticate(req: Request): AuthenticatedUser;
+  /** Name of the caller verified by `middleware`, or null. */
+  caller(req: Request): string | null;
+  /**
+   * Whether the caller verified by `middleware` may use the operator APIs:
+   * only callers named in `admins`. Never true when auth is disabled.
+   */
+  isAdmin(req: Request): boolean;
+}
+
+/** Callers verified by the middleware, read back by the UserBuilder. */
+const verifiedUsers = new WeakMap<Request, AuthenticatedUser>();
+
+function safeEqual(a: string, b: string): boolean {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && timingSafeEqual(ab, bb);
+}
+
+/**
+ * Create the authenticator for the configured auth section.
+ * Loads the JWKS file eagerly so a bad path fails at startup.
+ */
+export function createAuthenticator(cfg: AuthConfig): Authenticator {
+  const apiKeys = (cfg.apiKeys ?? []).filter((k) => k.key);
+  const apiKeyHeader = (cfg.apiKeyHeader ?? "X-API-Key").toLowerCase();
+  const jwt = cfg.jwt && (cfg.jwt.secret || cfg.jwt.jwksFile) ? cfg.jwt : undefined;
+  const jwks = jwt?.jwksFile ? loadJwks(jwt.jwksFile) : [];
+  const enabled = apiKeys.length > 0 || !!jwt;
+  const admins = cfg.admins ?? [];
+
+  if (enabled) {
+    log.info("Inbound authentication enabled", {
+      apiKeys: apiKeys.length,
+      jwt: jwt ? (jwt.jwksFile ? "jwks" : "secret") : "off",
+    });
+  } else {
+    log.warn("Inbound authentication disabled — A2A endpoints are open to any caller");
+  }
+
+  const authenticate = (req: Request): AuthenticatedUser => {
+    const presentedKey = req.headers[apiKeyHeader];
+    if (apiKeys.length > 0 && typeof presentedKey === "string") {
+      const match = apiKeys.find((k) => safeEqual(k.key, presentedKey));
+      if (match) return new AuthenticatedUser(match.name, "apiKey");
+      throw new AuthError("Invalid API key");
+    }
+
+    const authz = req.headers.authorization;
+    if (jwt && authz?.toLowerCase().startsWith("bearer ")) {
+      const claims = verifyJwt(authz.slice(7).trim(), jwt, jwks);
+      const userClaim = jwt.userClaim ?? "sub";
+      const name = claims[userClaim];
+      if (typeof name !== "string" || !name) {
+        throw new AuthError(`Token is missing the "${userClaim}" claim`);
+      }
+      return new AuthenticatedUser(name, "jwt", claims);
+    }
+
+    throw new AuthError("Missing credentials");
+  };
+
+  const middleware: RequestHandler = (req, res, next) => {
+    if (!enabled) return next();
+    try {
+      verifiedUsers.set(req, authenticate(req));
+      next();
+    } catch (e) {
+      const reason = e instanceof AuthError ? e.message : "Authentication failed";
+      log.warn("Rejected unauthenticated request", { path: req.originalUrl, reason });
+      if (jwt) res.setHeader("WWW-Authenticate", `Bearer error="invalid_token"`);
+      res.status(401).json({ error: `Unauthorized: ${reason}` });
+    }
+  };
+
+  const userBuilder: UserBuilder = async (req) =>
+    verifiedUsers.get(req) ?? UserBuilder.noAuthentication();
+
+  const caller = (req: Request): string | null => verifiedUsers.get(req)?.userName ?? null;
+
+  const isAdmin = (req: Request): boolean => {
+    const name = caller(req);
+    return enabled && name !== null && admins.includes(name);
+  };
+
+  const hasAdmins = enabled && admins.length > 0;
+
+  return { enabled, hasAdmins, middleware, userBuilder, authenticate, caller, isAdmin };
+}
+
+// ─── Agent Card Security ────────────────────────────────────────────────────
+
+/**
+ * Security schemes and requirements advertised on the Agent Card.
+ * Requirements are alternatives — any one configured scheme is sufficient.
+ */
+export function buildSecurity(
+  cfg: AuthConfig,
+): Pick<AgentCard, "securitySchemes" | "security"> {
+  const securitySchemes: NonNullable<AgentCard["securitySchemes"]> = {};
+  if ((cfg.apiKeys ?? []).some((k) => k.key)) {
+    securitySchemes[API_KEY_SCHEME] = {
+      type: "apiKey",
+      in: "header",
+      name: cfg.apiKeyHeader ?? "X-API-Key",
+      description: "Static API key",
+    };
+  }
+  if (cfg.jwt && (cfg.jwt.secret || cfg.jwt.jwksFile)) {
+    securitySchemes[BEARER_SCHEME] = {
+      type: "http",
+      scheme: "bearer",
+      bearerFormat: "JWT",
+      description: "JWT bearer token",
+    };
+  }
+  const names = Object.keys(securitySchemes);
+  if (names.length === 0) return {};
+  return { securitySchemes, security: names.map((n) => ({ [n]: [] })) };
+}
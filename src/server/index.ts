@@ -5,29 +5,49 @@
  *  - /.well-known/agent-card.json  → Agent Card
  *  - /a2a/jsonrpc                  → JSON-RPC transport
  *  - /a2a/rest                     → REST transport
- *  - /health                       → Health check
+ *  - /health, /health/live         → Liveness
+ *  - /health/ready                 → Readiness, per dependency check
  *  - /context                      → Read context file
  *  - /context/build                → Build context file
+ *  - /artifacts/:taskId/:fileId/:name → Download a file artifact
+ *  - /usage                        → Token usage totals (admin)
+ *  - /usage/contexts/:contextId    → Usage of one context (admin)
+ *  - /usage/callers/:caller        → Usage of one caller (admin or self)
+ *  - /admin/sessions               → Open Copilot sessions (admin)
+ *  - /admin/sessions/:id/transcript → A session's conversation (admin)
+ *  - /admin/sessions/:id  [DELETE] → Destroy a session (admin)
+ *  - /admin/sessions/flush [POST]  → Destroy all sessions (admin)
+ *  - /metrics                      → Prometheus metrics
+ *
+ * The A2A, context, artifact, usage and admin routes require authentication when
+ * `auth` is configured; the agent card and health checks stay public, and so
+ * does `/metrics` unless `metrics.requireAuth` is set. The admin routes are
+ * only mounted when `auth.admins` names a caller.
  *
  * All wiring is driven by the resolved AgentConfig.
  */
 
 import express, { type RequestHandler } from "express";
 import { AGENT_CARD_PATH } from "@a2a-js/sdk";
-import { DefaultRequestHandler, InMemoryTaskStore } from "@a2a-js/sdk/server";
-import {
-  jsonRpcHandler,
-  restHandler,
-  UserBuilder,
-} from "@a2a-js/sdk/server/express";
+import { jsonRpcHandler, restHandler } from "@a2a-js/sdk/server/express";
 
 import type { AgentConfig } from "../config/types.js";
 import { CopilotExecutor } from "../copilot/executor.js";
+import type { HealthReport } from "../copilot/health.js";
+import { ARTIFACT_ROUTE } from "../copilot/file-artifacts.js";
 import { buildAgentCard } from "./agent-card.js";
+import { createAuthenticator } from "./auth.js";
+import { createTaskStore } from "./task-store.js";
+import { QuotaRequestHandler } from "./quota-handler.js";
+import { traceRequests } from "./request-tracing.js";
+import { WebhookConfigStore, WebhookPushNotificationSender } from "./push-notifications.js";
 import { logger } from "../utils/logger.js";
+import { metrics, METRICS_CONTENT_TYPE } from "../utils/metrics.js";
 
 const log = logger.child("server");
 
+const httpRequests = metrics.counter("a2a_copilot_http_requests_total", "HTTP requests by method, route and status");
+
 export interface ServerHandle {
   app: ReturnType<typeof express>;
   server: ReturnType<ReturnType<typeof express>["listen"]>;
@@ -53,16 +73,66 @@ export async function createA2AServer(config: Required<AgentConfig>): Promise<Se
   const agentCard = buildAgentCard(config);
 
   // 3. A2A request handler
-  const taskStore = new InMemoryTaskStore();
-  const requestHandler = new DefaultRequestHandler(agentCard, taskStore, executor);
+  const taskStore = await createTaskStore(config.taskStore ?? {});
+  executor.useTaskStore(taskStore);
+  // Push notifications are only wired when advertised on the card
+  const pushSettings = config.pushNotifications ?? {};
+  const pushStore = agentCard.capabilities.pushNotifications
+    ? new WebhookConfigStore(pushSettings.allowedHosts)
+    : undefined;
+  const pushSender = pushStore
+    ? new WebhookPushNotificationSender(pushStore, pushSettings)
+    : undefined;
+  // Quotas refuse messages before a task is created
+  const requestHandler = new QuotaRequestHandler(
+    agentCard,
+    taskStore,
+    executor,
+    undefined,
+    pushStore,
+    pushSender,
+  )
+    .useQuotas(executor.quotas)
+    .useExecutor(executor);
 
-  // 4. Express app
+  // 4. Inbound auth
+  const auth = createAuthenticator(config.auth ?? {});
+  const { userBuilder } = auth;
+
+  // 5. Express app
   const app = express();
 
-  app.get("/health", (_req, res) => {
+  // Count every request once it completes, by route pattern (not raw path)
+  app.use((req, res, next) => {
+    res.on("finish", () => {
+      const path = req.route?.path as string | undefined;
+      const route = path && path !== "/" ? `${req.baseUrl}${path}` : req.baseUrl || path || "unmatched";
+      httpRequests.inc({ method: req.method, route, status: res.statusCode });
+    });
+    next();
+  });
+
+  // Liveness: the process is up and serving requests
+  app.get(["/health", "/health/live"], (_req, res) => {
     res.json({ status: "healthy", agent: agentCard.name });
   });
 
+  // Readiness: 503 while a critical dependency check fails
+  const cacheTtl = config.health?.cacheTtl ?? 5_000;
+  let readiness: { at: number; report: Promise<HealthReport> } | null = null;
+  app.get("/health/ready", async (_req, res) => {
+    if (!readiness || Date.now() - readiness.at >= cacheTtl) {
+      const report = executor.checkReadiness().then((r) => {
+        const failed = Object.entries(r.checks).filter(([, c]) => c.status === "fail").map(([name]) => name);
+        if (failed.length > 0) log.warn("Readiness checks failing", { status: r.status, failed });
+        return r;
+      });
+      readiness = { at: Date.now(), report };
+    }
+    const report = await readiness.report;
+    res.status(report.status === "unready" ? 503 : 200).json({ ...report, agent: agentCard.name });
+  });
+
   // Dynamic agent card handler — rewrites `url` to match the caller's Host header
   const serveAgentCard: RequestHandler = (req, res) => {
     const host = req.headers.host || `${advertiseHost}:${port}`;
@@ -78,12 +148,15 @@ export async function createA2AServer(config: Required<AgentConfig>): Promise<Se
     if (p !== AGENT_CARD_PATH) app.get(`/${p}`, serveAgentCard);
   }
 
-  app.use("/a2a/jsonrpc", jsonRpcHandler({ requestHandler, userBuilder: UserBuilder.noAuthentication }));
-  app.use("/a2a/rest", restHandler({ requestHandler, userBuilder: UserBuilder.noAuthentication }));
+  // A2A requests continue the caller's trace (traceparent header)
+  const traced = traceRequests(executor.tracer);
+  app.use("/a2a/jsonrpc", traced, auth.middleware, jsonRpcHandler({ requestHandler, userBuilder }));
+  app.use("/a2a/rest", traced, auth.middleware, restHandler({ requestHandler, userBuilder }));
 
   // ── Context API ─────────────────────────────────────────────────────────
 
   // GET /context — return the context.md file as markdown
+  app.use("/context", auth.middleware);
   app.get("/context", async (_req, res) => {
     try {
       const content = await executor.getContextContent();
@@ -118,7 +191,139 @@ export async function createA2AServer(config: Required<AgentConfig>): Promise<Se
     }
   });
 
-  // 5. Start
+  // ── File Artifacts ──────────────────────────────────────────────────────
+
+  // GET /artifacts/:taskId/:fileId/:name — download a file published by URI, by the task's caller
+  app.get(`${ARTIFACT_ROUTE}/:taskId/:fileId/:name`, auth.middleware, async (req, res, next) => {
+    const { taskId, fileId, name } = req.params;
+    try {
+      const path = await executor.fileArtifacts.resolveDownload(taskId, fileId, name, auth.caller(req));
+      if (!path) {
+        res.status(404).json({ error: "Artifact not found" });
+        return;
+      }
+      res.download(path, name, (err) => {
+        if (err && !res.headersSent) {
+          log.error("Artifact download failed", { taskId, fileId, error: err.message });
+          res.status(500).json({ error: err.message });
+        }
+      });
+    } catch (e) {
+      log.error("Artifact lookup failed", { taskId, fileId, error: (e as Error).message });
+      next(e);
+    }
+  });
+
+  // ── Usage API ───────────────────────────────────────────────────────────
+
+  const requireAdmin: RequestHandler = (req, res, next) => {
+    if (auth.isAdmin(req)) return next();
+    res.status(403).json({ error: "Forbidden: admin access required" });
+  };
+
+  // Usage totals are read-only: without auth every caller may read them, as every endpoint
+  const requireUsageAccess: RequestHandler = (req, res, next) => {
+    if (!auth.enabled) return next();
+    requireAdmin(req, res, next);
+  };
+
+  // GET /usage — totals per caller and per context
+  app.get("/usage", auth.middleware, requireUsageAccess, (_req, res) => {
+    res.json(executor.usage.summary());
+  });
+
+  // GET /usage/contexts/:contextId — totals for one context
+  app.get("/usage/contexts/:contextId", auth.middleware, requireUsageAccess, (req, res) => {
+    const totals = executor.usage.context(req.params.contextId);
+    if (!totals) {
+      res.status(404).json({ error: "No usage recorded for this context" });
+      return;
+    }
+    res.json({ contextId: req.params.contextId, ...totals });
+  });
+
+  // GET /usage/callers/:caller — totals for one caller; callers may read their own
+  app.get("/usage/callers/:caller", auth.middleware, (req, res) => {
+    const { caller } = req.params;
+    if (auth.enabled && !auth.isAdmin(req) && auth.caller(req) !== caller) {
+      res.status(403).json({ error: "Forbidden: admin access required" });
+      return;
+    }
+    const totals = executor.usage.caller(caller);
+    if (!totals) {
+      res.status(404).json({ error: "No usage recorded for this caller" });
+      return;
+    }
+    res.json({ caller, ...totals });
+  });
+
+  // ── Session Admin API ───────────────────────────────────────────────────
+
+  // Only mounted when someone can be an admin — the routes reach every caller's sessions
+  if (auth.hasAdmins) {
+    app.use("/admin", auth.middleware, requireAdmin);
+
+    // GET /admin/sessions — open sessions with age, size and running tasks
+    app.get("/admin/sessions", (_req, res) => {
+      res.json(executor.listSessions());
+    });
+
+    // POST /admin/sessions/flush — stop tasks holding sessions, destroy every session
+    app.post("/admin/sessions/flush", async (req, res) => {
+      try {
+        const result = await executor.flushSessions();
+        log.warn("Sessions flushed by admin", { caller: auth.caller(req), ...result });
+        res.json(result);
+      } catch (e) {
+        log.error("Failed to flush sessions", { error: (e as Error).message });
+        res.status(500).json({ error: (e as Error).message });
+      }
+    });
+
+    // GET /admin/sessions/:sessionId/transcript — user/assistant messages (?raw=true: all events)
+    app.get("/admin/sessions/:sessionId/transcript", async (req, res) => {
+      const { sessionId } = req.params;
+      try {
+        const messages = await executor.sessionTranscript(sessionId, req.query.raw === "true");
+        if (!messages) {
+          res.status(404).json({ error: "No open session with this id" });
+          return;
+        }
+        res.json({ sessionId, messages });
+      } catch (e) {
+        log.error("Failed to read session transcript", { sessionId, error: (e as Error).message });
+        res.status(500).json({ error: (e as Error).message });
+      }
+    });
+
+    // DELETE /admin/sessions/:sessionId — stop the session's tasks and destroy it
+    app.delete("/admin/sessions/:sessionId", async (req, res) => {
+      const { sessionId } = req.params;
+      try {
+        const stoppedTasks = await executor.destroySession(sessionId);
+        if (!stoppedTasks) {
+          res.status(404).json({ error: "No open session with this id" });
+          return;
+        }
+        log.warn("Session destroyed by admin", { caller: auth.caller(req), sessionId, stoppedTasks });
+        res.json({ sessionId, destroyed: true, stoppedTasks });
+      } catch (e) {
+        log.error("Failed to destroy session", { sessionId, error: (e as Error).message });
+        res.status(500).json({ error: (e as Error).message });
+      }
+    });
+  }
+
+  // ── Metrics ─────────────────────────────────────────────────────────────
+
+  if (config.metrics.enabled !== false) {
+    const guard: RequestHandler[] = config.metrics.requireAuth ? [auth.middleware, requireAdmin] : [];
+    app.get("/metrics", ...guard, (_req, res) => {
+      res.type(METRICS_CONTENT_TYPE).send(metrics.render());
+    });
+  }
+
+  // 6. Start
   const httpServer = app.listen(port, hostname, () => {
     log.info("A2A server started", { bind: hostname, advertise: advertiseHost, port });
     console.log(`
@@ -132,14 +337,20 @@ export async function createA2AServer(config: Required<AgentConfig>): Promise<Se
 ║  REST API:      http://${advertiseHost}:${port}/a2a/rest
 ║  Context:       http://${advertiseHost}:${port}/context
 ║  Build Context: http://${advertiseHost}:${port}/context/build  [POST]
-║  Health Check:  http://${advertiseHost}:${port}/health
+║  Health Check:  http://${advertiseHost}:${port}/health/live, /health/ready
+║  Usage:         http://${advertiseHost}:${port}/usage
+║  Sessions:      ${auth.hasAdmins ? `http://${advertiseHost}:${port}/admin/sessions` : "disabled (no auth.admins)"}
+║  Metrics:       ${config.metrics.enabled !== false ? `http://${advertiseHost}:${port}/metrics` : "disabled"}
+║  Tracing:       ${executor.tracer.enabled ? (config.tracing.exporter === "file" ? `file ${config.tracing.file}` : config.tracing.endpoint) : "disabled"}
+║  Auth:          ${auth.enabled ? "required" : "disabled"}
+║  Push Notify:   ${pushStore ? "enabled" : "disabled"}
 ╠══════════════════════════════════════════════════════════════╣
 ║  Ready to receive A2A requests from any compatible client!   ║
 ╚══════════════════════════════════════════════════════════════╝
     `);
   });
 
-  // 6. Handle
+  // 7. Handle
   return {
     app,
     server: httpServer,
@@ -147,6 +358,7 @@ export async function createA2AServer(config: Required<AgentConfig>): Promise<Se
     async shutdown() {
       httpServer.close();
       await executor.shutdown();
+      await taskStore.close();
       log.info("Server shut down");
     },
   };
@@ -0,0 +1,287 @@
+/**
+ * Push Notifications — A2A Webhook Delivery
+ *
+ * Backs `tasks/pushNotificationConfig/set|get|list|delete` and delivers
+ * task snapshots to the registered webhook URLs whenever the task changes
+ * (status or artifact update), as the A2A spec prescribes.
+ *
+ * Delivery semantics:
+ *  - Notifications for one task are delivered in order; a snapshot that was
+ *    superseded while waiting in the queue is skipped (each is a full Task).
+ *  - Network errors, timeouts, 408, 429 and 5xx are retried with exponential
+ *    backoff + jitter (honouring `Retry-After`); other 4xx are not retried.
+ *  - The caller's `token` is sent in the token header, and `authentication`
+ *    (Bearer / Basic) becomes an `Authorization` header.
+ *  - Redirects are followed only to URLs that pass the same checks as the
+ *    registered one, so they cannot carry the payload past `allowedHosts`.
+ */
+
+import type { PushNotificationConfig, Task } from "@a2a-js/sdk";
+import {
+  A2AError,
+  InMemoryPushNotificationStore,
+  type PushNotificationSender,
+  type PushNotificationStore,
+} from "@a2a-js/sdk/server";
+
+import type { PushNotificationSettings } from "../config/types.js";
+import { sleep } from "../utils/deferred.js";
+import { isHostAllowed } from "../utils/hosts.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child("push");
+
+const MAX_REDIRECTS = 5;
+
+// ─── Config Store ───────────────────────────────────────────────────────────
+
+/**
+ * In-memory push config store that rejects webhook URLs the agent must not
+ * call (non-HTTP schemes, hosts outside `allowedHosts`).
+ */
+export class WebhookConfigStore extends InMemoryPushNotificationStore {
+  constructor(private readonly allowedHosts: string[] = []) {
+    super();
+  }
+
+  async save(taskId: string, pushNotificationConfig: PushNotificationConfig): Promise<void> {
+    validateWebhookUrl(pushNotificationConfig.url, this.allowedHosts);
+    await super.save(taskId, pushNotificationConfig);
+    log.info("Push notification config registered", {
+      taskId,
+      configId: pushNotificationConfig.id,
+      url: pushNotificationConfig.url,
+    });
+  }
+}
+
+/** Throws an A2A invalid-params error if `url` is not an acceptable webhook. */
+export function validateWebhookUrl(url: string, allowedHosts: string[] = []): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw A2AError.invalidParams(`Invalid push notification URL: ${url}`);
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw A2AError.invalidParams(`Push notification URL must use http or https: ${url}`);
+  }
+  if (allowedHosts.length > 0 && !isHostAllowed(parsed.hostname, allowedHosts)) {
+    throw A2AError.invalidParams(`Push notification host is not allowed: ${parsed.hostname}`);
+  }
+}
+
+// ─── Sender ─────────────────────────────────────────────────────────────────
+
+/** Outcome of delivering one notification to one webhook. */
+export interface DeliveryResult {
+  url: string;
+  ok: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
+class RetryableError extends Error {
+  constructor(message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "RetryableError";
+  }
+}
+
+/** A redirect to a URL the webhook may not point at — not retried. */
+class RedirectError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedirectError";
+  }
+}
+
+export class WebhookPushNotificationSender implements PushNotificationSender {
+  private readonly store: PushNotificationStore;
+  private readonly settings: Required<Omit<PushNotificationSettings, "allowedHosts">>;
+  private readonly allowedHosts: string[];
+  /** Per-task delivery chain — keeps notifications for a task in order. */
+  private readonly chains = new Map<string, Promise<void>>();
+  /** Per-task snapshot counter — lets queued, superseded snapshots be skipped. */
+  private readonly versions = new Map<string, number>();
+
+  constructor(store: PushNotificationStore, settings: PushNotificationSettings = {}) {
+    this.store = store;
+    this.settings = {
+      timeout: settings.timeout ?? 5_000,
+      maxAttempts: Math.max(1, settings.maxAttempts ?? 5),
+      initialBackoff: settings.initialBackoff ?? 1_000,
+      maxBackoff: settings.maxBackoff ?? 30_000,
+      tokenHeader: settings.tokenHeader ?? "X-A2A-Notification-Token",
+    };
+    this.allowedHosts = settings.allowedHosts ?? [];
+  }
+
+  async send(task: Task): Promise<void> {
+    const configs = await this.store.load(task.id);
+    if (!configs || configs.length === 0) return;
+
+    const version = (this.versions.get(task.id) ?? 0) + 1;
+    this.versions.set(task.id, version);
+    const snapshot = structuredClone(task);
+    const isFinal = ["completed", "failed", "canceled", "rejected"].includes(task.status.state);
+
+    const prev = this.chains.get(task.id) ?? Promise.resolve();
+    const next = prev.then(async () => {
+      // A newer snapshot is already queued — it carries everything this one does.
+      if (!isFinal && this.versions.get(task.id) !== version) return;
+      // Re-read configs so deletes issued while queued are honoured.
+      const current = await this.store.load(task.id);
+      await Promise.all(current.map((cfg) => this.deliver(snapshot, cfg)));
+    });
+    this.chains.set(task.id, next);
+    return next.finally(() => {
+      if (this.chains.get(task.id) === next) {
+        this.chains.delete(task.id);
+        this.versions.delete(task.id);
+      }
+    });
+  }
+
+  /** Deliver one snapshot to one webhook, retrying transient failures. */
+  async deliver(task: Task, cfg: PushNotificationConfig): Promise<DeliveryResult> {
+    const { maxAttempts } = this.settings;
+    const started = Date.now();
+    let lastError = "";
+    let lastStatus: number | undefined;
+    let attempts = 0;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      attempts = attempt;
+      try {
+        const status = await this.post(task, cfg);
+        log.info("Push notification delivered", {
+          taskId: task.id,
+          state: task.status.state,
+          url: cfg.url,
+          status,
+          attempt,
+          durationMs: Date.now() - started,
+        });
+        return { url: cfg.url, ok: true, attempts: attempt, status };
+      } catch (e) {
+        lastError = (e as Error).message;
+        lastStatus = (e as { status?: number }).status;
+        if (!(e instanceof RetryableError) || attempt === maxAttempts) break;
+
+        const delay = Math.min(this.settings.maxBackoff, e.retryAfterMs ?? this.backoff(attempt));
+        log.warn("Push notification failed, retrying", {
+          taskId: task.id,
+          url: cfg.url,
+          attempt,
+          error: lastError,
+          retryInMs: delay,
+        });
+        await sleep(delay);
+      }
+    }
+
+    log.error("Push notification delivery gave up", {
+      taskId: task.id,
+      state: task.status.state,
+      url: cfg.url,
+      attempts,
+      error: lastError,
+    });
+    return { url: cfg.url, ok: false, attempts, status: lastStatus, error: lastError };
+  }
+
+  // ── Internals ───────────────────────────────────────────────────────────
+
+  private async post(task: Task, cfg: PushNotificationConfig): Promise<number> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.settings.timeout);
+    let response: Response;
+    try {
+      let url = cfg.url;
+      for (let redirects = 0; ; redirects++) {
+        response = await fetch(url, {
+          method: "POST",
+          headers: this.buildHeaders(cfg),
+          body: JSON.stringify(task),
+          signal: controller.signal,
+          redirect: "manual",
+        });
+        const location = response.headers.get("location");
+        if (response.status < 300 || response.status >= 400 || !location) break;
+        await response.body?.cancel();
+        if (redirects === MAX_REDIRECTS) throw new RedirectError(`More than ${MAX_REDIRECTS} redirects`);
+        url = new URL(location, url).href;
+        this.checkRedirect(url);
+      }
+    } catch (e) {
+      if (e instanceof RedirectError) throw e;
+      const msg = controller.signal.aborted
+        ? `Timed out after ${this.settings.timeout}ms`
+        : (e as Error).message;
+      throw new RetryableError(msg);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.ok) return response.status;
+
+    const msg = `HTTP ${response.status} ${response.statusText}`.trim();
+    const status = response.status;
+    const err =
+      status === 408 || status === 429 || status >= 500
+        ? new RetryableError(msg, parseRetryAfter(response.headers.get("retry-after")))
+        : new Error(msg);
+    Object.assign(err, { status });
+    throw err;
+  }
+
+  /** Throws a non-retryable error unless `url` is an acceptable webhook. */
+  private checkRedirect(url: string): void {
+    try {
+      validateWebhookUrl(url, this.allowedHosts);
+    } catch (e) {
+      log.warn("Refused push notification redirect", { url });
+      throw new RedirectError(`Refused redirect: ${(e as Error).message}`);
+    }
+  }
+
+  private buildHeaders(cfg: PushNotificationConfig): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (cfg.token) {
+      headers[this.settings.tokenHeader] = cfg.token;
+    }
+    const auth = cfg.authentication;
+    if (auth?.credentials) {
+      const schemes = auth.schemes.map((s) => s.toLowerCase());
+      if (schemes.includes("bearer")) {
+        headers["Authorization"] = `Bearer ${auth.credentials}`;
+      } else if (schemes.includes("basic")) {
+        const creds = auth.credentials.includes(":")
+          ? Buffer.from(auth.credentials).toString("base64")
+          : auth.credentials;
+        headers["Authorization"] = `Basic ${creds}`;
+      } else if (auth.schemes.length > 0) {
+        headers["Authorization"] = `${auth.schemes[0]} ${auth.credentials}`;
+      }
+    }
+    return headers;
+  }
+
+  private backoff(attempt: number): number {
+    const { initialBackoff, maxBackoff } = this.settings;
+    const base = Math.min(maxBackoff, initialBackoff * 2 ** (attempt - 1));
+    // Equal jitter: uniform in [base/2, base]
+    return Math.round(base / 2 + Math.random() * (base / 2));
+  }
+}
+
+/** Parse a Retry-After header (seconds or HTTP date) into ms. */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const secs = Number(value);
+  if (!Number.isNaN(secs)) return Math.max(0, secs * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
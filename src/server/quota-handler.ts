@@ -0,0 +1,102 @@
+/**
+ * Quota-Enforcing Request Handler
+ *
+ * A `DefaultRequestHandler` that checks `message/send` and `message/stream`
+ * against the executor's quotas before any task is created. A message over
+ * a caller or context limit fails with a JSON-RPC error instead of a task.
+ *
+ * `execute` claims an admitted message's concurrency slot before its first
+ * await, so releasing an unclaimed slot once the SDK call settles only
+ * affects messages that never reached the executor.
+ *
+ * It also completes `tasks/cancel` for tasks parked in `input-required`.
+ * Their request has finished, so the SDK only records the cancel in the
+ * task store; the handler then tells the executor to stop the parked turn.
+ */
+
+import type {
+  Message,
+  MessageSendParams,
+  Task,
+  TaskArtifactUpdateEvent,
+  TaskIdParams,
+  TaskStatusUpdateEvent,
+} from "@a2a-js/sdk";
+import { A2AError, DefaultRequestHandler, type ServerCallContext } from "@a2a-js/sdk/server";
+
+import type { CopilotExecutor } from "../copilot/executor.js";
+import { DuplicateMessageError, QuotaExceededError, type QuotaManager } from "../copilot/quotas.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child("quotas");
+
+/**
+ * JSON-RPC error code for a refused message. Implementation-defined, in the
+ * server error range next to the A2A codes (-32001 … -32007).
+ */
+export const QUOTA_EXCEEDED_CODE = -32029;
+
+type StreamEvent = Message | Task | TaskStatusUpdateEvent | TaskArtifactUpdateEvent;
+
+export class QuotaRequestHandler extends DefaultRequestHandler {
+  private quotas: QuotaManager | null = null;
+  private executor: CopilotExecutor | null = null;
+
+  /** Enforce `quotas` on inbound messages (set once the executor exists). */
+  useQuotas(quotas: QuotaManager): this {
+    this.quotas = quotas;
+    return this;
+  }
+
+  /** Stop `executor`'s parked turns when their task is canceled. */
+  useExecutor(executor: CopilotExecutor): this {
+    this.executor = executor;
+    return this;
+  }
+
+  override async sendMessage(params: MessageSendParams, context?: ServerCallContext): Promise<Message | Task> {
+    this.admit(params, context);
+    try {
+      return await super.sendMessage(params, context);
+    } finally {
+      this.quotas?.abandon(params.message.messageId);
+    }
+  }
+
+  override async *sendMessageStream(
+    params: MessageSendParams,
+    context?: ServerCallContext,
+  ): AsyncGenerator<StreamEvent, void, undefined> {
+    this.admit(params, context);
+    try {
+      yield* super.sendMessageStream(params, context);
+    } finally {
+      this.quotas?.abandon(params.message.messageId);
+    }
+  }
+
+  override async cancelTask(params: TaskIdParams, context?: ServerCallContext): Promise<Task> {
+    const task = await super.cancelTask(params, context);
+    await this.executor?.cancelParkedTask(params.id);
+    return task;
+  }
+
+  private admit(params: MessageSendParams, context?: ServerCallContext): void {
+    if (!this.quotas) return;
+    const { messageId, contextId, taskId } = params.message;
+    const user = context?.user;
+    const caller = user?.isAuthenticated ? user.userName : null;
+    try {
+      this.quotas.admit(messageId, caller, contextId, taskId);
+    } catch (e) {
+      if (e instanceof DuplicateMessageError) throw A2AError.invalidRequest(e.message);
+      if (!(e instanceof QuotaExceededError)) throw e;
+      log.warn("Message refused — quota exceeded", { caller, contextId, limit: e.limit, scope: e.scope });
+      throw new A2AError(QUOTA_EXCEEDED_CODE, e.message, {
+        scope: e.scope,
+        limit: e.limit,
+        ...(e.retryAfterMs !== undefined ? { retryAfterMs: e.retryAfterMs } : {}),
+      });
+    }
+  }
+}
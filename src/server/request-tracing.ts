@@ -0,0 +1,33 @@
+/**
+ * Request Tracing — a Server Span per A2A HTTP Request
+ *
+ * Continues the caller's trace from the `traceparent` / `tracestate`
+ * headers and keeps the span active for the rest of the request, so the
+ * executor's spans nest under it.
+ */
+
+import type { RequestHandler } from "express";
+
+import { parseTraceparent, type Tracer } from "../utils/tracing.js";
+
+export function traceRequests(tracer: Tracer): RequestHandler {
+  return (req, res, next) => {
+    const route = req.baseUrl || req.path;
+    const span = tracer.startSpan(`${req.method} ${route}`, {
+      parent: parseTraceparent(req.headers.traceparent, req.headers.tracestate),
+      kind: "server",
+      attributes: {
+        "http.request.method": req.method,
+        "http.route": route,
+        "url.path": req.originalUrl.split("?")[0],
+      },
+    });
+    res.on("close", () => {
+      span.setAttribute("http.response.status_code", res.statusCode);
+      if (res.statusCode >= 500) span.status = { code: "error" };
+      span.end();
+    });
+
+    tracer.withSpan(span, next);
+  };
+}
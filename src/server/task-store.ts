@@ -0,0 +1,252 @@
+/**
+ * Task Store — Durable A2A Task Persistence
+ *
+ * Implements the A2A SDK `TaskStore` interface on top of the local
+ * filesystem: one JSON file per task, written atomically (temp + rename).
+ * All tasks are cached in memory and loaded once at startup.
+ *
+ * On startup, tasks that were still `submitted` / `working` /
+ * `input-required` when the previous process died are transitioned to
+ * `failed` with an explanatory status message, so callers polling
+ * `tasks/get` see a terminal state (a paused turn does not survive the
+ * process, so a reply could not resume it).
+ *
+ * Finished tasks are pruned periodically by age and/or total count.
+ */
+
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { Task, TaskState } from "@a2a-js/sdk";
+import { InMemoryTaskStore, type TaskStore } from "@a2a-js/sdk/server";
+import { v4 as uuidv4 } from "uuid";
+
+import type { TaskStoreConfig } from "../config/types.js";
+import type { ContextHistory } from "../copilot/rehydrate.js";
+import { logger } from "../utils/logger.js";
+
+const log = logger.child("task-store");
+
+/** States a task can never leave — safe to prune. */
+const TERMINAL_STATES: ReadonlySet<TaskState> = new Set<TaskState>([
+  "completed",
+  "failed",
+  "canceled",
+  "rejected",
+]);
+
+/** States that imply an execution was in flight (or paused, waiting on the caller). */
+const IN_FLIGHT_STATES: ReadonlySet<TaskState> = new Set<TaskState>(["submitted", "working", "input-required"]);
+
+const RECOVERY_MESSAGE =
+  "Task was interrupted by an agent restart before it completed. Please resubmit the request.";
+
+/**
+ * A TaskStore with lifecycle hooks the server calls at startup/shutdown,
+ * and a per-context lookup for rehydrating sessions.
+ */
+export interface ManagedTaskStore extends TaskStore, ContextHistory {
+  /** Load persisted state. Must be awaited before the store is used. */
+  init(): Promise<void>;
+  /** Stop background work and flush pending writes. */
+  close(): Promise<void>;
+}
+
+// ─── File Store ─────────────────────────────────────────────────────────────
+
+export class FileTaskStore implements ManagedTaskStore {
+  private readonly directory: string;
+  private readonly config: TaskStoreConfig;
+  private readonly tasks = new Map<string, Task>();
+  /** Per-task write chain so concurrent saves land in order. */
+  private readonly writes = new Map<string, Promise<void>>();
+  private pruneTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(config: TaskStoreConfig) {
+    this.config = config;
+    this.directory = resolve(config.directory || ".a2a-copilot/tasks");
+  }
+
+  async init(): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    let recovered = 0;
+    for (const file of await readdir(this.directory)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const task = JSON.parse(await readFile(join(this.directory, file), "utf-8")) as Task;
+        if (IN_FLIGHT_STATES.has(task.status.state)) {
+          this.markInterrupted(task);
+          await this.save(task);
+          recovered++;
+        } else {
+          this.tasks.set(task.id, task);
+        }
+      } catch (e) {
+        log.warn("Skipping unreadable task file", { file, error: (e as Error).message });
+      }
+    }
+
+    log.info("File task store loaded", { directory: this.directory, tasks: this.tasks.size, recovered });
+    await this.prune();
+
+    const interval = this.config.pruneInterval ?? 3_600_000;
+    if (interval > 0 && (this.config.maxAge || this.config.maxTasks)) {
+      this.pruneTimer = setInterval(() => {
+        this.prune().catch((e) => log.warn("Task prune failed", { error: (e as Error).message }));
+      }, interval);
+      this.pruneTimer.unref();
+    }
+  }
+
+  async load(taskId: string): Promise<Task | undefined> {
+    const task = this.tasks.get(taskId);
+    return task ? structuredClone(task) : undefined;
+  }
+
+  async save(task: Task): Promise<void> {
+    const snapshot = structuredClone(task);
+    this.tasks.set(task.id, snapshot);
+    await this.enqueueWrite(task.id, () => this.writeTask(snapshot));
+  }
+
+  async listByContext(contextId: string): Promise<Task[]> {
+    return [...this.tasks.values()]
+      .filter((t) => t.contextId === contextId)
+      .sort((a, b) => updatedAt(a) - updatedAt(b))
+      .map((t) => structuredClone(t));
+  }
+
+  async close(): Promise<void> {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+    await Promise.all(this.writes.values());
+  }
+
+  /**
+   * Remove finished tasks past `maxAge`, then the oldest finished tasks
+   * beyond `maxTasks`. In-flight tasks are never pruned.
+   */
+  async prune(): Promise<number> {
+    const maxAge = this.config.maxAge ?? 0;
+    const maxTasks = this.config.maxTasks ?? 0;
+    if (!maxAge && !maxTasks) return 0;
+
+    const now = Date.now();
+    const finished = [...this.tasks.values()]
+      .filter((t) => TERMINAL_STATES.has(t.status.state))
+      .sort((a, b) => updatedAt(a) - updatedAt(b));
+
+    const victims = new Set<string>();
+    if (maxAge > 0) {
+      for (const t of finished) {
+        if (now - updatedAt(t) > maxAge) victims.add(t.id);
+      }
+    }
+    if (maxTasks > 0) {
+      let excess = this.tasks.size - victims.size - maxTasks;
+      for (const t of finished) {
+        if (excess <= 0) break;
+        if (victims.has(t.id)) continue;
+        victims.add(t.id);
+        excess--;
+      }
+    }
+
+    for (const taskId of victims) {
+      this.tasks.delete(taskId);
+      await this.enqueueWrite(taskId, () => rm(this.pathFor(taskId), { force: true }));
+    }
+    if (victims.size > 0) {
+      log.info("Pruned finished tasks", { pruned: victims.size, remaining: this.tasks.size });
+    }
+    return victims.size;
+  }
+
+  // ── Internals ───────────────────────────────────────────────────────────
+
+  private markInterrupted(task: Task): void {
+    const previous = task.status.state;
+    task.status = {
+      state: "failed",
+      timestamp: new Date().toISOString(),
+      message: {
+        kind: "message",
+        messageId: uuidv4(),
+        role: "agent",
+        parts: [{ kind: "text", text: RECOVERY_MESSAGE }],
+        taskId: task.id,
+        contextId: task.contextId,
+      },
+    };
+    log.warn("Recovered interrupted task", { taskId: task.id, previousState: previous });
+  }
+
+  private pathFor(taskId: string): string {
+    return join(this.directory, `${encodeURIComponent(taskId)}.json`);
+  }
+
+  private async writeTask(task: Task): Promise<void> {
+    const target = this.pathFor(task.id);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(task), "utf-8");
+    await rename(tmp, target);
+  }
+
+  private enqueueWrite(taskId: string, op: () => Promise<void>): Promise<void> {
+    const prev = this.writes.get(taskId) ?? Promise.resolve();
+    const next = prev.catch(() => {}).then(op);
+    this.writes.set(taskId, next);
+    next.finally(() => {
+      if (this.writes.get(taskId) === next) this.writes.delete(taskId);
+    }).catch(() => {});
+    return next;
+  }
+}
+
+function updatedAt(task: Task): number {
+  const ts = task.status.timestamp ? Date.parse(task.status.timestamp) : NaN;
+  return Number.isNaN(ts) ? 0 : ts;
+}
+
+// ─── Factory ────────────────────────────────────────────────────────────────
+
+/** The SDK's in-memory store, adapted to the managed lifecycle. */
+class MemoryTaskStore extends InMemoryTaskStore implements ManagedTaskStore {
+  /** contextId → task ids, in the order the tasks were first saved */
+  private readonly byContext = new Map<string, Set<string>>();
+
+  async init(): Promise<void> {}
+  async close(): Promise<void> {}
+
+  override async save(task: Task): Promise<void> {
+    await super.save(task);
+    const ids = this.byContext.get(task.contextId) ?? new Set<string>();
+    this.byContext.set(task.contextId, ids.add(task.id));
+  }
+
+  async listByContext(contextId: string): Promise<Task[]> {
+    const tasks: Task[] = [];
+    for (const taskId of this.byContext.get(contextId) ?? []) {
+      const task = await this.load(taskId);
+      if (task) tasks.push(task);
+    }
+    return tasks;
+  }
+}
+
+/** Create and initialize the task store selected by config. */
+export async function createTaskStore(config: TaskStoreConfig): Promise<ManagedTaskStore> {
+  const type = config.type ?? "memory";
+  let store: ManagedTaskStore;
+  if (type === "file") {
+    store = new FileTaskStore(config);
+  } else if (type === "memory") {
+    store = new MemoryTaskStore();
+  } else {
+    throw new Error(`Unknown taskStore.type "${type as string}" (expected "memory" or "file")`);
+  }
+  await store.init();
+  return store;
+}
@@ -24,3 +24,45 @@ export function createDeferred<T>(): Deferred<T> {
 export function sleep(ms: number): Promise<void> {
   return new Promise((r) => setTimeout(r, ms));
 }
+
+/** A timeout that can be paused, e.g. while waiting on something external. */
+export interface PausableTimer {
+  pause(): void;
+  resume(): void;
+  clear(): void;
+}
+
+/** Call `onExpire` after `ms` of running (un-paused) time. */
+export function createPausableTimer(ms: number, onExpire: () => void): PausableTimer {
+  let remaining = ms;
+  let startedAt = 0;
+  let handle: ReturnType<typeof setTimeout> | null = null;
+  let done = false;
+
+  const start = () => {
+    startedAt = Date.now();
+    handle = setTimeout(() => {
+      done = true;
+      handle = null;
+      onExpire();
+    }, remaining);
+  };
+  start();
+
+  return {
+    pause() {
+      if (!handle) return;
+      clearTimeout(handle);
+      handle = null;
+      remaining = Math.max(0, remaining - (Date.now() - startedAt));
+    },
+    resume() {
+      if (!handle && !done) start();
+    },
+    clear() {
+      done = true;
+      if (handle) clearTimeout(handle);
+      handle = null;
+    },
+  };
+}
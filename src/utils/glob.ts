@@ -0,0 +1,65 @@
+/**
+ * Glob Matching
+ *
+ * Minimal glob → RegExp conversion for config-driven filters:
+ *  - `*`   any run of characters except `/`
+ *  - `?`   one character except `/`
+ *  - `**`  any number of path segments (`a/**` also matches `a` itself)
+ *  - `{a,b}` alternatives
+ *
+ * Patterns without a `/` match against the last path segment, so `*.md`
+ * matches `docs/readme.md` — the same convention as `.gitignore`.
+ */
+
+const cache = new Map<string, RegExp>();
+
+/** Compile a glob into an anchored RegExp. */
+export function globToRegExp(glob: string): RegExp {
+  const cached = cache.get(glob);
+  if (cached) return cached;
+
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        const atStart = i === 0 || glob[i - 1] === "/";
+        const next = glob[i + 2];
+        i++;
+        if (atStart && next === "/") {
+          re += "(?:.*/)?";
+          i++;
+        } else if (atStart && next === undefined && re.endsWith("/")) {
+          re = re.slice(0, -1) + "(?:/.*)?";
+        } else {
+          re += ".*";
+        }
+      } else {
+        re += "[^/]*";
+      }
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "{") {
+      const close = glob.indexOf("}", i);
+      if (close === -1) {
+        re += "\\{";
+        continue;
+      }
+      const alts = glob.slice(i + 1, close).split(",").map((a) => globToRegExp(a).source.slice(1, -1));
+      re += `(?:${alts.join("|")})`;
+      i = close;
+    } else {
+      re += c.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  const compiled = new RegExp(`^${re}$`);
+  cache.set(glob, compiled);
+  return compiled;
+}
+
+/** True when `path` (forward slashes) matches any of `patterns`. */
+export function matchesGlob(path: string, patterns: string[]): boolean {
+  const base = path.slice(path.lastIndexOf("/") + 1);
+  return patterns.some((p) => globToRegExp(p).test(p.includes("/") ? path : base));
+}
@@ -0,0 +1,17 @@
+/**
+ * Host Allow-Lists
+ *
+ * Shared by the config options that restrict which hosts the agent may
+ * contact on a caller's behalf (push notification webhooks, attachment
+ * URIs). Entries are hostnames; a leading "." also matches subdomains
+ * (".example.com" matches "example.com" and "api.example.com").
+ */
+
+/** True when `hostname` matches an entry of `allowedHosts`. */
+export function isHostAllowed(hostname: string, allowedHosts: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return allowedHosts.some((h) => {
+    const entry = h.toLowerCase();
+    return entry.startsWith(".") ? host.endsWith(entry) || host === entry.slice(1) : host === entry;
+  });
+}
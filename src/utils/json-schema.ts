@@ -0,0 +1,339 @@
+/**
+ * JSON Schema Validation
+ *
+ * A dependency-free validator for the JSON Schema subset that structured
+ * output schemas use in practice:
+ *  - `type` (string or array; `integer` included), `enum`, `const`
+ *  - objects: `properties`, `required`, `additionalProperties`
+ *  - arrays: `items`, `minItems`, `maxItems`, `uniqueItems`
+ *  - strings: `minLength`, `maxLength`, `pattern`
+ *  - numbers: `minimum`, `maximum`, `exclusiveMinimum`, `exclusiveMaximum`, `multipleOf`
+ *  - combinators: `allOf`, `anyOf`, `oneOf`, `not`
+ *  - local `$ref` (`#/$defs/...`, `#/definitions/...`)
+ *
+ * Other keywords (`format`, `$schema`, `title`, ...) are ignored. Errors are
+ * reported as `<path>: <problem>` with `$` for the root, so they can be fed
+ * back to the model verbatim.
+ */
+
+export type JsonSchema = boolean | { [keyword: string]: unknown };
+
+/** Stop collecting after this many errors — enough to act on. */
+const MAX_ERRORS = 20;
+
+/**
+ * Give up after checking this many (sub)schemas. Nested `anyOf`s over
+ * shared definitions multiply the work; this keeps one validation cheap.
+ */
+const MAX_STEPS = 100_000;
+
+/** One validation: the schema `$ref`s resolve against, and the work done so far. */
+interface Run {
+  root: JsonSchema;
+  steps: number;
+}
+
+/** Validate `value`; returns the list of problems (empty when valid). */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  check(value, schema, "$", { root: schema, steps: 0 }, errors);
+  return errors.slice(0, MAX_ERRORS);
+}
+
+export interface SchemaCheckOptions {
+  /**
+   * Accept `pattern` (default: true). Turn off for schemas from callers: a
+   * regular expression can take exponential time on a crafted answer.
+   */
+  patterns?: boolean;
+}
+
+/**
+ * Check that a schema is usable before running a task against it: an object
+ * (or boolean) whose `pattern`s compile and whose `$ref`s resolve without
+ * looping back on themselves.
+ *
+ * @throws Error describing the first problem found
+ */
+export function assertValidSchema(schema: unknown, options: SchemaCheckOptions = {}): asserts schema is JsonSchema {
+  if (typeof schema === "boolean") return;
+  if (!isObject(schema)) throw new Error("schema must be a JSON object");
+  walkSchema(schema, "#", schema as JsonSchema, options, new Set());
+}
+
+// ─── Validation ─────────────────────────────────────────────────────────────
+
+function check(value: unknown, schema: JsonSchema, path: string, run: Run, errors: string[]): void {
+  if (errors.length >= MAX_ERRORS) return;
+  if (++run.steps > MAX_STEPS) {
+    errors.push(`${path}: the schema is too complex to check`);
+    return;
+  }
+  if (schema === true) return;
+  if (schema === false) {
+    errors.push(`${path}: is not allowed`);
+    return;
+  }
+
+  if (typeof schema.$ref === "string") {
+    check(value, resolveRef(schema.$ref, run.root), path, run, errors);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((t) => hasType(value, t))) {
+      errors.push(`${path}: must be ${types.join(" or ")}, got ${typeName(value)}`);
+      return;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((v) => deepEqual(v, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+  }
+  if (Object.hasOwn(schema, "const") && !deepEqual(schema.const, value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") checkString(value, schema, path, errors);
+  if (typeof value === "number") checkNumber(value, schema, path, errors);
+  if (Array.isArray(value)) checkArray(value, schema, path, run, errors);
+  if (isObject(value)) checkObject(value, schema, path, run, errors);
+
+  checkCombinators(value, schema, path, run, errors);
+}
+
+function checkString(value: string, schema: Record<string, unknown>, path: string, errors: string[]): void {
+  const length = [...value].length;
+  if (typeof schema.minLength === "number" && length < schema.minLength) {
+    errors.push(`${path}: must be at least ${schema.minLength} characters`);
+  }
+  if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+    errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+  }
+  if (typeof schema.pattern === "string" && !new RegExp(schema.pattern, "u").test(value)) {
+    errors.push(`${path}: must match /${schema.pattern}/`);
+  }
+}
+
+function checkNumber(value: number, schema: Record<string, unknown>, path: string, errors: string[]): void {
+  if (typeof schema.minimum === "number" && value < schema.minimum) {
+    errors.push(`${path}: must be >= ${schema.minimum}`);
+  }
+  if (typeof schema.maximum === "number" && value > schema.maximum) {
+    errors.push(`${path}: must be <= ${schema.maximum}`);
+  }
+  if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+    errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+  }
+  if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+    errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+  }
+  if (typeof schema.multipleOf === "number" && schema.multipleOf > 0) {
+    const ratio = value / schema.multipleOf;
+    if (Math.abs(ratio - Math.round(ratio)) > 1e-9) {
+      errors.push(`${path}: must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+}
+
+function checkArray(
+  value: unknown[],
+  schema: Record<string, unknown>,
+  path: string,
+  run: Run,
+  errors: string[],
+): void {
+  if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+    errors.push(`${path}: must have at least ${schema.minItems} items`);
+  }
+  if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+    errors.push(`${path}: must have at most ${schema.maxItems} items`);
+  }
+  if (schema.uniqueItems === true) {
+    const dup = value.findIndex((v, i) => value.findIndex((w) => deepEqual(v, w)) !== i);
+    if (dup !== -1) errors.push(`${path}[${dup}]: duplicates an earlier item`);
+  }
+  if (isSchema(schema.items)) {
+    value.forEach((item, i) => check(item, schema.items as JsonSchema, `${path}[${i}]`, run, errors));
+  }
+}
+
+function checkObject(
+  value: Record<string, unknown>,
+  schema: Record<string, unknown>,
+  path: string,
+  run: Run,
+  errors: string[],
+): void {
+  const properties = isObject(schema.properties) ? (schema.properties as Record<string, JsonSchema>) : {};
+
+  if (Array.isArray(schema.required)) {
+    for (const name of schema.required as string[]) {
+      if (!Object.hasOwn(value, name)) errors.push(`${path}: missing required property "${name}"`);
+    }
+  }
+  for (const [name, propValue] of Object.entries(value)) {
+    const propPath = /^[A-Za-z_$][\w$]*$/.test(name) ? `${path}.${name}` : `${path}[${JSON.stringify(name)}]`;
+    if (Object.hasOwn(properties, name)) {
+      check(propValue, properties[name], propPath, run, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push(`${propPath}: is not an allowed property`);
+    } else if (isObject(schema.additionalProperties)) {
+      check(propValue, schema.additionalProperties as JsonSchema, propPath, run, errors);
+    }
+  }
+}
+
+function checkCombinators(
+  value: unknown,
+  schema: Record<string, unknown>,
+  path: string,
+  run: Run,
+  errors: string[],
+): void {
+  const matches = (sub: JsonSchema) => {
+    const subErrors: string[] = [];
+    check(value, sub, path, run, subErrors);
+    return subErrors;
+  };
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf as JsonSchema[]) check(value, sub, path, run, errors);
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const results = (schema.anyOf as JsonSchema[]).map(matches);
+    if (!results.some((r) => r.length === 0)) {
+      errors.push(`${path}: must match at least one of the allowed shapes (${results.map((r) => r[0]).join("; ")})`);
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const passing = (schema.oneOf as JsonSchema[]).filter((sub) => matches(sub).length === 0).length;
+    if (passing !== 1) {
+      errors.push(`${path}: must match exactly one of the allowed shapes (matched ${passing})`);
+    }
+  }
+  if (isSchema(schema.not) && matches(schema.not as JsonSchema).length === 0) {
+    errors.push(`${path}: must not match the excluded shape`);
+  }
+}
+
+// ─── Schema Checks ──────────────────────────────────────────────────────────
+
+function walkSchema(
+  schema: unknown,
+  where: string,
+  root: JsonSchema,
+  options: SchemaCheckOptions,
+  acyclic: Set<unknown>,
+): void {
+  if (typeof schema === "boolean") return;
+  if (!isObject(schema)) throw new Error(`${where}: must be a schema object`);
+
+  if (schema.pattern !== undefined && options.patterns === false) {
+    throw new Error(`${where}/pattern: regular expressions are not accepted here`);
+  }
+  if (typeof schema.pattern === "string") {
+    try {
+      new RegExp(schema.pattern, "u");
+    } catch (e) {
+      throw new Error(`${where}/pattern: invalid regular expression: ${(e as Error).message}`);
+    }
+  }
+  if (typeof schema.$ref === "string") {
+    resolveRef(schema.$ref, root);
+    if (loopsBack(schema, root, new Set(), acyclic)) throw new Error(`${where}/$ref: "${schema.$ref}" is circular`);
+  }
+
+  for (const key of ["items", "additionalProperties", "not"]) {
+    if (isObject(schema[key])) walkSchema(schema[key], `${where}/${key}`, root, options, acyclic);
+  }
+  for (const key of ["properties", "$defs", "definitions"]) {
+    if (isObject(schema[key])) {
+      for (const [name, sub] of Object.entries(schema[key] as Record<string, unknown>)) {
+        walkSchema(sub, `${where}/${key}/${name}`, root, options, acyclic);
+      }
+    }
+  }
+  for (const key of ["allOf", "anyOf", "oneOf"]) {
+    if (Array.isArray(schema[key])) {
+      (schema[key] as unknown[]).forEach((sub, i) => walkSchema(sub, `${where}/${key}/${i}`, root, options, acyclic));
+    }
+  }
+}
+
+/**
+ * Whether `schema` reaches itself again while checking the same value:
+ * through `$ref`, `allOf`, `anyOf`, `oneOf` or `not`. Validation would never
+ * end. Recursion through `properties` or `items` is fine — each step moves
+ * one level into the value. `acyclic` remembers schemas already cleared.
+ */
+function loopsBack(schema: unknown, root: JsonSchema, path: Set<unknown>, acyclic: Set<unknown>): boolean {
+  if (!isObject(schema) || acyclic.has(schema)) return false;
+  if (path.has(schema)) return true;
+  path.add(schema);
+  const next: unknown[] = [];
+  if (typeof schema.$ref === "string") next.push(resolveRef(schema.$ref, root));
+  for (const key of ["allOf", "anyOf", "oneOf"]) {
+    if (Array.isArray(schema[key])) next.push(...(schema[key] as unknown[]));
+  }
+  next.push(schema.not);
+  if (next.some((sub) => loopsBack(sub, root, path, acyclic))) return true;
+  path.delete(schema);
+  acyclic.add(schema);
+  return false;
+}
+
+/** Resolve a local JSON pointer `$ref` against the root schema. */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  if (ref === "#") return root;
+  if (!ref.startsWith("#/")) throw new Error(`unsupported $ref "${ref}" (only local references are allowed)`);
+
+  let node: unknown = root;
+  for (const raw of ref.slice(2).split("/")) {
+    const key = decodeURIComponent(raw).replace(/~1/g, "/").replace(/~0/g, "~");
+    node = isObject(node) && Object.hasOwn(node, key) ? node[key] : undefined;
+  }
+  if (!isSchema(node)) throw new Error(`$ref "${ref}" does not resolve to a schema`);
+  return node as JsonSchema;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "null": return value === null;
+    case "boolean": return typeof value === "boolean";
+    case "string": return typeof value === "string";
+    case "number": return typeof value === "number" && Number.isFinite(value);
+    case "integer": return typeof value === "number" && Number.isInteger(value);
+    case "array": return Array.isArray(value);
+    case "object": return isObject(value);
+    default: return false;
+  }
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSchema(value: unknown): boolean {
+  return typeof value === "boolean" || isObject(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((k) => Object.hasOwn(b, k) && deepEqual(a[k], b[k]));
+  }
+  return false;
+}
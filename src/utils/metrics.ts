@@ -0,0 +1,191 @@
+/**
+ * Metrics — Counters, Gauges and Histograms in Prometheus Text Format
+ *
+ * A small in-process registry; no client library or push gateway needed.
+ * Modules declare their metrics once at load time through the shared
+ * `metrics` registry and the server renders them at `/metrics`.
+ */
+
+export type Labels = Record<string, string | number>;
+
+/** Default latency buckets, in seconds. */
+export const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: "counter" | "gauge" | "histogram";
+  render(): string[];
+}
+
+// ─── Metric Types ───────────────────────────────────────────────────────────
+
+export class Counter implements Metric {
+  readonly type = "counter";
+  private readonly values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  /** Current value for a label set (0 if never incremented). */
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    return [...this.values].map(([key, value]) => `${this.name}${key} ${value}`);
+  }
+}
+
+export class Gauge implements Metric {
+  readonly type = "gauge";
+  private readonly values = new Map<string, number>();
+  private collector: (() => number) | null = null;
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(labelKey(labels), value);
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  dec(labels: Labels = {}, value = 1): void {
+    this.inc(labels, -value);
+  }
+
+  /** Read the (unlabelled) value from `fn` at scrape time instead. */
+  collect(fn: () => number): void {
+    this.collector = fn;
+  }
+
+  get(labels: Labels = {}): number {
+    if (this.collector && Object.keys(labels).length === 0) return this.collector();
+    return this.values.get(labelKey(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    if (this.collector) return [`${this.name} ${this.collector()}`];
+    return [...this.values].map(([key, value]) => `${this.name}${key} ${value}`);
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  readonly type = "histogram";
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: number[] = LATENCY_BUCKETS,
+  ) {}
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series!.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /** Start a timer; the returned function observes the elapsed seconds. */
+  startTimer(labels: Labels = {}): (extra?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (extra = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(seconds, { ...labels, ...extra });
+      return seconds;
+    };
+  }
+
+  /** Observations recorded for a label set. */
+  count(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.count ?? 0;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${labelKey({ ...labels, le: bound })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${labelKey({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${labelKey(labels)} ${sum}`);
+      lines.push(`${this.name}_count${labelKey(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+// ─── Registry ───────────────────────────────────────────────────────────────
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, () => new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(name, () => new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(name, () => new Histogram(name, help, buckets));
+  }
+
+  /** All metrics in Prometheus text exposition format (version 0.0.4). */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  /** Declaring the same name twice returns the existing metric. */
+  private register<T extends Metric>(name: string, create: () => T): T {
+    const existing = this.metrics.get(name);
+    if (existing) return existing as T;
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+/** Content-Type of `MetricsRegistry.render()`. */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Process-wide registry served at `/metrics`. */
+export const metrics = new MetricsRegistry();
+
+function labelKey(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  const body = entries
+    .map(([k, v]) => `${k}="${String(v).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`)
+    .join(",");
+  return `{${body}}`;
+}
@@ -0,0 +1,122 @@
+/**
+ * Trace Exporters — OTLP/HTTP and a Local JSON-Lines File
+ *
+ * Both write the OTLP JSON encoding (`ExportTraceServiceRequest`): the OTLP
+ * exporter posts it to a collector's `/v1/traces`, the file exporter appends
+ * one request per line — the format the collector's `otlpjsonfile` receiver
+ * reads, so offline traces can be replayed later.
+ */
+
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+
+import type { TracingConfig } from "../config/types.js";
+import { Tracer, type Span, type SpanAttributes, type SpanExporter } from "./tracing.js";
+
+/** Identity stamped on every exported span. */
+export interface TraceResource {
+  serviceName: string;
+  serviceVersion?: string;
+}
+
+const SCOPE = { name: "a2a-copilot" };
+const SPAN_KINDS = { internal: 1, server: 2, client: 3 } as const;
+const STATUS_CODES = { unset: 0, ok: 1, error: 2 } as const;
+const EXPORT_TIMEOUT_MS = 10_000;
+
+/** Encode spans as an OTLP/JSON `ExportTraceServiceRequest`. */
+export function toOtlpJson(spans: Span[], resource: TraceResource): Record<string, unknown> {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: otlpAttributes({
+            "service.name": resource.serviceName,
+            ...(resource.serviceVersion ? { "service.version": resource.serviceVersion } : {}),
+          }),
+        },
+        scopeSpans: [{ scope: SCOPE, spans: spans.map(otlpSpan) }],
+      },
+    ],
+  };
+}
+
+export class OtlpHttpExporter implements SpanExporter {
+  constructor(
+    private readonly endpoint: string,
+    private readonly headers: Record<string, string>,
+    private readonly resource: TraceResource,
+  ) {}
+
+  async export(spans: Span[]): Promise<void> {
+    const res = await fetch(this.endpoint, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...this.headers },
+      body: JSON.stringify(toOtlpJson(spans, this.resource)),
+      signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      throw new Error(`Collector at ${this.endpoint} answered ${res.status} ${res.statusText}`);
+    }
+  }
+}
+
+export class FileSpanExporter implements SpanExporter {
+  private readonly path: string;
+
+  constructor(path: string, private readonly resource: TraceResource) {
+    this.path = resolve(path);
+  }
+
+  async export(spans: Span[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, JSON.stringify(toOtlpJson(spans, this.resource)) + "\n");
+  }
+}
+
+/** A tracer exporting as configured, or a disabled one. */
+export function createTracer(config: TracingConfig, resource: TraceResource): Tracer {
+  if (!config.enabled) return new Tracer(config, null);
+  const named = { ...resource, serviceName: config.serviceName || resource.serviceName };
+  const exporter =
+    config.exporter === "file"
+      ? new FileSpanExporter(config.file ?? "traces.jsonl", named)
+      : new OtlpHttpExporter(config.endpoint ?? "http://localhost:4318/v1/traces", config.headers ?? {}, named);
+  return new Tracer(config, exporter);
+}
+
+// ─── OTLP JSON Encoding ─────────────────────────────────────────────────────
+
+function otlpSpan(span: Span): Record<string, unknown> {
+  return {
+    traceId: span.context.traceId,
+    spanId: span.context.spanId,
+    ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+    ...(span.context.traceState ? { traceState: span.context.traceState } : {}),
+    name: span.name,
+    kind: SPAN_KINDS[span.kind],
+    startTimeUnixNano: String(span.startTime),
+    endTimeUnixNano: String(span.endTime ?? span.startTime),
+    attributes: otlpAttributes(span.attributes),
+    events: span.events.map((e) => ({
+      timeUnixNano: String(e.time),
+      name: e.name,
+      attributes: otlpAttributes(e.attributes),
+    })),
+    status: {
+      code: STATUS_CODES[span.status.code],
+      ...(span.status.message ? { message: span.status.message } : {}),
+    },
+  };
+}
+
+function otlpAttributes(attributes: SpanAttributes): Record<string, unknown>[] {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: otlpValue(value) }));
+}
+
+function otlpValue(value: string | number | boolean): Record<string, unknown> {
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  // int64 values are strings in OTLP/JSON
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+}
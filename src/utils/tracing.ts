@@ -0,0 +1,248 @@
+/**
+ * Tracing — OpenTelemetry Spans with W3C Trace Context
+ *
+ * A small in-process tracer; no OpenTelemetry SDK needed. An incoming
+ * `traceparent` / `tracestate` continues the caller's trace, the active span
+ * is carried through async calls so new spans nest under it, and finished
+ * spans are batched to an exporter (see `trace-exporters.ts`).
+ *
+ * A disabled tracer still hands out spans — unsampled, never exported — so
+ * callers need no special case and the caller's trace id still propagates.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+
+import type { TracingConfig } from "../config/types.js";
+import { logger } from "./logger.js";
+
+const log = logger.child("tracing");
+
+/** Identity of a span, as carried by `traceparent`. */
+export interface SpanContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters */
+  spanId: string;
+  sampled: boolean;
+  /** Vendor state from `tracestate`, passed along unchanged */
+  traceState?: string;
+}
+
+export type SpanKind = "internal" | "server" | "client";
+export type AttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, AttributeValue>;
+
+export interface SpanEvent {
+  name: string;
+  /** Unix epoch, in nanoseconds */
+  time: bigint;
+  attributes: SpanAttributes;
+}
+
+export interface SpanOptions {
+  /** Parent span or remote context; defaults to the active span, null for a new trace */
+  parent?: Span | SpanContext | null;
+  kind?: SpanKind;
+  attributes?: Record<string, AttributeValue | null | undefined>;
+}
+
+/** Receives finished, sampled spans in batches. */
+export interface SpanExporter {
+  export(spans: Span[]): Promise<void>;
+}
+
+// ─── W3C Trace Context ──────────────────────────────────────────────────────
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/** Parse a `traceparent` header (and optional `tracestate`); null if absent or malformed. */
+export function parseTraceparent(traceparent: unknown, tracestate?: unknown): SpanContext | null {
+  if (typeof traceparent !== "string") return null;
+  const match = TRACEPARENT.exec(traceparent.trim().toLowerCase());
+  if (!match) return null;
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version 00 has exactly four fields; ff is forbidden; all-zero ids are invalid
+  if (version === "ff" || (version === "00" && rest)) return null;
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return null;
+  return {
+    traceId,
+    spanId,
+    sampled: (parseInt(flags, 16) & 1) === 1,
+    ...(typeof tracestate === "string" && tracestate.trim() ? { traceState: tracestate.trim() } : {}),
+  };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? "01" : "00"}`;
+}
+
+// ─── Span ───────────────────────────────────────────────────────────────────
+
+export class Span {
+  readonly startTime = nowNanos();
+  endTime: bigint | null = null;
+  readonly attributes: SpanAttributes = {};
+  readonly events: SpanEvent[] = [];
+  status: { code: "unset" | "ok" | "error"; message?: string } = { code: "unset" };
+
+  constructor(
+    readonly name: string,
+    readonly kind: SpanKind,
+    readonly context: SpanContext,
+    readonly parentSpanId: string | null,
+    private readonly onEnd: (span: Span) => void,
+  ) {}
+
+  /** Set an attribute; null and undefined values are skipped. */
+  setAttribute(key: string, value: AttributeValue | null | undefined): this {
+    if (value !== null && value !== undefined) this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: Record<string, AttributeValue | null | undefined>): this {
+    for (const [key, value] of Object.entries(attributes)) this.setAttribute(key, value);
+    return this;
+  }
+
+  addEvent(name: string, attributes: SpanAttributes = {}): this {
+    this.events.push({ name, time: nowNanos(), attributes });
+    return this;
+  }
+
+  /** Mark the span failed, recording the error as an `exception` event. */
+  fail(error: unknown): this {
+    const message = error instanceof Error ? error.message : String(error);
+    this.addEvent("exception", {
+      "exception.type": error instanceof Error ? error.name : "Error",
+      "exception.message": message,
+    });
+    this.status = { code: "error", message };
+    return this;
+  }
+
+  get ended(): boolean {
+    return this.endTime !== null;
+  }
+
+  /** Finish the span and hand it to the exporter. Idempotent. */
+  end(): void {
+    if (this.endTime !== null) return;
+    this.endTime = nowNanos();
+    this.onEnd(this);
+  }
+}
+
+// ─── Tracer ─────────────────────────────────────────────────────────────────
+
+const MAX_BATCH_SIZE = 512;
+const MAX_QUEUE_SIZE = 2048;
+const FLUSH_INTERVAL_MS = 5_000;
+
+export class Tracer {
+  private readonly activeSpan = new AsyncLocalStorage<Span>();
+  private readonly sampleRatio: number;
+  private readonly queue: Span[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private exporting: Promise<void> = Promise.resolve();
+  private dropped = 0;
+
+  /**
+   * @param exporter  Where finished spans go; null disables tracing
+   */
+  constructor(config: TracingConfig, private readonly exporter: SpanExporter | null) {
+    this.sampleRatio = Math.min(1, Math.max(0, config.sampleRatio ?? 1));
+  }
+
+  get enabled(): boolean {
+    return this.exporter !== null;
+  }
+
+  /**
+   * Start a span. A child follows its parent's sampling decision; a new
+   * trace is sampled with probability `sampleRatio`.
+   */
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const parent = options.parent === undefined ? this.activeSpan.getStore() ?? null : options.parent;
+    const parentContext = parent instanceof Span ? parent.context : parent;
+    const sampled = this.enabled && (parentContext ? parentContext.sampled : Math.random() < this.sampleRatio);
+    const context: SpanContext = {
+      traceId: parentContext?.traceId ?? randomHex(16),
+      spanId: randomHex(8),
+      sampled,
+      ...(parentContext?.traceState ? { traceState: parentContext.traceState } : {}),
+    };
+    const span = new Span(name, options.kind ?? "internal", context, parentContext?.spanId ?? null, (s) =>
+      this.enqueue(s),
+    );
+    if (options.attributes) span.setAttributes(options.attributes);
+    return span;
+  }
+
+  /** The span the current async call runs under, if any. */
+  active(): Span | undefined {
+    return this.activeSpan.getStore();
+  }
+
+  /** Run `fn` with `span` active — the default parent of spans started inside. */
+  withSpan<T>(span: Span, fn: () => T): T {
+    return this.activeSpan.run(span, fn);
+  }
+
+  /** Export everything finished so far. */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const batch = this.queue.splice(0);
+    if (batch.length === 0 || !this.exporter) return this.exporting;
+
+    const exporter = this.exporter;
+    const dropped = this.dropped;
+    this.dropped = 0;
+    // One export at a time, in order
+    this.exporting = this.exporting
+      .then(() => exporter.export(batch))
+      .then(() => {
+        if (dropped > 0) log.warn("Spans dropped — export queue full", { dropped });
+      })
+      .catch((e) => {
+        log.warn("Span export failed", { spans: batch.length, error: (e as Error).message });
+      });
+    return this.exporting;
+  }
+
+  /** Export the remaining spans before the process exits. */
+  async shutdown(): Promise<void> {
+    await this.flush();
+  }
+
+  private enqueue(span: Span): void {
+    if (!span.context.sampled || !this.exporter) return;
+    if (this.queue.length >= MAX_QUEUE_SIZE) {
+      this.dropped++;
+      return;
+    }
+    this.queue.push(span);
+    if (this.queue.length >= MAX_BATCH_SIZE) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), FLUSH_INTERVAL_MS);
+      this.timer.unref();
+    }
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** Offset that turns the monotonic clock into Unix epoch nanoseconds. */
+const EPOCH_OFFSET = BigInt(Date.now()) * 1_000_000n - process.hrtime.bigint();
+
+function nowNanos(): bigint {
+  return process.hrtime.bigint() + EPOCH_OFFSET;
+}
+
+function randomHex(bytes: number): string {
+  return randomBytes(bytes).toString("hex");
+}